@@ -0,0 +1,16 @@
+'use client';
+
+import {useParams} from 'next/navigation';
+import {Stack, Title} from '@mantine/core';
+import LoanSchedule from '@/components/accounts/LoanSchedule';
+
+export default function LoanPage() {
+    const {accountId} = useParams<{ accountId: string }>();
+
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Loan Schedule</Title>
+            <LoanSchedule accountId={accountId}/>
+        </Stack>
+    );
+}
\ No newline at end of file
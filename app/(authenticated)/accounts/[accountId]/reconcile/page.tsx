@@ -0,0 +1,16 @@
+'use client';
+
+import {useParams} from 'next/navigation';
+import {Stack, Title} from '@mantine/core';
+import AccountReconciliation from '@/components/accounts/AccountReconciliation';
+
+export default function ReconcilePage() {
+    const {accountId} = useParams<{ accountId: string }>();
+
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Reconcile</Title>
+            <AccountReconciliation accountId={accountId}/>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+'use client';
+
+import {Stack, Title} from '@mantine/core';
+import BackupManager from '@/components/backups/BackupManager';
+
+export default function BackupPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Backup & Restore</Title>
+            <BackupManager/>
+        </Stack>
+    );
+}
\ No newline at end of file
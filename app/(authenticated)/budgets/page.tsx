@@ -0,0 +1,14 @@
+import {Card, Stack, Title} from '@mantine/core';
+import BudgetManager from '@/components/budgets/BudgetManager';
+
+export default function BudgetsPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Budgets</Title>
+
+            <Card withBorder radius="md">
+                <BudgetManager/>
+            </Card>
+        </Stack>
+    );
+}
\ No newline at end of file
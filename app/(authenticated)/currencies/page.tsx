@@ -0,0 +1,13 @@
+'use client';
+
+import {Stack, Title} from '@mantine/core';
+import ExchangeRateManager from '@/components/currencies/ExchangeRateManager';
+
+export default function CurrenciesPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Currencies</Title>
+            <ExchangeRateManager/>
+        </Stack>
+    );
+}
\ No newline at end of file
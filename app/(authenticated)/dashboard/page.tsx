@@ -3,6 +3,7 @@
 import {
     ActionIcon,
     Alert,
+    Anchor,
     Card,
     Collapse,
     ColorSwatch,
@@ -20,23 +21,46 @@ import {useEffect, useState} from 'react';
 import Link from 'next/link';
 import {services} from '@/lib/services';
 import {useAuth} from '@/lib/hooks/useAuth';
-import {Account} from '@/types/accounts';
+import {Account, BalanceSummary} from '@/types/accounts';
 import {formatCurrency} from '@/lib/utils';
+import {getAmountOwed, isLiability} from '@/lib/accounts';
+import {toMajor, zeroMoney} from '@/lib/money';
+import {Money} from '@/types/money';
 import {notifications} from '@mantine/notifications';
 import {AppError} from '@/lib/errors';
 import {RadarChart} from '@mantine/charts';
+import {BudgetProgress} from '@/types/budgets';
+import BudgetOverviewCard from '@/components/budgets/BudgetOverviewCard';
+import MoneyOwedCard from '@/components/parties/MoneyOwedCard';
+import {Transaction} from '@/types/transactions';
+import {PartyBalance} from '@/types/parties';
+import {getPartyBalance} from '@/lib/parties';
 
 export default function DashboardPage() {
     const {user} = useAuth();
     const [accountsExpanded, setAccountsExpanded] = useState(false);
     const [accounts, setAccounts] = useState<Account[]>([]);
+    const [balanceSummary, setBalanceSummary] = useState<BalanceSummary>({
+        assets: zeroMoney(),
+        liabilities: zeroMoney(),
+        netWorth: zeroMoney()
+    });
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string>('');
     const [monthlyStats, setMonthlyStats] = useState({
-        income: 0,
-        expenses: 0
+        income: zeroMoney(),
+        expenses: zeroMoney()
+    });
+    const [categorySpending, setCategorySpending] = useState<Record<string, Money>>({});
+    const [budgets, setBudgets] = useState<BudgetProgress[]>([]);
+    // left out of the totals for want of an exchange rate
+    const [unconverted, setUnconverted] = useState<Transaction[]>([]);
+    const [openPaybacks, setOpenPaybacks] = useState<Transaction[]>([]);
+    const [owedTotals, setOwedTotals] = useState<PartyBalance>({
+        owedToUser: zeroMoney(),
+        owedByUser: zeroMoney(),
+        net: zeroMoney()
     });
-    const [categorySpending, setCategorySpending] = useState<Record<string, number>>({});
 
     useEffect(() => {
         const loadDashboardData = async () => {
@@ -60,30 +84,25 @@ export default function DashboardPage() {
 
                 setCategorySpending(spendingByCategory);
 
-                let totalIncome = 0;
-                let totalExpenses = 0;
+                const budgetProgress = await services.budgets.getBudgetProgress(user.uid, now);
+                setBudgets(budgetProgress);
 
-                for (const account of accountsData) {
-                    const transactions = await services.transactions.getTransactionsByAccount(
-                        account.id,
-                        startOfMonth,
-                        endOfMonth
-                    );
-
-                    for (const transaction of transactions) {
-                        if (transaction.category === 'TRANSFER') continue;
-                        if (transaction.type === 'POSITIVE') {
-                            totalIncome += transaction.amount;
-                        } else {
-                            totalExpenses += transaction.amount;
-                        }
-                    }
-                }
+                // both in the base currency, converted at each transaction's date
+                const [incomeAndExpenses, summary] = await Promise.all([
+                    services.stats.getIncomeAndExpenses(user.uid, startOfMonth, endOfMonth),
+                    services.stats.getBalanceSummary(user.uid)
+                ]);
+                setMonthlyStats(incomeAndExpenses);
+                setBalanceSummary(summary);
+                setUnconverted(await services.stats.getUnconvertedTransactions(user.uid));
 
-                setMonthlyStats({
-                    income: totalIncome,
-                    expenses: totalExpenses
-                });
+                // the same split as a person's balance, over everyone
+                const [paybacks, converter] = await Promise.all([
+                    services.transactions.getOpenPaybacks(user.uid),
+                    services.exchangeRates.getConverter(user.uid)
+                ]);
+                setOpenPaybacks(paybacks);
+                setOwedTotals(getPartyBalance(paybacks, converter));
 
             } catch (error) {
                 if (error instanceof AppError) {
@@ -103,9 +122,8 @@ export default function DashboardPage() {
         loadDashboardData();
     }, [user]);
 
-    const totalBalance = accounts.reduce((sum, account) => sum + (account.balance || 0), 0);
-    const spendingProgress = monthlyStats.income > 0
-        ? (monthlyStats.expenses / monthlyStats.income) * 100
+    const spendingProgress = monthlyStats.income.amount > 0
+        ? (monthlyStats.expenses.amount / monthlyStats.income.amount) * 100
         : 0;
 
     if (loading) {
@@ -140,10 +158,20 @@ export default function DashboardPage() {
         );
     }
 
+    const missingCurrencies = Array.from(new Set(unconverted.map(t => t.amount.currency)));
+
     return (
         <Stack gap="lg">
             <Title order={2}>Dashboard</Title>
 
+            {unconverted.length > 0 && (
+                <Alert icon={<IconAlertCircle size={16}/>} color="yellow" title="Missing exchange rates">
+                    {unconverted.length} transactions in {missingCurrencies.join(', ')} have no rate to your base
+                    currency and are left out of these totals.{' '}
+                    <Anchor component={Link} href="/currencies" inherit>Add a rate</Anchor>
+                </Alert>
+            )}
+
             <Grid>
                 <Grid.Col span={{base: 12, md: 12}}>
                     <Card>
@@ -158,9 +186,19 @@ export default function DashboardPage() {
                                 {accountsExpanded ? <IconChevronUp size={16}/> : <IconChevronDown size={16}/>}
                             </ActionIcon>
                         </Group>
-                        <Text size="xl" m="xs" fw={700} mb="sm">
-                            {formatCurrency(totalBalance)}
+                        <Text size="xl" m="xs" fw={700} mb="xs">
+                            {formatCurrency(balanceSummary.netWorth)}
                         </Text>
+                        <Group gap="xl" mx="xs" mb="sm">
+                            <div>
+                                <Text size="xs" c="dimmed">Assets</Text>
+                                <Text size="sm" fw={500} c="green">{formatCurrency(balanceSummary.assets)}</Text>
+                            </div>
+                            <div>
+                                <Text size="xs" c="dimmed">Liabilities</Text>
+                                <Text size="sm" fw={500} c="red">{formatCurrency(balanceSummary.liabilities)}</Text>
+                            </div>
+                        </Group>
 
                         <Collapse in={accountsExpanded}>
                             <Stack gap="xs">
@@ -184,12 +222,18 @@ export default function DashboardPage() {
                                             <ColorSwatch color={account.color} size={13}/>
                                             <div style={{flex: 1}}>
                                                 <Text size="sm" fw={500}>{account.name}</Text>
-                                                <Text
-                                                    size="xs"
-                                                    c={account.balance < 0 ? 'red' : 'dimmed'}
-                                                >
-                                                    {formatCurrency(account.balance)}
-                                                </Text>
+                                                {isLiability(account.type) ? (
+                                                    <Text size="xs" c="red">
+                                                        {formatCurrency(getAmountOwed(account))} owed
+                                                    </Text>
+                                                ) : (
+                                                    <Text
+                                                        size="xs"
+                                                        c={account.balance.amount < 0 ? 'red' : 'dimmed'}
+                                                    >
+                                                        {formatCurrency(account.balance)}
+                                                    </Text>
+                                                )}
                                             </div>
                                         </Group>
                                     </UnstyledButton>
@@ -253,7 +297,7 @@ export default function DashboardPage() {
                                 h={300}
                                 data={Object.entries(categorySpending).map(([category, amount]) => ({
                                     category: category.charAt(0).toUpperCase() + category.slice(1).toLowerCase(),
-                                    spending: amount
+                                    spending: toMajor(amount)
                                 }))}
                                 dataKey="category"
                                 withPolarRadiusAxis
@@ -274,6 +318,15 @@ export default function DashboardPage() {
                     </Card>
                 </Grid.Col>
             </Grid>
+
+            <Grid>
+                <Grid.Col span={{base: 12, md: 6}}>
+                    <BudgetOverviewCard budgets={budgets}/>
+                </Grid.Col>
+                <Grid.Col span={{base: 12, md: 6}}>
+                    <MoneyOwedCard paybacks={openPaybacks} totals={owedTotals}/>
+                </Grid.Col>
+            </Grid>
         </Stack>
     );
 }
\ No newline at end of file
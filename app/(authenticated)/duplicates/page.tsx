@@ -0,0 +1,13 @@
+'use client';
+
+import {Stack, Title} from '@mantine/core';
+import DuplicateReview from '@/components/duplicates/DuplicateReview';
+
+export default function DuplicatesPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Duplicates</Title>
+            <DuplicateReview/>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+'use client';
+
+import {Card, Stack, Tabs, Title} from '@mantine/core';
+import {IconFileImport, IconFileTypeCsv} from '@tabler/icons-react';
+import CsvImporter from '@/components/imports/CsvImporter';
+import StatementImporter from '@/components/imports/StatementImporter';
+
+export default function ImportPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Import</Title>
+
+            <Card withBorder radius="md">
+                <Tabs defaultValue="csv">
+                    <Tabs.List mb="md">
+                        <Tabs.Tab value="csv" leftSection={<IconFileTypeCsv size={16}/>}>
+                            CSV
+                        </Tabs.Tab>
+                        <Tabs.Tab value="statement" leftSection={<IconFileImport size={16}/>}>
+                            OFX / QFX / QIF
+                        </Tabs.Tab>
+                    </Tabs.List>
+
+                    <Tabs.Panel value="csv">
+                        <CsvImporter/>
+                    </Tabs.Panel>
+                    <Tabs.Panel value="statement">
+                        <StatementImporter/>
+                    </Tabs.Panel>
+                </Tabs>
+            </Card>
+        </Stack>
+    );
+}
\ No newline at end of file
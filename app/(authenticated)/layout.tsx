@@ -3,6 +3,10 @@ import {useAuth} from '@/lib/hooks/useAuth';
 import AppLayoutShell from "@/components/layout/AppLayoutShell";
 import React, {useEffect} from 'react';
 import {useRouter} from 'next/navigation';
+import {notifications} from '@mantine/notifications';
+import {IconRepeat} from '@tabler/icons-react';
+import {services} from '@/lib/services';
+import {showPaybackReminders} from '@/components/parties/PaybackReminder';
 
 export default function AuthenticatedLayout({children}: { children: React.ReactNode }) {
     const {user, loading} = useAuth();
@@ -14,6 +18,36 @@ export default function AuthenticatedLayout({children}: { children: React.ReactN
         }
     }, [user, loading, router]);
 
+    // bring old documents up to date, create any recurring occurrences
+    // that came due since the last visit, then remind of paybacks coming due
+    useEffect(() => {
+        if (!user) return;
+
+        services.migrations.runPendingMigrations(user.uid)
+            .catch((error) => {
+                console.error('Data migration failed:', error);
+            })
+            .then(() => services.recurring.processDueOccurrences(user.uid))
+            .then((created) => {
+                if (created > 0) {
+                    notifications.show({
+                        title: 'Recurring transactions',
+                        message: `${created} scheduled transaction${created === 1 ? '' : 's'} added`,
+                        color: 'LightSeaGreen',
+                        icon: <IconRepeat size={16}/>,
+                        autoClose: 5000,
+                    });
+                }
+            })
+            .catch((error) => {
+                console.error('Recurring catch-up failed:', error);
+            })
+            .then(() => showPaybackReminders(user.uid))
+            .catch((error) => {
+                console.error('Payback reminders failed:', error);
+            });
+    }, [user]);
+
     if (loading) {
         return <div>Loading...</div>;
     }
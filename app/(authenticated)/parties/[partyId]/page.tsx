@@ -0,0 +1,16 @@
+'use client';
+
+import {useParams} from 'next/navigation';
+import {Stack, Title} from '@mantine/core';
+import PartyDetails from '@/components/parties/PartyDetails';
+
+export default function PartyPage() {
+    const {partyId} = useParams<{ partyId: string }>();
+
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Person</Title>
+            <PartyDetails partyId={partyId}/>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+'use client';
+
+import {Stack, Title} from '@mantine/core';
+import PartyManager from '@/components/parties/PartyManager';
+import ReminderSettings from '@/components/parties/ReminderSettings';
+
+export default function PartiesPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>People</Title>
+            <PartyManager/>
+            <ReminderSettings/>
+        </Stack>
+    );
+}
\ No newline at end of file
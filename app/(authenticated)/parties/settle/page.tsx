@@ -0,0 +1,13 @@
+'use client';
+
+import {Stack, Title} from '@mantine/core';
+import SettleUp from '@/components/parties/SettleUp';
+
+export default function SettleUpPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Settle Up</Title>
+            <SettleUp/>
+        </Stack>
+    );
+}
\ No newline at end of file
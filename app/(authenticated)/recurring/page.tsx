@@ -0,0 +1,14 @@
+import {Card, Stack, Title} from '@mantine/core';
+import RecurringManager from '@/components/recurring/RecurringManager';
+
+export default function RecurringPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Recurring</Title>
+
+            <Card withBorder radius="md">
+                <RecurringManager/>
+            </Card>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+'use client';
+
+import {Stack, Title} from '@mantine/core';
+import NetWorthReport from '@/components/reports/NetWorthReport';
+import TagReport from '@/components/reports/TagReport';
+
+export default function ReportsPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Reports</Title>
+            <NetWorthReport/>
+            <TagReport/>
+        </Stack>
+    );
+}
\ No newline at end of file
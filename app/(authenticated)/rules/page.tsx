@@ -0,0 +1,13 @@
+'use client';
+
+import {Stack, Title} from '@mantine/core';
+import RuleManager from '@/components/rules/RuleManager';
+
+export default function RulesPage() {
+    return (
+        <Stack gap="lg">
+            <Title order={2}>Rules</Title>
+            <RuleManager/>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -1,31 +1,81 @@
 'use client';
 
 import {useCallback, useEffect, useState} from 'react';
-import {ActionIcon, Alert, Button, ColorInput, Group, Modal, Paper, Stack, Text, TextInput} from '@mantine/core';
-import {IconAlertCircle, IconCheck, IconEdit, IconPlus, IconTrash, IconX} from '@tabler/icons-react';
+import {
+    ActionIcon,
+    Alert,
+    Badge,
+    Button,
+    ColorInput,
+    Group,
+    Modal,
+    NumberInput,
+    Paper,
+    Progress,
+    Select,
+    Stack,
+    Text,
+    TextInput
+} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {
+    IconAdjustments,
+    IconAlertCircle,
+    IconCheck,
+    IconCalendarDollar,
+    IconChecklist,
+    IconEdit,
+    IconPlus,
+    IconRestore,
+    IconTrash,
+    IconTrashX,
+    IconX
+} from '@tabler/icons-react';
+import Link from 'next/link';
 import {services} from '@/lib/services';
-import {Account, CreateAccountDTO, UpdateAccountDTO} from '@/types/accounts';
+import {Account, AccountType, CreateAccountDTO, UpdateAccountDTO} from '@/types/accounts';
 import {AppError} from '@/lib/errors';
 import {useAuth} from '@/lib/hooks/useAuth';
 import {notifications} from '@mantine/notifications';
+import {CURRENCIES, DEFAULT_CURRENCY, fromMajor, toMajor} from '@/lib/money';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {
+    ACCOUNT_TYPES,
+    canReconcile,
+    getAccountTypeLabel,
+    getAmountOwed,
+    getCreditUtilization,
+    isLiability
+} from '@/lib/accounts';
 
 export default function AccountManager() {
     const {user} = useAuth();
     const [accounts, setAccounts] = useState<Account[]>([]);
+    const [archivedAccounts, setArchivedAccounts] = useState<Account[]>([]);
+    const [deletingAccount, setDeletingAccount] = useState<Account | null>(null);
+    const [reassignToId, setReassignToId] = useState<string | null>(null);
     const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
     const [error, setError] = useState<string>('');
     const [formData, setFormData] = useState<CreateAccountDTO>({
         name: '',
-        color: '#1c7ed6'
+        color: '#1c7ed6',
+        currency: DEFAULT_CURRENCY,
+        type: 'CHECKING'
     });
+    const [creditLimit, setCreditLimit] = useState<number>(0);
+    const [openingBalance, setOpeningBalance] = useState<number>(0);
+    const [openingDate, setOpeningDate] = useState<Date>(new Date());
+    const [adjustingAccount, setAdjustingAccount] = useState<Account | null>(null);
+    const [newBalance, setNewBalance] = useState<number>(0);
 
     const loadAccounts = useCallback(async () => {
         try {
             if (!user) return;
-            const data = await services.accounts.getAccountsByUser(user.uid);
-            setAccounts(data);
+            const data = await services.accounts.getAccountsByUser(user.uid, true);
+            setAccounts(data.filter(account => !account.isArchived));
+            setArchivedAccounts(data.filter(account => account.isArchived));
         } catch (error) {
             if (error instanceof AppError) {
                 setError(error.message);
@@ -48,7 +98,12 @@ export default function AccountManager() {
     const handleCreateAccount = async () => {
         try {
             if (!user) return;
-            await services.accounts.createAccount(user.uid, formData);
+            await services.accounts.createAccount(user.uid, {
+                ...formData,
+                creditLimit: getCreditLimit(formData.currency),
+                openingBalance: fromMajor(openingBalance, formData.currency),
+                openingDate
+            });
             await loadAccounts();
             notifications.show({
                 title: 'Success',
@@ -79,7 +134,9 @@ export default function AccountManager() {
 
             const updateData: UpdateAccountDTO = {
                 name: formData.name,
-                color: formData.color
+                color: formData.color,
+                type: formData.type,
+                creditLimit: getCreditLimit(selectedAccount.currency)
             };
 
             await services.accounts.updateAccount(selectedAccount.id, updateData);
@@ -111,16 +168,48 @@ export default function AccountManager() {
         setSelectedAccount(account);
         setFormData({
             name: account.name,
-            color: account.color
+            color: account.color,
+            currency: account.currency,
+            type: account.type
         });
+        setCreditLimit(account.creditLimit ? toMajor(account.creditLimit) : 0);
         setIsEditing(true);
         setIsModalOpen(true);
     };
 
+    // a limit of zero means none
+    const getCreditLimit = (currency: string) =>
+        isLiability(formData.type) && creditLimit > 0 ? fromMajor(creditLimit, currency) : null;
+
+    const handleAdjustBalance = async () => {
+        if (!user || !adjustingAccount) return;
+
+        try {
+            const adjustment = await services.accounts.adjustBalance(
+                adjustingAccount.id,
+                fromMajor(newBalance, adjustingAccount.currency),
+                user.uid
+            );
+            await loadAccounts();
+            notifications.show({
+                title: 'Success',
+                message: adjustment ? 'Balance adjusted successfully' : 'The balance was already correct',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            setAdjustingAccount(null);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
     const handleDeleteClick = async (account: Account) => {
         if (!user) return;
 
-        const confirmed = window.confirm('Are you sure you want to delete this account? This action cannot be undone.');
+        const confirmed = window.confirm('Archive this account? It can be restored from the archived accounts list.');
         if (!confirmed) return;
 
         try {
@@ -128,7 +217,7 @@ export default function AccountManager() {
             await loadAccounts();
             notifications.show({
                 title: 'Success',
-                message: 'Account deleted successfully',
+                message: 'Account archived successfully',
                 color: 'LightSeaGreen',
                 icon: <IconCheck size={16}/>,
                 autoClose: 3000,
@@ -147,11 +236,64 @@ export default function AccountManager() {
         }
     };
 
+    const handleRestoreClick = async (account: Account) => {
+        if (!user) return;
+
+        try {
+            await services.accounts.restoreAccount(account.id, user.uid);
+            await loadAccounts();
+            notifications.show({
+                title: 'Success',
+                message: 'Account restored successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handlePermanentDelete = async () => {
+        if (!user || !deletingAccount) return;
+
+        try {
+            await services.accounts.permanentlyDeleteAccount(deletingAccount.id, user.uid, reassignToId);
+            await loadAccounts();
+            notifications.show({
+                title: 'Success',
+                message: 'Account permanently deleted',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            setDeletingAccount(null);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to delete account',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    };
+
     const resetForm = () => {
         setFormData({
             name: '',
-            color: '#1c7ed6'
+            color: '#1c7ed6',
+            currency: DEFAULT_CURRENCY,
+            type: 'CHECKING'
         });
+        setCreditLimit(0);
+        setOpeningBalance(0);
+        setOpeningDate(new Date());
         setSelectedAccount(null);
         setIsEditing(false);
         setError('');
@@ -194,8 +336,63 @@ export default function AccountManager() {
                                     }}
                                 />
                                 <Text fw={500}>{account.name}</Text>
+                                <Badge variant="light" color="gray">{account.currency}</Badge>
+                                <Badge variant="light" color={isLiability(account.type) ? 'orange' : 'blue'}>
+                                    {getAccountTypeLabel(account.type)}
+                                </Badge>
                             </Group>
                             <Group gap="xs">
+                                {account.unconvertedCount > 0 && (
+                                    <Badge
+                                        variant="light"
+                                        color="yellow"
+                                        component={Link}
+                                        href="/currencies"
+                                        title="Left out of the balance until an exchange rate is added"
+                                    >
+                                        {account.unconvertedCount} without a rate
+                                    </Badge>
+                                )}
+                                {isLiability(account.type) ? (
+                                    <Text fw={500} mr="xs" c="red">
+                                        {formatCurrency(getAmountOwed(account))} owed
+                                    </Text>
+                                ) : (
+                                    <Text fw={500} mr="xs">{formatCurrency(account.balance)}</Text>
+                                )}
+                                <ActionIcon
+                                    variant="light"
+                                    color="gray"
+                                    onClick={() => {
+                                        setAdjustingAccount(account);
+                                        setNewBalance(toMajor(account.balance));
+                                    }}
+                                    aria-label="Adjust balance"
+                                >
+                                    <IconAdjustments size={16}/>
+                                </ActionIcon>
+                                {canReconcile(account.type) && (
+                                    <ActionIcon
+                                        variant="light"
+                                        color="teal"
+                                        component={Link}
+                                        href={`/accounts/${account.id}/reconcile`}
+                                        aria-label="Reconcile"
+                                    >
+                                        <IconChecklist size={16}/>
+                                    </ActionIcon>
+                                )}
+                                {account.type === 'LOAN' && (
+                                    <ActionIcon
+                                        variant="light"
+                                        color="orange"
+                                        component={Link}
+                                        href={`/accounts/${account.id}/loan`}
+                                        aria-label="Loan schedule"
+                                    >
+                                        <IconCalendarDollar size={16}/>
+                                    </ActionIcon>
+                                )}
                                 <ActionIcon
                                     variant="light"
                                     onClick={() => handleEditClick(account)}
@@ -212,10 +409,62 @@ export default function AccountManager() {
                                 </ActionIcon>
                             </Group>
                         </Group>
+                        {account.creditLimit && (
+                            <CreditUtilization account={account}/>
+                        )}
                     </Paper>
                 ))}
             </Stack>
 
+            {archivedAccounts.length > 0 && (
+                <Stack gap="sm">
+                    <Text size="lg" fw={500}>Archived Accounts</Text>
+                    {archivedAccounts.map((account) => (
+                        <Paper key={account.id} withBorder p="md" radius="md">
+                            <Group justify="space-between" align="center">
+                                <Group gap="sm">
+                                    <div
+                                        style={{
+                                            width: 16,
+                                            height: 16,
+                                            borderRadius: '50%',
+                                            backgroundColor: account.color,
+                                            opacity: 0.5
+                                        }}
+                                    />
+                                    <Text fw={500} c="dimmed">{account.name}</Text>
+                                    {account.archivedAt && (
+                                        <Text size="sm" c="dimmed">archived {formatDate(account.archivedAt)}</Text>
+                                    )}
+                                </Group>
+                                <Group gap="xs">
+                                    <Text c="dimmed" mr="xs">{formatCurrency(account.balance)}</Text>
+                                    <ActionIcon
+                                        variant="light"
+                                        color="teal"
+                                        onClick={() => handleRestoreClick(account)}
+                                        aria-label="Restore"
+                                    >
+                                        <IconRestore size={16}/>
+                                    </ActionIcon>
+                                    <ActionIcon
+                                        variant="light"
+                                        color="red"
+                                        onClick={() => {
+                                            setDeletingAccount(account);
+                                            setReassignToId(null);
+                                        }}
+                                        aria-label="Delete permanently"
+                                    >
+                                        <IconTrashX size={16}/>
+                                    </ActionIcon>
+                                </Group>
+                            </Group>
+                        </Paper>
+                    ))}
+                </Stack>
+            )}
+
             <Modal
                 opened={isModalOpen}
                 onClose={handleCloseModal}
@@ -239,6 +488,58 @@ export default function AccountManager() {
                         swatches={['#25262b', '#868e96', '#fa5252', '#e64980', '#be4bdb', '#7950f2', '#4c6ef5', '#228be6', '#15aabf', '#12b886', '#40c057', '#82c91e', '#fab005', '#fd7e14']}
                     />
 
+                    <Select
+                        label="Currency"
+                        description={isEditing ? 'The currency of an existing account cannot be changed' : undefined}
+                        data={CURRENCIES}
+                        value={formData.currency}
+                        onChange={(value) => value && setFormData({...formData, currency: value})}
+                        disabled={isEditing}
+                        allowDeselect={false}
+                        required
+                    />
+
+                    <Select
+                        label="Account Type"
+                        data={ACCOUNT_TYPES}
+                        value={formData.type}
+                        onChange={(value) => value && setFormData({...formData, type: value as AccountType})}
+                        allowDeselect={false}
+                        required
+                    />
+
+                    {isLiability(formData.type) && (
+                        <NumberInput
+                            label="Credit Limit"
+                            description="Leave at zero when there is none"
+                            value={creditLimit}
+                            onChange={(value) => setCreditLimit(typeof value === 'number' ? value : 0)}
+                            min={0}
+                            decimalScale={2}
+                            fixedDecimalScale
+                        />
+                    )}
+
+                    {!isEditing && (
+                        <Group grow>
+                            <NumberInput
+                                label="Opening Balance"
+                                description="What the account held before the first transaction you'll enter"
+                                value={openingBalance}
+                                onChange={(value) => setOpeningBalance(typeof value === 'number' ? value : 0)}
+                                decimalScale={2}
+                                fixedDecimalScale
+                            />
+                            <DatePickerInput
+                                label="As Of"
+                                description="Transactions before this date are not expected"
+                                value={openingDate}
+                                onChange={(date) => setOpeningDate(date || new Date())}
+                                maxDate={new Date()}
+                            />
+                        </Group>
+                    )}
+
                     <Button
                         onClick={isEditing ? handleUpdateAccount : handleCreateAccount}
                         fullWidth
@@ -247,6 +548,86 @@ export default function AccountManager() {
                     </Button>
                 </Stack>
             </Modal>
+
+            <Modal
+                opened={!!deletingAccount}
+                onClose={() => setDeletingAccount(null)}
+                title="Delete Account Permanently"
+            >
+                {deletingAccount && (
+                    <Stack gap="md">
+                        <Text size="sm">
+                            {deletingAccount.name} and its reconciliation history will be removed for good.
+                        </Text>
+                        <Select
+                            label="Move transactions to"
+                            description={reassignToId
+                                ? 'Transactions, recurring rules and categorization rules move to this account'
+                                : 'Without an account, its transactions and the rules that use it are deleted. Transfers keep their other leg as a plain transaction'}
+                            placeholder="Delete them instead"
+                            data={accounts.map(account => ({value: account.id, label: account.name}))}
+                            value={reassignToId}
+                            onChange={setReassignToId}
+                            clearable
+                        />
+                        <Button color="red" onClick={handlePermanentDelete} fullWidth>
+                            Delete Permanently
+                        </Button>
+                    </Stack>
+                )}
+            </Modal>
+
+            <Modal
+                opened={!!adjustingAccount}
+                onClose={() => setAdjustingAccount(null)}
+                title="Adjust Balance"
+            >
+                {adjustingAccount && (
+                    <Stack gap="md">
+                        <Text size="sm" c="dimmed">
+                            Records the difference from the current balance
+                            of {formatCurrency(adjustingAccount.balance)} as an adjustment. Adjustments are not
+                            counted as income or expenses.
+                        </Text>
+                        <NumberInput
+                            label={`New Balance (${adjustingAccount.currency})`}
+                            value={newBalance}
+                            onChange={(value) => setNewBalance(typeof value === 'number' ? value : 0)}
+                            decimalScale={2}
+                            fixedDecimalScale
+                            required
+                        />
+                        <Button onClick={handleAdjustBalance} fullWidth>
+                            Adjust Balance
+                        </Button>
+                    </Stack>
+                )}
+            </Modal>
+        </Stack>
+    );
+}
+
+interface CreditUtilizationProps {
+    account: Account;
+}
+
+function CreditUtilization({account}: CreditUtilizationProps) {
+    const utilization = getCreditUtilization(account);
+    if (utilization === null || !account.creditLimit) return null;
+
+    return (
+        <Stack gap={4} mt="sm">
+            <Group justify="space-between">
+                <Text size="xs" c="dimmed">
+                    {formatCurrency(getAmountOwed(account))} of {formatCurrency(account.creditLimit)} limit
+                </Text>
+                <Text size="xs" c="dimmed">{Math.round(utilization)}% used</Text>
+            </Group>
+            <Progress
+                value={Math.min(utilization, 100)}
+                color={utilization >= 90 ? 'red' : utilization >= 30 ? 'yellow' : 'teal'}
+                size="sm"
+            />
         </Stack>
     );
 }
\ No newline at end of file
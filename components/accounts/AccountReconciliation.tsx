@@ -0,0 +1,287 @@
+'use client';
+
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+    Alert,
+    Anchor,
+    Badge,
+    Button,
+    Checkbox,
+    Group,
+    NumberInput,
+    Paper,
+    Stack,
+    Table,
+    Text,
+    Title
+} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle, IconCheck, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import Link from 'next/link';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {fromMajor, subtractMoney, toMajor, zeroMoney} from '@/lib/money';
+import {getClearedBalance, getMissingRates, getStatementTransactions} from '@/lib/reconciliation';
+import {canReconcile, getAccountTypeLabel} from '@/lib/accounts';
+import {Account} from '@/types/accounts';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {Money} from '@/types/money';
+import {Reconciliation} from '@/types/reconciliations';
+import {Transaction} from '@/types/transactions';
+
+interface AccountReconciliationProps {
+    accountId: string;
+}
+
+export default function AccountReconciliation({accountId}: AccountReconciliationProps) {
+    const {user} = useAuth();
+    const [account, setAccount] = useState<Account | null>(null);
+    const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const [converter, setConverter] = useState<CurrencyConverter | null>(null);
+    const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+    const [statementDate, setStatementDate] = useState<Date>(new Date());
+    const [statementBalance, setStatementBalance] = useState<Money>(zeroMoney());
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [accountData, transactionsData, converterData, reconciliationsData] = await Promise.all([
+                services.accounts.getAccountById(accountId, user.uid),
+                services.transactions.getTransactionsByAccount(accountId),
+                services.exchangeRates.getConverter(user.uid),
+                services.reconciliations.getReconciliationsByAccount(accountId, user.uid)
+            ]);
+            setAccount(accountData);
+            setTransactions(transactionsData);
+            setConverter(converterData);
+            setReconciliations(reconciliationsData);
+            setStatementBalance(prev => prev.currency === accountData.currency ? prev : zeroMoney(accountData.currency));
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load account',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user, accountId]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const checklist = useMemo(
+        () => getStatementTransactions(transactions, statementDate),
+        [transactions, statementDate]
+    );
+
+    const missingRates = useMemo(
+        () => account && converter
+            ? getMissingRates(transactions, statementDate, account.currency, converter)
+            : [],
+        [transactions, statementDate, account, converter]
+    );
+
+    const cleared = useMemo(
+        () => account && converter && !missingRates.length
+            ? getClearedBalance(transactions, statementDate, account.currency, converter)
+            : null,
+        [transactions, statementDate, account, converter, missingRates]
+    );
+
+    // the cleared flag is saved right away, so a half-done reconciliation can be picked up later
+    const handleToggle = async (transaction: Transaction, checked: boolean) => {
+        if (!user) return;
+
+        const clearedStatus = checked ? 'CLEARED' : 'UNCLEARED';
+        setTransactions(prev => prev.map(t => t.id === transaction.id ? {...t, clearedStatus} : t));
+        try {
+            await services.reconciliations.setCleared(transaction.id, checked, user.uid);
+        } catch (error) {
+            setTransactions(prev => prev.map(t => t.id === transaction.id ? transaction : t));
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleFinish = async () => {
+        if (!user) return;
+
+        try {
+            setSaving(true);
+            setError('');
+            const reconciliation = await services.reconciliations.completeReconciliation(user.uid, {
+                accountId,
+                statementDate,
+                statementBalance
+            });
+            await loadData();
+            notifications.show({
+                title: 'Success',
+                message: `${reconciliation.transactionIds.length} transactions reconciled and locked`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) return <Text>Loading...</Text>;
+    if (!account) return <Text c="dimmed">Account not found.</Text>;
+    if (!canReconcile(account.type)) {
+        return <Text c="dimmed">{getAccountTypeLabel(account.type)} accounts have no statements to reconcile.</Text>;
+    }
+
+    const difference = cleared ? subtractMoney(statementBalance, cleared) : null;
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            {missingRates.length > 0 && (
+                <Alert icon={<IconAlertCircle size={16}/>} color="yellow" title="Missing exchange rates">
+                    <Stack gap={4}>
+                        <Text size="sm">
+                            These cleared transactions need an exchange rate to {account.currency} before the
+                            statement can be balanced. <Anchor component={Link} href="/currencies" size="sm">Add rates</Anchor>
+                        </Text>
+                        {missingRates.map(t => (
+                            <Text key={t.id} size="sm">
+                                {formatDate(t.createdAt)} {t.description} {formatCurrency(t.amount)}
+                            </Text>
+                        ))}
+                    </Stack>
+                </Alert>
+            )}
+
+            <Paper withBorder p="md" radius="md">
+                <Stack gap="md">
+                    <Title order={4}>{account.name} statement</Title>
+                    <Group grow>
+                        <DatePickerInput
+                            label="Statement end date"
+                            value={statementDate}
+                            onChange={(date) => setStatementDate(date || new Date())}
+                            required
+                        />
+                        <NumberInput
+                            label={`Ending balance (${account.currency})`}
+                            value={toMajor(statementBalance)}
+                            onChange={(value) => setStatementBalance(
+                                fromMajor(typeof value === 'number' ? value : 0, account.currency)
+                            )}
+                            decimalScale={2}
+                            fixedDecimalScale
+                            required
+                        />
+                    </Group>
+                    {cleared && difference && (
+                        <Group justify="space-between">
+                            <Text size="sm">Cleared balance: {formatCurrency(cleared)}</Text>
+                            <Text size="sm" fw={500} c={difference.amount === 0 ? 'teal' : 'red'}>
+                                Difference: {formatCurrency(difference)}
+                            </Text>
+                        </Group>
+                    )}
+                </Stack>
+            </Paper>
+
+            <Paper withBorder p="md" radius="md">
+                {checklist.length === 0 ? (
+                    <Text size="sm" c="dimmed">
+                        No unreconciled transactions up to {formatDate(statementDate)}.
+                    </Text>
+                ) : (
+                    <Table.ScrollContainer minWidth={500}>
+                        <Table verticalSpacing="xs">
+                            <Table.Thead>
+                                <Table.Tr>
+                                    <Table.Th>Cleared</Table.Th>
+                                    <Table.Th>Date</Table.Th>
+                                    <Table.Th>Description</Table.Th>
+                                    <Table.Th>Amount</Table.Th>
+                                </Table.Tr>
+                            </Table.Thead>
+                            <Table.Tbody>
+                                {checklist.map(transaction => (
+                                    <Table.Tr key={transaction.id}>
+                                        <Table.Td>
+                                            <Checkbox
+                                                checked={transaction.clearedStatus === 'CLEARED'}
+                                                onChange={(e) => handleToggle(transaction, e.currentTarget.checked)}
+                                                aria-label="Cleared"
+                                            />
+                                        </Table.Td>
+                                        <Table.Td>{formatDate(transaction.createdAt)}</Table.Td>
+                                        <Table.Td>{transaction.description}</Table.Td>
+                                        <Table.Td c={transaction.type === 'POSITIVE' ? 'green' : 'red'}>
+                                            {transaction.type === 'NEGATIVE' ? '-' : ''}{formatCurrency(transaction.amount)}
+                                        </Table.Td>
+                                    </Table.Tr>
+                                ))}
+                            </Table.Tbody>
+                        </Table>
+                    </Table.ScrollContainer>
+                )}
+
+                <Group justify="flex-end" mt="md">
+                    <Button
+                        onClick={handleFinish}
+                        loading={saving}
+                        disabled={!difference || difference.amount !== 0}
+                    >
+                        Finish Reconciliation
+                    </Button>
+                </Group>
+            </Paper>
+
+            {reconciliations.length > 0 && (
+                <Paper withBorder p="md" radius="md">
+                    <Title order={4} mb="sm">Past statements</Title>
+                    <Stack gap="xs">
+                        {reconciliations.map(reconciliation => (
+                            <Group key={reconciliation.id} justify="space-between">
+                                <Text size="sm">{formatDate(reconciliation.statementDate)}</Text>
+                                <Group gap="xs">
+                                    <Badge variant="light" color="gray">
+                                        {reconciliation.transactionIds.length} transactions
+                                    </Badge>
+                                    <Text size="sm" fw={500}>{formatCurrency(reconciliation.statementBalance)}</Text>
+                                </Group>
+                            </Group>
+                        ))}
+                    </Stack>
+                </Paper>
+            )}
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+'use client';
+
+import {useState} from 'react';
+import {Alert, Button, Group, NumberInput, Select, Stack, Text} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle} from '@tabler/icons-react';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency} from '@/lib/utils';
+import {fromMajor, toMajor, zeroMoney} from '@/lib/money';
+import {getAmountOwed} from '@/lib/accounts';
+import {getMonthlyPayment} from '@/lib/amortization';
+import {Account} from '@/types/accounts';
+import {Loan, SaveLoanDTO} from '@/types/loans';
+
+interface LoanFormProps {
+    account: Account;
+    // accounts payments can come from, already limited to the loan's currency
+    paymentAccounts: Account[];
+    loan: Loan | null;
+    onSuccessAction: (loan: Loan) => Promise<void>;
+    onCancelAction: () => void;
+}
+
+export default function LoanForm({account, paymentAccounts, loan, onSuccessAction, onCancelAction}: LoanFormProps) {
+    const {user} = useAuth();
+    const [formData, setFormData] = useState<SaveLoanDTO>(loan ? {
+        principal: loan.principal,
+        annualRate: loan.annualRate,
+        termMonths: loan.termMonths,
+        startDate: loan.startDate,
+        paymentAccountId: loan.paymentAccountId,
+        extraMonthly: loan.extraMonthly
+    } : {
+        // a new loan usually starts from what the account says is owed
+        principal: getAmountOwed(account),
+        annualRate: 5,
+        termMonths: 360,
+        startDate: new Date(),
+        paymentAccountId: paymentAccounts[0]?.id || '',
+        extraMonthly: zeroMoney(account.currency)
+    });
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const monthlyPayment = formData.principal.amount > 0 && formData.termMonths > 0
+        ? getMonthlyPayment(formData.principal, formData.annualRate, formData.termMonths)
+        : null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            setError('');
+            const saved = await services.loans.saveLoan(account.id, user.uid, formData);
+            await onSuccessAction(saved);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <Stack gap="md">
+                {error && (
+                    <Alert
+                        icon={<IconAlertCircle size={16}/>}
+                        color="red"
+                        title="Error"
+                        onClose={() => setError('')}
+                        withCloseButton
+                    >
+                        {error}
+                    </Alert>
+                )}
+
+                <NumberInput
+                    label="Principal"
+                    description="The amount borrowed"
+                    value={toMajor(formData.principal)}
+                    onChange={(value) => setFormData({
+                        ...formData,
+                        principal: fromMajor(typeof value === 'number' ? value : 0, account.currency)
+                    })}
+                    min={0}
+                    decimalScale={2}
+                    fixedDecimalScale
+                    prefix={`${account.currency} `}
+                    required
+                />
+
+                <Group grow>
+                    <NumberInput
+                        label="Interest Rate"
+                        description="Yearly, in percent"
+                        value={formData.annualRate}
+                        onChange={(value) => setFormData({...formData, annualRate: typeof value === 'number' ? value : 0})}
+                        min={0}
+                        max={100}
+                        decimalScale={3}
+                        suffix="%"
+                        required
+                    />
+                    <NumberInput
+                        label="Term"
+                        description="In months"
+                        value={formData.termMonths}
+                        onChange={(value) => setFormData({...formData, termMonths: typeof value === 'number' ? value : 0})}
+                        min={1}
+                        max={600}
+                        allowDecimal={false}
+                        required
+                    />
+                </Group>
+
+                <DatePickerInput
+                    label="Start Date"
+                    description="The first payment is due a month later"
+                    value={formData.startDate}
+                    onChange={(date) => setFormData({...formData, startDate: date || new Date()})}
+                    required
+                />
+
+                <Select
+                    label="Pay From"
+                    description={`Only accounts in ${account.currency} can pay this loan`}
+                    data={paymentAccounts.map(a => ({value: a.id, label: a.name}))}
+                    value={formData.paymentAccountId}
+                    onChange={(value) => setFormData({...formData, paymentAccountId: value || ''})}
+                    required
+                />
+
+                <NumberInput
+                    label="Extra Each Month (Optional)"
+                    description="Paid on top of every payment, straight off the principal"
+                    value={formData.extraMonthly ? toMajor(formData.extraMonthly) : 0}
+                    onChange={(value) => setFormData({
+                        ...formData,
+                        extraMonthly: fromMajor(typeof value === 'number' ? value : 0, account.currency)
+                    })}
+                    min={0}
+                    decimalScale={2}
+                    fixedDecimalScale
+                    prefix={`${account.currency} `}
+                />
+
+                {monthlyPayment && (
+                    <Text size="sm" c="dimmed">
+                        Monthly payment: {formatCurrency(monthlyPayment)}
+                    </Text>
+                )}
+
+                <Group justify="flex-end" mt="md">
+                    <Button variant="light" onClick={onCancelAction}>
+                        Cancel
+                    </Button>
+                    <Button type="submit" loading={loading}>
+                        {loan ? 'Save Terms' : 'Create Schedule'}
+                    </Button>
+                </Group>
+            </Stack>
+        </form>
+    );
+}
\ No newline at end of file
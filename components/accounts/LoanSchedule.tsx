@@ -0,0 +1,331 @@
+'use client';
+
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+    Alert,
+    Badge,
+    Button,
+    Group,
+    Modal,
+    NumberInput,
+    Paper,
+    Select,
+    SimpleGrid,
+    Stack,
+    Table,
+    Text
+} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {useRouter} from 'next/navigation';
+import {IconAlertCircle, IconCash, IconCheck, IconEdit, IconPlus, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {addMoney, fromMajor, toMajor, zeroMoney} from '@/lib/money';
+import {getLoanSchedule, getLoanSummary} from '@/lib/amortization';
+import {Account} from '@/types/accounts';
+import {Money} from '@/types/money';
+import {Loan} from '@/types/loans';
+import LoanForm from './LoanForm';
+
+interface LoanScheduleProps {
+    accountId: string;
+}
+
+// which payment is being posted from the modal
+type Posting = 'SCHEDULED' | 'EXTRA';
+
+export default function LoanSchedule({accountId}: LoanScheduleProps) {
+    const {user} = useAuth();
+    const router = useRouter();
+    const [account, setAccount] = useState<Account | null>(null);
+    const [paymentAccounts, setPaymentAccounts] = useState<Account[]>([]);
+    const [loan, setLoan] = useState<Loan | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [posting, setPosting] = useState<Posting | null>(null);
+    const [fromAccountId, setFromAccountId] = useState<string | null>(null);
+    const [paymentDate, setPaymentDate] = useState<Date>(new Date());
+    const [extraAmount, setExtraAmount] = useState<Money>(zeroMoney());
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [accountData, accountsData, loanData] = await Promise.all([
+                services.accounts.getAccountById(accountId, user.uid),
+                services.accounts.getAccountsByUser(user.uid),
+                services.loans.getLoan(accountId, user.uid)
+            ]);
+            setAccount(accountData);
+            setPaymentAccounts(accountsData.filter(a => a.id !== accountId && a.currency === accountData.currency));
+            setLoan(loanData);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load loan',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user, accountId]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const schedule = useMemo(() => loan ? getLoanSchedule(loan) : [], [loan]);
+    const summary = useMemo(() => loan ? getLoanSummary(loan) : null, [loan]);
+    const next = schedule.find(row => !row.posted) || null;
+
+    const openPosting = (kind: Posting) => {
+        if (!loan) return;
+        setPosting(kind);
+        setFromAccountId(loan.paymentAccountId);
+        setPaymentDate(kind === 'SCHEDULED' && next ? next.date : new Date());
+        setExtraAmount(zeroMoney(loan.principal.currency));
+    };
+
+    const handlePost = async () => {
+        if (!user || !posting || !fromAccountId) return;
+
+        try {
+            setSaving(true);
+            setError('');
+            const payment = posting === 'SCHEDULED'
+                ? await services.loans.postScheduledPayment(accountId, user.uid, {
+                    fromAccountId,
+                    transactionDate: paymentDate
+                })
+                : await services.loans.postExtraPayment(accountId, user.uid, {
+                    amount: extraAmount,
+                    fromAccountId,
+                    transactionDate: paymentDate
+                });
+            notifications.show({
+                title: 'Success',
+                message: `Payment of ${formatCurrency(addMoney(payment.interest, payment.principal))} posted`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            setPosting(null);
+            await loadData();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSaved = async (saved: Loan) => {
+        setLoan(saved);
+        setIsEditing(false);
+        notifications.show({
+            title: 'Success',
+            message: 'Loan terms saved',
+            color: 'LightSeaGreen',
+            icon: <IconCheck size={16}/>,
+            autoClose: 3000,
+        });
+    };
+
+    if (loading) return <Text>Loading...</Text>;
+    if (!account) return <Text c="dimmed">Account not found.</Text>;
+    if (account.type !== 'LOAN') {
+        return <Text c="dimmed">Only loan accounts have an amortization schedule.</Text>;
+    }
+
+    if (!loan || isEditing) {
+        return (
+            <Paper withBorder p="md" radius="md" maw={560}>
+                <Stack gap="md">
+                    <Text fw={500}>{loan ? 'Edit Loan Terms' : `Loan Terms for ${account.name}`}</Text>
+                    {!loan && (
+                        <Text size="sm" c="dimmed">
+                            Enter the loan&apos;s terms to get a payment schedule. Each payment is posted as an
+                            interest expense and a principal transfer from the account you pay from.
+                        </Text>
+                    )}
+                    <LoanForm
+                        account={account}
+                        paymentAccounts={paymentAccounts}
+                        loan={loan}
+                        onSuccessAction={handleSaved}
+                        onCancelAction={() => loan ? setIsEditing(false) : router.push('/accounts')}
+                    />
+                </Stack>
+            </Paper>
+        );
+    }
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Group justify="space-between">
+                <Text fw={500}>{account.name}</Text>
+                <Group gap="xs">
+                    <Button
+                        variant="light"
+                        leftSection={<IconEdit size={16}/>}
+                        onClick={() => setIsEditing(true)}
+                    >
+                        Edit Terms
+                    </Button>
+                    <Button
+                        variant="light"
+                        leftSection={<IconPlus size={16}/>}
+                        onClick={() => openPosting('EXTRA')}
+                        disabled={!next}
+                    >
+                        Extra Payment
+                    </Button>
+                    <Button
+                        leftSection={<IconCash size={16}/>}
+                        onClick={() => openPosting('SCHEDULED')}
+                        disabled={!next}
+                    >
+                        Post Next Payment
+                    </Button>
+                </Group>
+            </Group>
+
+            {summary && (
+                <SimpleGrid cols={{base: 2, md: 4}}>
+                    <Paper withBorder p="md" radius="md">
+                        <Text size="xs" c="dimmed">Remaining principal</Text>
+                        <Text fw={500}>{formatCurrency(summary.remainingPrincipal)}</Text>
+                        <Text size="xs" c="dimmed">of {formatCurrency(loan.principal)}</Text>
+                    </Paper>
+                    <Paper withBorder p="md" radius="md">
+                        <Text size="xs" c="dimmed">Interest paid to date</Text>
+                        <Text fw={500}>{formatCurrency(summary.interestPaid)}</Text>
+                        <Text size="xs" c="dimmed">{formatCurrency(summary.interestRemaining)} still to come</Text>
+                    </Paper>
+                    <Paper withBorder p="md" radius="md">
+                        <Text size="xs" c="dimmed">Monthly payment</Text>
+                        <Text fw={500}>{formatCurrency(summary.monthlyPayment)}</Text>
+                        {loan.extraMonthly.amount > 0 && (
+                            <Text size="xs" c="dimmed">plus {formatCurrency(loan.extraMonthly)} extra</Text>
+                        )}
+                    </Paper>
+                    <Paper withBorder p="md" radius="md">
+                        <Text size="xs" c="dimmed">Projected payoff</Text>
+                        <Text fw={500}>{summary.payoffDate ? formatDate(summary.payoffDate) : 'Never'}</Text>
+                        <Text size="xs" c="dimmed">{loan.annualRate}% over {loan.termMonths} months</Text>
+                    </Paper>
+                </SimpleGrid>
+            )}
+
+            <Paper withBorder radius="md">
+                <Table.ScrollContainer minWidth={600}>
+                    <Table verticalSpacing="xs" striped>
+                        <Table.Thead>
+                            <Table.Tr>
+                                <Table.Th>#</Table.Th>
+                                <Table.Th>Date</Table.Th>
+                                <Table.Th>Interest</Table.Th>
+                                <Table.Th>Principal</Table.Th>
+                                <Table.Th>Balance</Table.Th>
+                                <Table.Th/>
+                            </Table.Tr>
+                        </Table.Thead>
+                        <Table.Tbody>
+                            {schedule.map((row, index) => (
+                                <Table.Tr key={index}>
+                                    <Table.Td>{row.number ?? '-'}</Table.Td>
+                                    <Table.Td>{formatDate(row.date)}</Table.Td>
+                                    <Table.Td>{formatCurrency(row.interest)}</Table.Td>
+                                    <Table.Td>{formatCurrency(row.principal)}</Table.Td>
+                                    <Table.Td>{formatCurrency(row.balance)}</Table.Td>
+                                    <Table.Td>
+                                        {row.posted ? (
+                                            <Badge color={row.number ? 'teal' : 'grape'} variant="light">
+                                                {row.number ? 'Paid' : 'Extra'}
+                                            </Badge>
+                                        ) : row === next && (
+                                            <Badge color="blue" variant="light">Next</Badge>
+                                        )}
+                                    </Table.Td>
+                                </Table.Tr>
+                            ))}
+                        </Table.Tbody>
+                    </Table>
+                </Table.ScrollContainer>
+            </Paper>
+
+            <Modal
+                opened={!!posting}
+                onClose={() => setPosting(null)}
+                title={posting === 'EXTRA' ? 'Extra Payment' : `Payment ${next?.number ?? ''}`}
+                size="md"
+            >
+                <Stack gap="md">
+                    {posting === 'SCHEDULED' && next && (
+                        <Text size="sm">
+                            {formatCurrency(next.interest)} interest and {formatCurrency(next.principal)} principal,
+                            {' '}{formatCurrency(addMoney(next.interest, next.principal))} in total
+                        </Text>
+                    )}
+                    {posting === 'EXTRA' && (
+                        <NumberInput
+                            label="Amount"
+                            description={summary ? `Up to ${formatCurrency(summary.remainingPrincipal)}` : undefined}
+                            value={toMajor(extraAmount)}
+                            onChange={(value) => setExtraAmount(
+                                fromMajor(typeof value === 'number' ? value : 0, loan.principal.currency)
+                            )}
+                            min={0}
+                            decimalScale={2}
+                            fixedDecimalScale
+                            required
+                        />
+                    )}
+                    <Select
+                        label="Pay From"
+                        data={paymentAccounts.map(a => ({value: a.id, label: a.name}))}
+                        value={fromAccountId}
+                        onChange={setFromAccountId}
+                        required
+                    />
+                    <DatePickerInput
+                        label="Date"
+                        value={paymentDate}
+                        onChange={(value) => setPaymentDate(value || new Date())}
+                        required
+                    />
+                    <Group justify="flex-end">
+                        <Button variant="light" onClick={() => setPosting(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handlePost} loading={saving} disabled={!fromAccountId}>
+                            Post Payment
+                        </Button>
+                    </Group>
+                </Stack>
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
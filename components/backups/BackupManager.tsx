@@ -0,0 +1,256 @@
+import {useState} from 'react';
+import {Alert, Button, FileInput, Group, Paper, SegmentedControl, Stack, Table, Text, Title} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconDatabaseExport, IconFileImport, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {downloadFile, formatDate} from '@/lib/utils';
+import {toDateKey} from '@/lib/recurrence';
+import {Backup, RestoreMode, RestoreSummary} from '@/types/backups';
+
+const SUMMARY_ROWS: { key: Exclude<keyof RestoreSummary, 'mode' | 'dryRun' | 'removed'>; label: string }[] = [
+    {key: 'accounts', label: 'Accounts'},
+    {key: 'categories', label: 'Custom categories'},
+    {key: 'transactions', label: 'Transactions'},
+    {key: 'chains', label: 'Transfers and chains'},
+    {key: 'budgets', label: 'Budgets'},
+    {key: 'recurringRules', label: 'Recurring rules'},
+    {key: 'exchangeRates', label: 'Exchange rates'},
+    {key: 'categorizationRules', label: 'Categorization rules'},
+    {key: 'parties', label: 'People'},
+    {key: 'reconciliations', label: 'Reconciliations'},
+    {key: 'loans', label: 'Loans'},
+    {key: 'dismissedDuplicates', label: 'Dismissed duplicates'},
+    {key: 'importMappings', label: 'Import mappings'},
+    {key: 'settings', label: 'Settings'}
+];
+
+export default function BackupManager() {
+    const {user} = useAuth();
+    const [file, setFile] = useState<File | null>(null);
+    const [backup, setBackup] = useState<Backup | null>(null);
+    const [mode, setMode] = useState<RestoreMode>('MERGE');
+    const [summary, setSummary] = useState<RestoreSummary | null>(null);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const downloadBackup = async () => {
+        if (!user) return;
+
+        const current = await services.backups.createBackup(user.uid);
+        downloadFile(
+            `money-manager-backup-${toDateKey(current.createdAt)}.json`,
+            JSON.stringify(current, null, 2),
+            'application/json'
+        );
+    };
+
+    const handleDownload = async () => {
+        try {
+            setLoading(true);
+            setError('');
+            await downloadBackup();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleFileChange = async (selected: File | null) => {
+        setFile(selected);
+        setBackup(null);
+        setSummary(null);
+        setError('');
+        if (!selected) return;
+
+        try {
+            setBackup(services.backups.parseBackup(await selected.text()));
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleModeChange = (value: string) => {
+        setMode(value as RestoreMode);
+        setSummary(null);
+    };
+
+    const handlePreview = async () => {
+        if (!user || !backup) return;
+
+        try {
+            setLoading(true);
+            setError('');
+            setSummary(await services.backups.restoreBackup(user.uid, backup, mode, true));
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRestore = async () => {
+        if (!user || !backup) return;
+
+        if (mode === 'REPLACE' && !window.confirm(
+            'Replace deletes all of your current data before restoring. A backup of it will be downloaded first. Continue?'
+        )) {
+            return;
+        }
+
+        try {
+            setLoading(true);
+            setError('');
+            if (mode === 'REPLACE') {
+                await downloadBackup();
+            }
+
+            const result = await services.backups.restoreBackup(user.uid, backup, mode, false);
+            setSummary(result);
+            notifications.show({
+                title: 'Restore complete',
+                message: `${result.transactions.created} transactions restored`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 5000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to restore backup',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Paper withBorder p="md" radius="md">
+                <Group justify="space-between">
+                    <div>
+                        <Title order={4}>Backup</Title>
+                        <Text size="sm" c="dimmed">
+                            Accounts (including archived), transactions, custom categories, budgets, recurring rules and exchange rates
+                        </Text>
+                    </div>
+                    <Button
+                        leftSection={<IconDatabaseExport size={16}/>}
+                        onClick={handleDownload}
+                        loading={loading}
+                    >
+                        Download backup
+                    </Button>
+                </Group>
+            </Paper>
+
+            <Paper withBorder p="md" radius="md">
+                <Stack gap="md">
+                    <Title order={4}>Restore</Title>
+
+                    <FileInput
+                        label="Backup file"
+                        placeholder="Choose file"
+                        accept=".json"
+                        leftSection={<IconFileImport size={16}/>}
+                        value={file}
+                        onChange={handleFileChange}
+                        clearable
+                    />
+
+                    {backup && (
+                        <Text size="sm" c="dimmed">
+                            Backup from {formatDate(backup.createdAt)}: {backup.accounts.length} accounts,
+                            {' '}{backup.transactions.length} transactions
+                        </Text>
+                    )}
+
+                    <SegmentedControl
+                        value={mode}
+                        onChange={handleModeChange}
+                        data={[
+                            {label: 'Merge', value: 'MERGE'},
+                            {label: 'Replace', value: 'REPLACE'}
+                        ]}
+                    />
+                    <Text size="xs" c="dimmed">
+                        {mode === 'MERGE'
+                            ? 'Keeps your current data and adds whatever from the backup is missing.'
+                            : 'Deletes all of your current data, then restores the backup.'}
+                    </Text>
+
+                    {summary && (
+                        <Table verticalSpacing="xs">
+                            <Table.Thead>
+                                <Table.Tr>
+                                    <Table.Th/>
+                                    <Table.Th>{summary.dryRun ? 'Will be created' : 'Created'}</Table.Th>
+                                    <Table.Th>Already there</Table.Th>
+                                    {summary.removed && (
+                                        <Table.Th>{summary.dryRun ? 'Will be removed' : 'Removed'}</Table.Th>
+                                    )}
+                                </Table.Tr>
+                            </Table.Thead>
+                            <Table.Tbody>
+                                {SUMMARY_ROWS.map(row => (
+                                    <Table.Tr key={row.key}>
+                                        <Table.Td>{row.label}</Table.Td>
+                                        <Table.Td>{summary[row.key].created}</Table.Td>
+                                        <Table.Td>{summary[row.key].existing}</Table.Td>
+                                        {summary.removed && (
+                                            <Table.Td>
+                                                {row.key in summary.removed
+                                                    ? summary.removed[row.key as keyof typeof summary.removed]
+                                                    : '-'}
+                                            </Table.Td>
+                                        )}
+                                    </Table.Tr>
+                                ))}
+                            </Table.Tbody>
+                        </Table>
+                    )}
+
+                    <Group justify="flex-end">
+                        <Button variant="light" onClick={handlePreview} loading={loading} disabled={!backup}>
+                            Preview
+                        </Button>
+                        <Button
+                            color={mode === 'REPLACE' ? 'red' : undefined}
+                            onClick={handleRestore}
+                            loading={loading}
+                            disabled={!summary || !summary.dryRun}
+                        >
+                            Restore
+                        </Button>
+                    </Group>
+                </Stack>
+            </Paper>
+        </Stack>
+    );
+}
\ No newline at end of file
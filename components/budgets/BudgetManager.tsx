@@ -0,0 +1,284 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+import {
+    ActionIcon,
+    Alert,
+    Button,
+    ColorSwatch,
+    Group,
+    Modal,
+    NumberInput,
+    Paper,
+    Progress,
+    Select,
+    SelectProps,
+    Stack,
+    Text
+} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconEdit, IconPlus, IconTrash, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency} from '@/lib/utils';
+import {DEFAULT_CURRENCY, fromMajor, negateMoney, toMajor, zeroMoney} from '@/lib/money';
+import {BudgetProgress, CreateBudgetDTO} from '@/types/budgets';
+import {TransactionCategory} from '@/types/transactions';
+
+const OVERALL_BUDGET = '__overall__';
+
+export function getBudgetColor(progress: BudgetProgress) {
+    if (progress.isOverspent) return 'red';
+    if (progress.percentage >= 80) return 'orange';
+    return 'teal';
+}
+
+export default function BudgetManager() {
+    const {user} = useAuth();
+    const [budgets, setBudgets] = useState<BudgetProgress[]>([]);
+    const [categories, setCategories] = useState<TransactionCategory[]>([]);
+    const [selectedBudget, setSelectedBudget] = useState<BudgetProgress | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [error, setError] = useState<string>('');
+    const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+    const [formData, setFormData] = useState<CreateBudgetDTO>({
+        category: null,
+        limit: zeroMoney()
+    });
+
+    const loadBudgets = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [progressData, categoriesData, settings] = await Promise.all([
+                services.budgets.getBudgetProgress(user.uid),
+                services.categories.getCategoriesByType('EXPENSE'),
+                services.settings.getSettings(user.uid)
+            ]);
+            setBudgets(progressData);
+            setCategories(categoriesData);
+            setBaseCurrency(settings.baseCurrency);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load budgets',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadBudgets();
+    }, [loadBudgets]);
+
+    const handleSave = async () => {
+        if (!user) return;
+
+        try {
+            if (selectedBudget) {
+                await services.budgets.updateBudget(selectedBudget.budget.id, {limit: formData.limit}, user.uid);
+            } else {
+                await services.budgets.createBudget(user.uid, formData);
+            }
+            await loadBudgets();
+            notifications.show({
+                title: 'Success',
+                message: selectedBudget ? 'Budget modified successfully' : 'Budget created successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            handleCloseModal();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleDeleteClick = async (progress: BudgetProgress) => {
+        if (!user) return;
+
+        const confirmed = window.confirm('Are you sure you want to delete this budget?');
+        if (!confirmed) return;
+
+        try {
+            await services.budgets.deleteBudget(progress.budget.id, user.uid);
+            await loadBudgets();
+            notifications.show({
+                title: 'Success',
+                message: 'Budget deleted successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to delete budget',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    };
+
+    const handleEditClick = (progress: BudgetProgress) => {
+        setSelectedBudget(progress);
+        setFormData({
+            category: progress.budget.category,
+            limit: progress.budget.limit
+        });
+        setIsModalOpen(true);
+    };
+
+    const handleCloseModal = () => {
+        setIsModalOpen(false);
+        setSelectedBudget(null);
+        setFormData({category: null, limit: zeroMoney(baseCurrency)});
+    };
+
+    const renderCategoryOption: SelectProps['renderOption'] = ({option}) => (
+        <Group flex="1" gap="xs">
+            {option.value !== OVERALL_BUDGET &&
+                <ColorSwatch color={categories.find(c => c.name === option.value)?.color || '#868e96'} size={13}/>}
+            {option.label}
+        </Group>
+    );
+
+    const usedCategories = budgets.map(b => b.budget.category);
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Group justify="space-between" align="center">
+                <Text size="lg" fw={500}>Monthly Budgets</Text>
+                <Button
+                    leftSection={<IconPlus size={16}/>}
+                    onClick={() => {
+                        setFormData({category: null, limit: zeroMoney(baseCurrency)});
+                        setIsModalOpen(true);
+                    }}
+                >
+                    Add Budget
+                </Button>
+            </Group>
+
+            <Stack gap="sm">
+                {budgets.map((progress) => (
+                    <Paper key={progress.budget.id} withBorder p="md" radius="md">
+                        <Group justify="space-between" align="center" mb="xs">
+                            <Text fw={500}>{progress.budget.category || 'Overall'}</Text>
+                            <Group gap="xs">
+                                <ActionIcon
+                                    variant="light"
+                                    color="blue"
+                                    onClick={() => handleEditClick(progress)}
+                                >
+                                    <IconEdit size={16}/>
+                                </ActionIcon>
+                                <ActionIcon
+                                    variant="light"
+                                    color="red"
+                                    onClick={() => handleDeleteClick(progress)}
+                                >
+                                    <IconTrash size={16}/>
+                                </ActionIcon>
+                            </Group>
+                        </Group>
+                        <Progress
+                            value={Math.min(progress.percentage, 100)}
+                            color={getBudgetColor(progress)}
+                        />
+                        <Group justify="space-between" mt={4}>
+                            <Text size="xs" c="dimmed">
+                                {formatCurrency(progress.spent)} of {formatCurrency(progress.budget.limit)}
+                            </Text>
+                            <Text size="xs" c={progress.isOverspent ? 'red' : 'dimmed'}>
+                                {progress.isOverspent
+                                    ? `${formatCurrency(negateMoney(progress.remaining))} over`
+                                    : `${formatCurrency(progress.remaining)} left`}
+                            </Text>
+                        </Group>
+                    </Paper>
+                ))}
+
+                {budgets.length === 0 && (
+                    <Text c="dimmed" ta="center" py="xl">
+                        No budgets yet. Add one to start tracking your monthly spending.
+                    </Text>
+                )}
+            </Stack>
+
+            <Modal
+                opened={isModalOpen}
+                onClose={handleCloseModal}
+                title={selectedBudget ? 'Edit Budget' : 'Create Budget'}
+            >
+                <Stack gap="md">
+                    <Select
+                        label="Category"
+                        placeholder="Select category"
+                        data={[
+                            {value: OVERALL_BUDGET, label: 'Overall (all categories)'},
+                            ...categories.map(category => ({
+                                value: category.name,
+                                label: category.name
+                            }))
+                        ].map(option => ({
+                            ...option,
+                            disabled: !selectedBudget && usedCategories.includes(
+                                option.value === OVERALL_BUDGET ? null : option.value
+                            )
+                        }))}
+                        value={formData.category ?? OVERALL_BUDGET}
+                        onChange={(value) => value && setFormData({
+                            ...formData,
+                            category: value === OVERALL_BUDGET ? null : value
+                        })}
+                        disabled={!!selectedBudget}
+                        renderOption={renderCategoryOption}
+                        required
+                    />
+
+                    <NumberInput
+                        label={`Monthly Limit (${formData.limit.currency})`}
+                        placeholder="Enter limit"
+                        value={toMajor(formData.limit)}
+                        onChange={(value) => setFormData({
+                            ...formData,
+                            limit: fromMajor(typeof value === 'number' ? value : 0, formData.limit.currency)
+                        })}
+                        required
+                        min={0}
+                        decimalScale={2}
+                        fixedDecimalScale
+                    />
+
+                    <Button onClick={handleSave} fullWidth>
+                        {selectedBudget ? 'Update Budget' : 'Create Budget'}
+                    </Button>
+                </Stack>
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
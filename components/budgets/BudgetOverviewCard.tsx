@@ -0,0 +1,45 @@
+import {Anchor, Card, Group, Progress, Stack, Text, Title} from '@mantine/core';
+import Link from 'next/link';
+import {BudgetProgress} from '@/types/budgets';
+import {formatCurrency} from '@/lib/utils';
+import {getBudgetColor} from './BudgetManager';
+
+interface BudgetOverviewCardProps {
+    budgets: BudgetProgress[];
+}
+
+export default function BudgetOverviewCard({budgets}: BudgetOverviewCardProps) {
+    return (
+        <Card>
+            <Group justify="space-between" mb="md">
+                <Title order={3}>Budgets</Title>
+                <Anchor component={Link} href="/budgets" size="sm">
+                    Manage
+                </Anchor>
+            </Group>
+
+            {budgets.length > 0 ? (
+                <Stack gap="sm">
+                    {budgets.map((progress) => (
+                        <div key={progress.budget.id}>
+                            <Group justify="space-between" mb={4}>
+                                <Text size="sm" fw={500}>{progress.budget.category || 'Overall'}</Text>
+                                <Text size="xs" c={progress.isOverspent ? 'red' : 'dimmed'}>
+                                    {formatCurrency(progress.spent)} / {formatCurrency(progress.budget.limit)}
+                                </Text>
+                            </Group>
+                            <Progress
+                                value={Math.min(progress.percentage, 100)}
+                                color={getBudgetColor(progress)}
+                            />
+                        </div>
+                    ))}
+                </Stack>
+            ) : (
+                <Text c="dimmed" ta="center">
+                    No budgets set for this month
+                </Text>
+            )}
+        </Card>
+    );
+}
\ No newline at end of file
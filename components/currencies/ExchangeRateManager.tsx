@@ -0,0 +1,307 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+import {
+    ActionIcon,
+    Alert,
+    Button,
+    FileInput,
+    Group,
+    Modal,
+    NumberInput,
+    Paper,
+    Select,
+    Stack,
+    Table,
+    Text,
+    Title
+} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle, IconCheck, IconFileImport, IconPlus, IconTrash, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatDate} from '@/lib/utils';
+import {CURRENCIES, DEFAULT_CURRENCY} from '@/lib/money';
+import {CreateExchangeRateDTO, ExchangeRate, RateImportResult} from '@/types/exchangeRates';
+
+export default function ExchangeRateManager() {
+    const {user} = useAuth();
+    const [rates, setRates] = useState<ExchangeRate[]>([]);
+    const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [importResult, setImportResult] = useState<RateImportResult | null>(null);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+    const [formData, setFormData] = useState<CreateExchangeRateDTO>({
+        fromCurrency: 'USD',
+        toCurrency: DEFAULT_CURRENCY,
+        rate: 1,
+        effectiveDate: new Date()
+    });
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [ratesData, settings] = await Promise.all([
+                services.exchangeRates.getRates(user.uid),
+                services.settings.getSettings(user.uid)
+            ]);
+            setRates(ratesData);
+            setBaseCurrency(settings.baseCurrency);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load exchange rates',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleBaseCurrencyChange = async (value: string | null) => {
+        if (!user || !value) return;
+
+        try {
+            await services.settings.updateSettings(user.uid, {baseCurrency: value});
+            setBaseCurrency(value);
+            notifications.show({
+                title: 'Success',
+                message: `Totals are now shown in ${value}`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleSave = async () => {
+        if (!user) return;
+
+        try {
+            await services.exchangeRates.saveRate(user.uid, formData);
+            await loadData();
+            notifications.show({
+                title: 'Success',
+                message: 'Exchange rate saved successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            setIsModalOpen(false);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleDelete = async (rate: ExchangeRate) => {
+        if (!user) return;
+
+        try {
+            await services.exchangeRates.deleteRate(rate.id, user.uid);
+            await loadData();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to delete exchange rate',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    };
+
+    const handleImport = async (file: File | null) => {
+        if (!user || !file) return;
+
+        try {
+            setLoading(true);
+            setError('');
+            setImportResult(await services.exchangeRates.importRates(user.uid, await file.text()));
+            await loadData();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Paper withBorder p="md" radius="md">
+                <Group justify="space-between" align="flex-end">
+                    <div>
+                        <Title order={4}>Base currency</Title>
+                        <Text size="sm" c="dimmed">
+                            The dashboard, budgets and statistics are converted into this currency
+                        </Text>
+                    </div>
+                    <Select
+                        data={CURRENCIES}
+                        value={baseCurrency}
+                        onChange={handleBaseCurrencyChange}
+                        allowDeselect={false}
+                        w={120}
+                    />
+                </Group>
+            </Paper>
+
+            <Paper withBorder p="md" radius="md">
+                <Stack gap="md">
+                    <Group justify="space-between">
+                        <Title order={4}>Exchange rates</Title>
+                        <Button
+                            leftSection={<IconPlus size={16}/>}
+                            onClick={() => setIsModalOpen(true)}
+                        >
+                            Add Rate
+                        </Button>
+                    </Group>
+
+                    <FileInput
+                        label="Import rates"
+                        description="CSV with date (YYYY-MM-DD), from currency, to currency and rate on each row"
+                        placeholder="Choose file"
+                        accept=".csv,text/csv"
+                        leftSection={<IconFileImport size={16}/>}
+                        onChange={handleImport}
+                        disabled={loading}
+                        clearable
+                    />
+
+                    {importResult && (
+                        <Alert
+                            color={importResult.errors.length ? 'yellow' : 'teal'}
+                            title={`${importResult.imported} rates imported`}
+                            onClose={() => setImportResult(null)}
+                            withCloseButton
+                        >
+                            {importResult.errors.map(rowError => (
+                                <Text key={rowError.rowNumber} size="sm">
+                                    Row {rowError.rowNumber}: {rowError.message}
+                                </Text>
+                            ))}
+                        </Alert>
+                    )}
+
+                    {rates.length === 0 ? (
+                        <Text size="sm" c="dimmed">
+                            No exchange rates yet. Amounts in other currencies can&apos;t be totalled until a rate is
+                            added.
+                        </Text>
+                    ) : (
+                        <Table>
+                            <Table.Thead>
+                                <Table.Tr>
+                                    <Table.Th>Effective from</Table.Th>
+                                    <Table.Th>Pair</Table.Th>
+                                    <Table.Th>Rate</Table.Th>
+                                    <Table.Th/>
+                                </Table.Tr>
+                            </Table.Thead>
+                            <Table.Tbody>
+                                {rates.map(rate => (
+                                    <Table.Tr key={rate.id}>
+                                        <Table.Td>{formatDate(rate.effectiveDate)}</Table.Td>
+                                        <Table.Td>{rate.fromCurrency} → {rate.toCurrency}</Table.Td>
+                                        <Table.Td>{rate.rate}</Table.Td>
+                                        <Table.Td>
+                                            <ActionIcon
+                                                variant="light"
+                                                color="red"
+                                                onClick={() => handleDelete(rate)}
+                                                aria-label="Delete rate"
+                                            >
+                                                <IconTrash size={16}/>
+                                            </ActionIcon>
+                                        </Table.Td>
+                                    </Table.Tr>
+                                ))}
+                            </Table.Tbody>
+                        </Table>
+                    )}
+                </Stack>
+            </Paper>
+
+            <Modal
+                opened={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title="Add Exchange Rate"
+            >
+                <Stack gap="md">
+                    <Group grow>
+                        <Select
+                            label="From"
+                            data={CURRENCIES}
+                            value={formData.fromCurrency}
+                            onChange={(value) => value && setFormData({...formData, fromCurrency: value})}
+                            allowDeselect={false}
+                            required
+                        />
+                        <Select
+                            label="To"
+                            data={CURRENCIES}
+                            value={formData.toCurrency}
+                            onChange={(value) => value && setFormData({...formData, toCurrency: value})}
+                            allowDeselect={false}
+                            required
+                        />
+                    </Group>
+
+                    <NumberInput
+                        label="Rate"
+                        description={`1 ${formData.fromCurrency} = ${formData.rate || 0} ${formData.toCurrency}`}
+                        value={formData.rate}
+                        onChange={(value) => setFormData({...formData, rate: typeof value === 'number' ? value : 0})}
+                        min={0}
+                        decimalScale={6}
+                        required
+                    />
+
+                    <DatePickerInput
+                        label="Effective from"
+                        value={formData.effectiveDate}
+                        onChange={(date) => setFormData({...formData, effectiveDate: date || new Date()})}
+                        required
+                    />
+
+                    <Button onClick={handleSave} fullWidth>
+                        Save Rate
+                    </Button>
+                </Stack>
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,168 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+import {Alert, Badge, Button, Group, Paper, SimpleGrid, Stack, Text} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {Account} from '@/types/accounts';
+import {DuplicatePair} from '@/types/duplicates';
+import {Transaction} from '@/types/transactions';
+
+export default function DuplicateReview() {
+    const {user} = useAuth();
+    const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+    const [busyKey, setBusyKey] = useState<string | null>(null);
+
+    const loadPairs = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [pairsData, accountsData] = await Promise.all([
+                services.duplicates.findDuplicates(user.uid),
+                services.accounts.getAccountsByUser(user.uid)
+            ]);
+            setPairs(pairsData);
+            setAccounts(accountsData);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to check for duplicates',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadPairs();
+    }, [loadPairs]);
+
+    const handleMerge = async (pair: DuplicatePair, keep: Transaction, remove: Transaction) => {
+        if (!user) return;
+
+        try {
+            setBusyKey(pair.key);
+            await services.duplicates.mergePair(user.uid, keep.id, remove.id);
+            // the removed transaction may have been part of other pairs too
+            setPairs(prev => prev.filter(p => p.first.id !== remove.id && p.second.id !== remove.id));
+            notifications.show({
+                title: 'Success',
+                message: 'Transactions merged',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handleDismiss = async (pair: DuplicatePair) => {
+        if (!user) return;
+
+        try {
+            setBusyKey(pair.key);
+            await services.duplicates.dismissPair(user.uid, pair);
+            setPairs(prev => prev.filter(p => p.key !== pair.key));
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    if (loading) return <Text>Loading...</Text>;
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Text size="sm" c="dimmed">
+                Transactions on the same account with the same amount, a few days apart and a similar description.
+                Merging keeps the one you pick and fills in its empty fields from the other.
+            </Text>
+
+            {pairs.length === 0 && (
+                <Text c="dimmed" ta="center" py="xl">
+                    No possible duplicates found.
+                </Text>
+            )}
+
+            {pairs.map(pair => (
+                <Paper key={pair.key} withBorder p="md" radius="md">
+                    <Group justify="space-between" mb="sm">
+                        <Group gap="xs">
+                            <Text fw={500}>{accounts.find(a => a.id === pair.first.accountId)?.name}</Text>
+                            <Badge variant="light" color="gray">
+                                {Math.round(pair.similarity * 100)}% similar
+                            </Badge>
+                        </Group>
+                        <Button
+                            variant="subtle"
+                            color="gray"
+                            size="xs"
+                            onClick={() => handleDismiss(pair)}
+                            disabled={busyKey === pair.key}
+                        >
+                            Not a duplicate
+                        </Button>
+                    </Group>
+                    <SimpleGrid cols={{base: 1, sm: 2}}>
+                        {[pair.first, pair.second].map((transaction, index) => (
+                            <Paper key={transaction.id} withBorder p="sm" radius="md">
+                                <Stack gap={4}>
+                                    <Text fw={500}>{transaction.description}</Text>
+                                    <Text size="sm" c={transaction.type === 'POSITIVE' ? 'green' : 'red'}>
+                                        {transaction.type === 'NEGATIVE' ? '-' : ''}{formatCurrency(transaction.amount)}
+                                    </Text>
+                                    <Text size="sm" c="dimmed">
+                                        {formatDate(transaction.createdAt)} · {transaction.category}
+                                        {transaction.partyName && ` · ${transaction.partyName}`}
+                                    </Text>
+                                    {transaction.importId && <Text size="xs" c="dimmed">Imported</Text>}
+                                    <Button
+                                        variant="light"
+                                        size="xs"
+                                        mt="xs"
+                                        onClick={() => handleMerge(pair, transaction, index === 0 ? pair.second : pair.first)}
+                                        loading={busyKey === pair.key}
+                                    >
+                                        Keep this one
+                                    </Button>
+                                </Stack>
+                            </Paper>
+                        ))}
+                    </SimpleGrid>
+                </Paper>
+            ))}
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,136 @@
+import {useState} from 'react';
+import {Alert, Button, Group, MultiSelect, SegmentedControl, Stack, Text} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle, IconCheck, IconDownload} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {downloadFile} from '@/lib/utils';
+import {Account} from '@/types/accounts';
+import {getAccountDisplayName} from '@/lib/accounts';
+import {ExportFormat} from '@/types/exports';
+import {TransactionFilters} from '@/types/transactions';
+
+export interface ExportFormProps {
+    accounts: Account[];
+    initialFilters: TransactionFilters;
+    onCancelAction: () => void;
+}
+
+const FORMAT_HINTS: Record<ExportFormat, string> = {
+    CSV: 'One flat file for spreadsheets.',
+    JSON: 'Complete snapshot of accounts, transactions and custom categories.',
+    OFX: 'One statement file per account for other finance tools.'
+};
+
+export default function ExportForm({accounts, initialFilters, onCancelAction}: ExportFormProps) {
+    const {user} = useAuth();
+    const [format, setFormat] = useState<ExportFormat>('CSV');
+    const [accountIds, setAccountIds] = useState<string[]>(
+        initialFilters.accountId ? [initialFilters.accountId] : accounts.map(a => a.id)
+    );
+    const [dateRange, setDateRange] = useState<[Date | null, Date | null]>([
+        initialFilters.startDate || null,
+        initialFilters.endDate || null
+    ]);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const handleExport = async () => {
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            setError('');
+
+            const files = await services.exports.exportData(user.uid, format, {
+                ...initialFilters,
+                accountId: undefined,
+                accountIds,
+                startDate: dateRange[0] || undefined,
+                endDate: dateRange[1] || undefined
+            });
+            files.forEach(file => downloadFile(file.filename, file.content, file.mimeType));
+
+            notifications.show({
+                title: 'Success',
+                message: `Exported ${files.length} file${files.length === 1 ? '' : 's'}`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            onCancelAction();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <SegmentedControl
+                value={format}
+                onChange={(value) => setFormat(value as ExportFormat)}
+                data={[
+                    {label: 'CSV', value: 'CSV'},
+                    {label: 'JSON', value: 'JSON'},
+                    {label: 'OFX', value: 'OFX'}
+                ]}
+            />
+            <Text size="xs" c="dimmed">{FORMAT_HINTS[format]}</Text>
+
+            <MultiSelect
+                label="Accounts"
+                data={accounts.map(account => ({value: account.id, label: getAccountDisplayName(account)}))}
+                value={accountIds}
+                onChange={setAccountIds}
+                required
+            />
+
+            <DatePickerInput
+                type="range"
+                label="Date range"
+                placeholder="All dates"
+                value={dateRange}
+                onChange={setDateRange}
+                clearable
+            />
+
+            {(initialFilters.type || initialFilters.tags || initialFilters.searchTerm) && (
+                <Text size="xs" c="dimmed">
+                    The type, tag and search filters from the transaction list are applied too.
+                </Text>
+            )}
+
+            <Group justify="space-between" mt="md">
+                <Button variant="light" onClick={onCancelAction} disabled={loading}>
+                    Cancel
+                </Button>
+                <Button
+                    leftSection={<IconDownload size={16}/>}
+                    onClick={handleExport}
+                    loading={loading}
+                    disabled={accountIds.length === 0}
+                >
+                    Export
+                </Button>
+            </Group>
+        </Stack>
+    );
+}
\ No newline at end of file
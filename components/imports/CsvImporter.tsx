@@ -0,0 +1,464 @@
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+    ActionIcon,
+    Alert,
+    Badge,
+    Button,
+    ColorSwatch,
+    FileInput,
+    Group,
+    Paper,
+    SegmentedControl,
+    Select,
+    SelectProps,
+    SimpleGrid,
+    Stack,
+    Switch,
+    Table,
+    Text,
+    TextInput
+} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconDeviceFloppy, IconFileTypeCsv, IconTrash, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {parseCsv} from '@/lib/csv';
+import {Account} from '@/types/accounts';
+import {CsvColumnMapping, ImportDateFormat, ImportResult, SavedImportMapping} from '@/types/imports';
+
+const PREVIEW_LIMIT = 100;
+
+const DEFAULT_MAPPING: CsvColumnMapping = {
+    hasHeader: true,
+    dateColumn: 0,
+    dateFormat: 'YYYY-MM-DD',
+    descriptionColumn: 1,
+    amountMode: 'SINGLE',
+    amountColumn: 2,
+    debitColumn: null,
+    creditColumn: null,
+    partyColumn: null,
+    invertAmounts: false
+};
+
+// best effort guess based on common bank export headers
+function guessMapping(header: string[]): CsvColumnMapping {
+    const find = (...names: string[]) => {
+        const index = header.findIndex(h => names.some(name => h.toLowerCase().includes(name)));
+        return index === -1 ? null : index;
+    };
+
+    const debitColumn = find('debit', 'withdrawal', 'money out');
+    const creditColumn = find('credit', 'deposit', 'money in');
+    const hasDebitCredit = debitColumn !== null && creditColumn !== null;
+
+    return {
+        ...DEFAULT_MAPPING,
+        dateColumn: find('date') ?? 0,
+        descriptionColumn: find('description', 'details', 'memo', 'name') ?? 1,
+        amountMode: hasDebitCredit ? 'DEBIT_CREDIT' : 'SINGLE',
+        amountColumn: hasDebitCredit ? null : find('amount') ?? 2,
+        debitColumn: hasDebitCredit ? debitColumn : null,
+        creditColumn: hasDebitCredit ? creditColumn : null,
+        partyColumn: find('payee', 'merchant', 'party')
+    };
+}
+
+export default function CsvImporter() {
+    const {user} = useAuth();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [savedMappings, setSavedMappings] = useState<SavedImportMapping[]>([]);
+    const [accountId, setAccountId] = useState<string | null>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [fileText, setFileText] = useState('');
+    const [mapping, setMapping] = useState<CsvColumnMapping>(DEFAULT_MAPPING);
+    const [selectedMappingId, setSelectedMappingId] = useState<string | null>(null);
+    const [bankName, setBankName] = useState('');
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [accountsData, mappingsData] = await Promise.all([
+                services.accounts.getAccountsByUser(user.uid),
+                services.imports.getMappings(user.uid)
+            ]);
+            setAccounts(accountsData);
+            setSavedMappings(mappingsData);
+            if (accountsData.length > 0) {
+                setAccountId(prev => prev || accountsData[0].id);
+            }
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleFileChange = async (selected: File | null) => {
+        setFile(selected);
+        setResult(null);
+        if (!selected) {
+            setFileText('');
+            return;
+        }
+
+        const text = await selected.text();
+        setFileText(text);
+
+        // keep a saved mapping if one is selected, otherwise guess from the header
+        if (!selectedMappingId) {
+            const [header] = parseCsv(text);
+            if (header) setMapping(guessMapping(header));
+        }
+    };
+
+    const handleMappingSelect = (mappingId: string | null) => {
+        setSelectedMappingId(mappingId);
+        const saved = savedMappings.find(m => m.id === mappingId);
+        if (saved) {
+            setMapping(saved.mapping);
+            setBankName(saved.bankName);
+        }
+    };
+
+    const handleSaveMapping = async () => {
+        if (!user) return;
+
+        try {
+            await services.imports.saveMapping(user.uid, bankName, mapping);
+            await loadData();
+            notifications.show({
+                title: 'Success',
+                message: `Mapping saved for ${bankName}`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleDeleteMapping = async () => {
+        if (!user || !selectedMappingId) return;
+        if (!window.confirm('Delete this saved mapping?')) return;
+
+        try {
+            await services.imports.deleteMapping(selectedMappingId, user.uid);
+            setSelectedMappingId(null);
+            await loadData();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const rawRows = useMemo(() => fileText ? parseCsv(fileText) : [], [fileText]);
+
+    const previewRows = useMemo(() => {
+        if (!fileText || !accountId) return [];
+        const currency = accounts.find(a => a.id === accountId)?.currency;
+        return services.imports.parseCsvFile(fileText, mapping, accountId, currency);
+    }, [fileText, mapping, accountId, accounts]);
+
+    const validCount = previewRows.filter(row => row.transaction).length;
+
+    const columnOptions = (rawRows[0] || []).map((value, index) => ({
+        value: String(index),
+        label: mapping.hasHeader && value ? value : `Column ${index + 1}`
+    }));
+
+    const setColumn = (key: keyof CsvColumnMapping, value: string | null) => {
+        setMapping({...mapping, [key]: value === null ? null : Number(value)});
+    };
+
+    const handleImport = async () => {
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            setError('');
+            const importResult = await services.imports.importTransactions(user.uid, previewRows);
+            setResult(importResult);
+            notifications.show({
+                title: 'Import complete',
+                message: `${importResult.added} added, ${importResult.rejected} rejected`,
+                color: importResult.rejected ? 'orange' : 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 5000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to import transactions',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const renderAccountOption: SelectProps['renderOption'] = ({option}) => (
+        <Group flex="1" gap="xs">
+            {option.value &&
+                <ColorSwatch color={accounts.find(a => a.id === option.value)?.color || '#868e96'} size={13}/>}
+            {option.label}
+        </Group>
+    );
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <SimpleGrid cols={{base: 1, sm: 2}}>
+                <FileInput
+                    label="Bank statement (CSV)"
+                    placeholder="Choose file"
+                    accept=".csv,text/csv"
+                    leftSection={<IconFileTypeCsv size={16}/>}
+                    value={file}
+                    onChange={handleFileChange}
+                    clearable
+                />
+                <Select
+                    label="Import into account"
+                    placeholder="Select account"
+                    data={accounts.map(account => ({value: account.id, label: account.name}))}
+                    value={accountId}
+                    onChange={setAccountId}
+                    renderOption={renderAccountOption}
+                    required
+                />
+            </SimpleGrid>
+
+            <Group align="flex-end">
+                <Select
+                    label="Saved mapping"
+                    placeholder="None"
+                    data={savedMappings.map(m => ({value: m.id, label: m.bankName}))}
+                    value={selectedMappingId}
+                    onChange={handleMappingSelect}
+                    clearable
+                    style={{flex: 1}}
+                />
+                <ActionIcon
+                    variant="light"
+                    color="red"
+                    size="lg"
+                    onClick={handleDeleteMapping}
+                    disabled={!selectedMappingId}
+                >
+                    <IconTrash size={16}/>
+                </ActionIcon>
+            </Group>
+
+            {rawRows.length > 0 && (
+                <Paper withBorder p="md" radius="md">
+                    <Stack gap="sm">
+                        <Text fw={500}>Column mapping</Text>
+                        <Group>
+                            <Switch
+                                label="First row is a header"
+                                checked={mapping.hasHeader}
+                                onChange={(e) => setMapping({...mapping, hasHeader: e.currentTarget.checked})}
+                            />
+                            <Switch
+                                label="Flip signs (spending is positive)"
+                                checked={mapping.invertAmounts}
+                                onChange={(e) => setMapping({...mapping, invertAmounts: e.currentTarget.checked})}
+                            />
+                        </Group>
+                        <SimpleGrid cols={{base: 1, sm: 3}}>
+                            <Select
+                                label="Date"
+                                data={columnOptions}
+                                value={String(mapping.dateColumn)}
+                                onChange={(value) => value && setColumn('dateColumn', value)}
+                            />
+                            <Select
+                                label="Date format"
+                                data={['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']}
+                                value={mapping.dateFormat}
+                                onChange={(value) => value && setMapping({
+                                    ...mapping,
+                                    dateFormat: value as ImportDateFormat
+                                })}
+                            />
+                            <Select
+                                label="Description"
+                                data={columnOptions}
+                                value={String(mapping.descriptionColumn)}
+                                onChange={(value) => value && setColumn('descriptionColumn', value)}
+                            />
+                        </SimpleGrid>
+                        <SegmentedControl
+                            value={mapping.amountMode}
+                            onChange={(value) => setMapping({
+                                ...mapping,
+                                amountMode: value as CsvColumnMapping['amountMode']
+                            })}
+                            data={[
+                                {label: 'Single amount column', value: 'SINGLE'},
+                                {label: 'Debit / credit columns', value: 'DEBIT_CREDIT'}
+                            ]}
+                        />
+                        <SimpleGrid cols={{base: 1, sm: 3}}>
+                            {mapping.amountMode === 'SINGLE' ? (
+                                <Select
+                                    label="Amount"
+                                    data={columnOptions}
+                                    value={mapping.amountColumn !== null ? String(mapping.amountColumn) : null}
+                                    onChange={(value) => setColumn('amountColumn', value)}
+                                />
+                            ) : (
+                                <>
+                                    <Select
+                                        label="Debit (money out)"
+                                        data={columnOptions}
+                                        value={mapping.debitColumn !== null ? String(mapping.debitColumn) : null}
+                                        onChange={(value) => setColumn('debitColumn', value)}
+                                    />
+                                    <Select
+                                        label="Credit (money in)"
+                                        data={columnOptions}
+                                        value={mapping.creditColumn !== null ? String(mapping.creditColumn) : null}
+                                        onChange={(value) => setColumn('creditColumn', value)}
+                                    />
+                                </>
+                            )}
+                            <Select
+                                label="Party (optional)"
+                                data={columnOptions}
+                                value={mapping.partyColumn !== null ? String(mapping.partyColumn) : null}
+                                onChange={(value) => setColumn('partyColumn', value)}
+                                clearable
+                            />
+                        </SimpleGrid>
+                        <Group align="flex-end">
+                            <TextInput
+                                label="Save mapping for bank"
+                                placeholder="e.g. TD Chequing"
+                                value={bankName}
+                                onChange={(e) => setBankName(e.target.value)}
+                                style={{flex: 1}}
+                            />
+                            <Button
+                                variant="light"
+                                leftSection={<IconDeviceFloppy size={16}/>}
+                                onClick={handleSaveMapping}
+                                disabled={!bankName.trim()}
+                            >
+                                Save Mapping
+                            </Button>
+                        </Group>
+                    </Stack>
+                </Paper>
+            )}
+
+            {previewRows.length > 0 && (
+                <>
+                    <Group justify="space-between">
+                        <Group gap="xs">
+                            <Text fw={500}>Preview</Text>
+                            <Badge color="green">{validCount} ready</Badge>
+                            {previewRows.length - validCount > 0 && (
+                                <Badge color="red">{previewRows.length - validCount} with errors</Badge>
+                            )}
+                        </Group>
+                        <Button
+                            onClick={handleImport}
+                            loading={loading}
+                            disabled={validCount === 0}
+                        >
+                            Import {validCount} Transactions
+                        </Button>
+                    </Group>
+
+                    <Paper withBorder radius="md">
+                        <Table.ScrollContainer minWidth={500}>
+                            <Table verticalSpacing="xs">
+                                <Table.Thead>
+                                    <Table.Tr>
+                                        <Table.Th>Row</Table.Th>
+                                        <Table.Th>Date</Table.Th>
+                                        <Table.Th>Description</Table.Th>
+                                        <Table.Th>Party</Table.Th>
+                                        <Table.Th>Amount</Table.Th>
+                                    </Table.Tr>
+                                </Table.Thead>
+                                <Table.Tbody>
+                                    {previewRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                                        <Table.Tr key={row.rowNumber}>
+                                            <Table.Td>{row.rowNumber}</Table.Td>
+                                            {row.transaction ? (
+                                                <>
+                                                    <Table.Td>
+                                                        {row.transaction.transactionDate && formatDate(row.transaction.transactionDate)}
+                                                    </Table.Td>
+                                                    <Table.Td>{row.transaction.description}</Table.Td>
+                                                    <Table.Td>{row.transaction.partyName}</Table.Td>
+                                                    <Table.Td>
+                                                        <Text c={row.transaction.type === 'POSITIVE' ? 'green' : 'red'}>
+                                                            {row.transaction.type === 'NEGATIVE' ? '-' : ''}
+                                                            {formatCurrency(row.transaction.amount)}
+                                                        </Text>
+                                                    </Table.Td>
+                                                </>
+                                            ) : (
+                                                <Table.Td colSpan={4}>
+                                                    <Text c="red" size="sm">{row.error}</Text>
+                                                </Table.Td>
+                                            )}
+                                        </Table.Tr>
+                                    ))}
+                                </Table.Tbody>
+                            </Table>
+                        </Table.ScrollContainer>
+                    </Paper>
+                    {previewRows.length > PREVIEW_LIMIT && (
+                        <Text size="xs" c="dimmed" ta="center">
+                            Showing the first {PREVIEW_LIMIT} of {previewRows.length} rows
+                        </Text>
+                    )}
+                </>
+            )}
+
+            {result && result.errors.length > 0 && (
+                <Alert color="orange" title={`${result.rejected} rows were not imported`}>
+                    <Stack gap={2}>
+                        {result.errors.slice(0, 20).map((e) => (
+                            <Text key={e.rowNumber} size="sm">Row {e.rowNumber}: {e.message}</Text>
+                        ))}
+                    </Stack>
+                </Alert>
+            )}
+        </Stack>
+    );
+}
\ No newline at end of file
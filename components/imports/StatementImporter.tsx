@@ -0,0 +1,259 @@
+import {useCallback, useEffect, useState} from 'react';
+import {
+    Alert,
+    Badge,
+    Button,
+    ColorSwatch,
+    FileInput,
+    Group,
+    Paper,
+    Select,
+    SelectProps,
+    SimpleGrid,
+    Stack,
+    Table,
+    Text
+} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconFileImport, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {QifDateOrder} from '@/lib/qif';
+import {Account} from '@/types/accounts';
+import {ImportPreviewRow, ImportResult, StatementFormat} from '@/types/imports';
+
+const PREVIEW_LIMIT = 100;
+
+function detectFormat(fileName: string): StatementFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'ofx' || extension === 'qfx') return 'OFX';
+    if (extension === 'qif') return 'QIF';
+    return null;
+}
+
+export default function StatementImporter() {
+    const {user} = useAuth();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [accountId, setAccountId] = useState<string | null>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [fileText, setFileText] = useState('');
+    const [dateOrder, setDateOrder] = useState<QifDateOrder>('MDY');
+    const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const format = file ? detectFormat(file.name) : null;
+
+    const loadAccounts = useCallback(async () => {
+        try {
+            if (!user) return;
+            const accountsData = await services.accounts.getAccountsByUser(user.uid);
+            setAccounts(accountsData);
+            if (accountsData.length > 0) {
+                setAccountId(prev => prev || accountsData[0].id);
+            }
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadAccounts();
+    }, [loadAccounts]);
+
+    useEffect(() => {
+        if (!fileText || !format || !accountId) {
+            setPreviewRows([]);
+            return;
+        }
+
+        try {
+            setError('');
+            const currency = accounts.find(a => a.id === accountId)?.currency;
+            setPreviewRows(services.imports.parseStatementFile(fileText, format, accountId, dateOrder, currency));
+        } catch (error) {
+            setPreviewRows([]);
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    }, [fileText, format, accountId, dateOrder, accounts]);
+
+    const handleFileChange = async (selected: File | null) => {
+        setFile(selected);
+        setResult(null);
+        setFileText(selected ? await selected.text() : '');
+
+        if (selected && !detectFormat(selected.name)) {
+            setError('Unsupported file type. Please choose an .ofx, .qfx or .qif file.');
+        }
+    };
+
+    const handleImport = async () => {
+        if (!user || !accountId) return;
+
+        try {
+            setLoading(true);
+            setError('');
+            const importResult = await services.imports.importStatement(user.uid, accountId, previewRows);
+            setResult(importResult);
+            notifications.show({
+                title: 'Import complete',
+                message: `${importResult.added} added, ${importResult.duplicates} duplicates skipped, ${importResult.rejected} rejected`,
+                color: importResult.rejected ? 'orange' : 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 5000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to import statement',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const renderAccountOption: SelectProps['renderOption'] = ({option}) => (
+        <Group flex="1" gap="xs">
+            {option.value &&
+                <ColorSwatch color={accounts.find(a => a.id === option.value)?.color || '#868e96'} size={13}/>}
+            {option.label}
+        </Group>
+    );
+
+    const validCount = previewRows.filter(row => row.transaction).length;
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <SimpleGrid cols={{base: 1, sm: 2}}>
+                <FileInput
+                    label="Statement (OFX, QFX or QIF)"
+                    placeholder="Choose file"
+                    accept=".ofx,.qfx,.qif"
+                    leftSection={<IconFileImport size={16}/>}
+                    value={file}
+                    onChange={handleFileChange}
+                    clearable
+                />
+                <Select
+                    label="Import into account"
+                    placeholder="Select account"
+                    data={accounts.map(account => ({value: account.id, label: account.name}))}
+                    value={accountId}
+                    onChange={setAccountId}
+                    renderOption={renderAccountOption}
+                    required
+                />
+            </SimpleGrid>
+
+            {format === 'QIF' && (
+                <Select
+                    label="QIF date order"
+                    description="QIF files don't say which order the date parts are in"
+                    data={[
+                        {value: 'MDY', label: 'Month / Day / Year'},
+                        {value: 'DMY', label: 'Day / Month / Year'}
+                    ]}
+                    value={dateOrder}
+                    onChange={(value) => value && setDateOrder(value as QifDateOrder)}
+                />
+            )}
+
+            {result && (
+                <Alert color={result.rejected ? 'orange' : 'teal'} title="Import summary">
+                    <Stack gap={2}>
+                        <Text size="sm">{result.added} added</Text>
+                        <Text size="sm">{result.duplicates} skipped as already imported</Text>
+                        <Text size="sm">{result.rejected} rejected</Text>
+                        {result.errors.slice(0, 20).map((e) => (
+                            <Text key={e.rowNumber} size="xs" c="dimmed">
+                                Transaction {e.rowNumber}: {e.message}
+                            </Text>
+                        ))}
+                    </Stack>
+                </Alert>
+            )}
+
+            {previewRows.length > 0 && (
+                <>
+                    <Group justify="space-between">
+                        <Group gap="xs">
+                            <Text fw={500}>Preview</Text>
+                            <Badge>{format}</Badge>
+                            <Badge color="green">{validCount} transactions</Badge>
+                        </Group>
+                        <Button
+                            onClick={handleImport}
+                            loading={loading}
+                            disabled={validCount === 0}
+                        >
+                            Import
+                        </Button>
+                    </Group>
+
+                    <Paper withBorder radius="md">
+                        <Table.ScrollContainer minWidth={500}>
+                            <Table verticalSpacing="xs">
+                                <Table.Thead>
+                                    <Table.Tr>
+                                        <Table.Th>Date</Table.Th>
+                                        <Table.Th>Description</Table.Th>
+                                        <Table.Th>Amount</Table.Th>
+                                    </Table.Tr>
+                                </Table.Thead>
+                                <Table.Tbody>
+                                    {previewRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                                        <Table.Tr key={row.rowNumber}>
+                                            {row.transaction ? (
+                                                <>
+                                                    <Table.Td>
+                                                        {row.transaction.transactionDate && formatDate(row.transaction.transactionDate)}
+                                                    </Table.Td>
+                                                    <Table.Td>{row.transaction.description}</Table.Td>
+                                                    <Table.Td>
+                                                        <Text c={row.transaction.type === 'POSITIVE' ? 'green' : 'red'}>
+                                                            {row.transaction.type === 'NEGATIVE' ? '-' : ''}
+                                                            {formatCurrency(row.transaction.amount)}
+                                                        </Text>
+                                                    </Table.Td>
+                                                </>
+                                            ) : (
+                                                <Table.Td colSpan={3}>
+                                                    <Text c="red" size="sm">{row.error}</Text>
+                                                </Table.Td>
+                                            )}
+                                        </Table.Tr>
+                                    ))}
+                                </Table.Tbody>
+                            </Table>
+                        </Table.ScrollContainer>
+                    </Paper>
+                </>
+            )}
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -16,15 +16,24 @@ import {
     IconArrowsRightLeft,
     IconArrowUp,
     IconChevronRight,
+    IconCoins,
+    IconCopy,
     IconDashboard,
+    IconDatabase,
+    IconFileImport,
     IconLogout,
     IconMoon,
+    IconPigMoney,
     IconReceipt2,
+    IconRepeat,
+    IconReportAnalytics,
     IconSun,
     IconTags,
     IconUser,
     IconUserCircle,
-    IconWallet
+    IconUsers,
+    IconWallet,
+    IconWand
 } from '@tabler/icons-react';
 import Link from 'next/link';
 import {usePathname, useRouter} from 'next/navigation';
@@ -50,8 +59,17 @@ export default function AppLayoutShell({children}: { children: React.ReactNode }
     const navigationItems = [
         {icon: IconDashboard, label: 'Dashboard', href: '/dashboard'},
         {icon: IconReceipt2, label: 'Transactions', href: '/transactions'},
+        {icon: IconRepeat, label: 'Recurring', href: '/recurring'},
         {icon: IconWallet, label: 'Accounts', href: '/accounts'},
+        {icon: IconUsers, label: 'People', href: '/parties'},
         {icon: IconTags, label: 'Categories', href: '/categories'},
+        {icon: IconWand, label: 'Rules', href: '/rules'},
+        {icon: IconPigMoney, label: 'Budgets', href: '/budgets'},
+        {icon: IconReportAnalytics, label: 'Reports', href: '/reports'},
+        {icon: IconCoins, label: 'Currencies', href: '/currencies'},
+        {icon: IconFileImport, label: 'Import', href: '/import'},
+        {icon: IconCopy, label: 'Duplicates', href: '/duplicates'},
+        {icon: IconDatabase, label: 'Backup', href: '/backup'},
     ];
 
     const quickActions = [
@@ -0,0 +1,96 @@
+import {Anchor, Badge, Card, Group, Stack, Text, Title} from '@mantine/core';
+import Link from 'next/link';
+import {Transaction} from '@/types/transactions';
+import {PartyBalance} from '@/types/parties';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {describeDueDate, getDaysUntilDue, getRemainingPayback} from '@/lib/paybacks';
+
+// the card gets long quickly for anyone who lends a lot, the People page has the rest
+const MAX_ROWS = 8;
+
+interface MoneyOwedCardProps {
+    // open paybacks, soonest due first
+    paybacks: Transaction[];
+    totals: PartyBalance;
+}
+
+export default function MoneyOwedCard({paybacks, totals}: MoneyOwedCardProps) {
+    const overdueCount = paybacks.filter(t => getDaysUntilDue(t) < 0).length;
+
+    return (
+        <Card>
+            <Group justify="space-between" mb="md">
+                <Title order={3}>Money Owed</Title>
+                <Anchor component={Link} href="/parties" size="sm">
+                    People
+                </Anchor>
+            </Group>
+
+            <Group gap="xl" mb="md">
+                <div>
+                    <Text size="xs" c="dimmed">Owed to you</Text>
+                    <Text size="sm" fw={500} c="green">{formatCurrency(totals.owedToUser)}</Text>
+                </div>
+                <div>
+                    <Text size="xs" c="dimmed">You owe</Text>
+                    <Text size="sm" fw={500} c="red">{formatCurrency(totals.owedByUser)}</Text>
+                </div>
+                {overdueCount > 0 && (
+                    <Badge color="red" variant="light">{overdueCount} overdue</Badge>
+                )}
+            </Group>
+
+            {paybacks.length > 0 ? (
+                <Stack gap="xs">
+                    {paybacks.slice(0, MAX_ROWS).map(payback => {
+                        const days = getDaysUntilDue(payback);
+                        const owesUser = payback.type === 'NEGATIVE';
+                        return (
+                            <Group
+                                key={payback.id}
+                                justify="space-between"
+                                wrap="nowrap"
+                                p="xs"
+                                style={{
+                                    borderRadius: '8px',
+                                    backgroundColor: days < 0 ? 'var(--mantine-color-red-light)' : undefined
+                                }}
+                            >
+                                <div style={{minWidth: 0}}>
+                                    <Text size="sm" fw={500} truncate>
+                                        {payback.partyId ? (
+                                            <Anchor component={Link} href={`/parties/${payback.partyId}`} inherit>
+                                                {payback.partyName}
+                                            </Anchor>
+                                        ) : payback.partyName || payback.description}
+                                    </Text>
+                                    <Text size="xs" c="dimmed" truncate>
+                                        {payback.partyName ? `${payback.description} · ` : ''}
+                                        {formatDate(payback.paybackDetails?.dueDate || payback.createdAt)}
+                                    </Text>
+                                </div>
+                                <div style={{textAlign: 'right'}}>
+                                    <Text size="sm" fw={500} c={owesUser ? 'green' : 'red'}>
+                                        {owesUser ? '' : '-'}{formatCurrency(getRemainingPayback(payback))}
+                                    </Text>
+                                    <Text size="xs" c={days < 0 ? 'red' : 'dimmed'}>
+                                        {describeDueDate(days)}
+                                    </Text>
+                                </div>
+                            </Group>
+                        );
+                    })}
+                    {paybacks.length > MAX_ROWS && (
+                        <Text size="xs" c="dimmed" ta="center">
+                            and {paybacks.length - MAX_ROWS} more
+                        </Text>
+                    )}
+                </Stack>
+            ) : (
+                <Text c="dimmed" ta="center">
+                    Nothing to pay back either way
+                </Text>
+            )}
+        </Card>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,275 @@
+'use client';
+
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+    Alert,
+    Badge,
+    Button,
+    Group,
+    Modal,
+    Paper,
+    Select,
+    SimpleGrid,
+    Stack,
+    Table,
+    Text,
+    Title
+} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconEdit, IconTrash, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {useRouter} from 'next/navigation';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {getAccountDisplayName} from '@/lib/accounts';
+import {getPartyBalance, isOpenPayback} from '@/lib/parties';
+import {getRemainingPayback} from '@/lib/paybacks';
+import {Account} from '@/types/accounts';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {Party} from '@/types/parties';
+import {Transaction} from '@/types/transactions';
+import PartyForm from './PartyForm';
+
+interface PartyDetailsProps {
+    partyId: string;
+}
+
+export default function PartyDetails({partyId}: PartyDetailsProps) {
+    const {user} = useAuth();
+    const router = useRouter();
+    const [party, setParty] = useState<Party | null>(null);
+    const [otherParties, setOtherParties] = useState<Party[]>([]);
+    const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [converter, setConverter] = useState<CurrencyConverter | null>(null);
+    const [mergeId, setMergeId] = useState<string | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [partyData, partiesData, transactionsData, accountsData, converterData] = await Promise.all([
+                services.parties.getPartyById(partyId, user.uid),
+                services.parties.getPartiesByUser(user.uid),
+                services.transactions.getTransactionsByParty(partyId, user.uid),
+                services.accounts.getAccountsByUser(user.uid, true),
+                services.exchangeRates.getConverter(user.uid)
+            ]);
+            setParty(partyData);
+            setOtherParties(partiesData.filter(p => p.id !== partyId));
+            setTransactions(transactionsData);
+            setAccounts(accountsData);
+            setConverter(converterData);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load person',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user, partyId]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const balance = useMemo(
+        () => converter ? getPartyBalance(transactions, converter) : null,
+        [transactions, converter]
+    );
+
+    const handleMerge = async () => {
+        if (!user || !party || !mergeId) return;
+
+        const other = otherParties.find(p => p.id === mergeId);
+        if (!window.confirm(`Move every transaction with ${other?.name} to ${party.name}? ${other?.name} becomes an alias.`)) return;
+
+        try {
+            await services.parties.mergeParties(party.id, mergeId, user.uid);
+            setMergeId(null);
+            await loadData();
+            notifications.show({
+                title: 'Success',
+                message: 'People merged',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!user || !party) return;
+
+        if (!window.confirm(`Delete ${party.name}? Their transactions are kept without a party.`)) return;
+
+        try {
+            await services.parties.deleteParty(party.id, user.uid);
+            router.push('/parties');
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    if (loading) return <Text>Loading...</Text>;
+    if (!party) return <Text c="dimmed">Person not found.</Text>;
+
+    const describePayback = (transaction: Transaction) => {
+        if (!transaction.requiresPayback || !transaction.paybackDetails) return null;
+        if (!isOpenPayback(transaction)) return <Badge variant="light" color="gray">Paid</Badge>;
+
+        const owesUser = transaction.type === 'NEGATIVE';
+        return (
+            <Badge variant="light" color={owesUser ? 'green' : 'red'}>
+                {owesUser ? 'Owes you' : 'You owe'} {formatCurrency(getRemainingPayback(transaction))} · due {formatDate(transaction.paybackDetails.dueDate)}
+            </Badge>
+        );
+    };
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Paper withBorder p="md" radius="md">
+                <Group justify="space-between" align="flex-start">
+                    <div>
+                        <Title order={3}>{party.name}</Title>
+                        {party.aliases.length > 0 && (
+                            <Text size="sm" c="dimmed">Also known as {party.aliases.join(', ')}</Text>
+                        )}
+                        {party.notes && <Text size="sm" mt="xs">{party.notes}</Text>}
+                    </div>
+                    <Group gap="xs">
+                        <Button variant="light" leftSection={<IconEdit size={16}/>} onClick={() => setIsEditing(true)}>
+                            Edit
+                        </Button>
+                        <Button variant="light" color="red" leftSection={<IconTrash size={16}/>} onClick={handleDelete}>
+                            Delete
+                        </Button>
+                    </Group>
+                </Group>
+            </Paper>
+
+            {balance && (
+                <SimpleGrid cols={{base: 1, sm: 3}}>
+                    <Paper withBorder p="md" radius="md">
+                        <Text size="sm" c="dimmed">Owes you</Text>
+                        <Text size="xl" fw={700} c="green">{formatCurrency(balance.owedToUser)}</Text>
+                    </Paper>
+                    <Paper withBorder p="md" radius="md">
+                        <Text size="sm" c="dimmed">You owe</Text>
+                        <Text size="xl" fw={700} c="red">{formatCurrency(balance.owedByUser)}</Text>
+                    </Paper>
+                    <Paper withBorder p="md" radius="md">
+                        <Text size="sm" c="dimmed">Net</Text>
+                        <Text size="xl" fw={700}>{formatCurrency(balance.net)}</Text>
+                        <Text size="xs" c="dimmed">
+                            {balance.net.amount > 0 ? `${party.name} owes you` : balance.net.amount < 0 ? `You owe ${party.name}` : 'All square'}
+                        </Text>
+                    </Paper>
+                </SimpleGrid>
+            )}
+
+            <Paper withBorder radius="md">
+                <Table.ScrollContainer minWidth={500}>
+                    <Table verticalSpacing="sm">
+                        <Table.Thead>
+                            <Table.Tr>
+                                <Table.Th>Date</Table.Th>
+                                <Table.Th>Description</Table.Th>
+                                <Table.Th>Account</Table.Th>
+                                <Table.Th>Amount</Table.Th>
+                                <Table.Th>Payback</Table.Th>
+                            </Table.Tr>
+                        </Table.Thead>
+                        <Table.Tbody>
+                            {transactions.map(transaction => {
+                                const account = accounts.find(a => a.id === transaction.accountId);
+                                return (
+                                    <Table.Tr key={transaction.id}>
+                                        <Table.Td>{formatDate(transaction.createdAt)}</Table.Td>
+                                        <Table.Td>{transaction.description}</Table.Td>
+                                        <Table.Td>{account && getAccountDisplayName(account)}</Table.Td>
+                                        <Table.Td c={transaction.type === 'POSITIVE' ? 'green' : 'red'}>
+                                            {transaction.type === 'NEGATIVE' ? '-' : ''}{formatCurrency(transaction.amount)}
+                                        </Table.Td>
+                                        <Table.Td>{describePayback(transaction)}</Table.Td>
+                                    </Table.Tr>
+                                );
+                            })}
+                            {transactions.length === 0 && (
+                                <Table.Tr><Table.Td colSpan={5}>
+                                    <Text c="dimmed" ta="center" py="xl">
+                                        No transactions with {party.name} yet.
+                                    </Text>
+                                </Table.Td></Table.Tr>
+                            )}
+                        </Table.Tbody>
+                    </Table>
+                </Table.ScrollContainer>
+            </Paper>
+
+            {otherParties.length > 0 && (
+                <Paper withBorder p="md" radius="md">
+                    <Group align="flex-end">
+                        <Select
+                            label="Merge another person into this one"
+                            description="For duplicates like a nickname or a typo"
+                            placeholder="Pick a person"
+                            data={otherParties.map(p => ({value: p.id, label: p.name}))}
+                            value={mergeId}
+                            onChange={setMergeId}
+                            searchable
+                            clearable
+                            style={{flex: 1}}
+                        />
+                        <Button onClick={handleMerge} disabled={!mergeId}>
+                            Merge
+                        </Button>
+                    </Group>
+                </Paper>
+            )}
+
+            <Modal
+                opened={isEditing}
+                onClose={() => setIsEditing(false)}
+                title="Edit Person"
+            >
+                <PartyForm
+                    initialParty={party}
+                    onSuccessAction={async () => {
+                        setIsEditing(false);
+                        await loadData();
+                    }}
+                    onCancelAction={() => setIsEditing(false)}
+                />
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import {useState} from 'react';
+import {Alert, Button, Group, Stack, TagsInput, Textarea, TextInput} from '@mantine/core';
+import {IconAlertCircle, IconCheck} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {CreatePartyDTO, Party} from '@/types/parties';
+
+export interface PartyFormProps {
+    initialParty?: Party;
+    onSuccessAction: () => Promise<void>;
+    onCancelAction: () => void;
+}
+
+export default function PartyForm({initialParty, onSuccessAction, onCancelAction}: PartyFormProps) {
+    const {user} = useAuth();
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+    const [formData, setFormData] = useState<CreatePartyDTO>({
+        name: initialParty?.name || '',
+        aliases: initialParty?.aliases || [],
+        notes: initialParty?.notes || ''
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            setError('');
+
+            if (initialParty) {
+                await services.parties.updateParty(initialParty.id, formData, user.uid);
+            } else {
+                await services.parties.createParty(user.uid, formData);
+            }
+
+            notifications.show({
+                title: 'Success',
+                message: initialParty ? 'Person updated successfully' : 'Person added successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            await onSuccessAction();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <Stack gap="md">
+                {error && (
+                    <Alert
+                        icon={<IconAlertCircle size={16}/>}
+                        color="red"
+                        title="Error"
+                        onClose={() => setError('')}
+                        withCloseButton
+                    >
+                        {error}
+                    </Alert>
+                )}
+
+                <TextInput
+                    label="Name"
+                    placeholder="e.g. John Smith"
+                    value={formData.name}
+                    onChange={(e) => setFormData({...formData, name: e.target.value})}
+                    required
+                />
+
+                <TagsInput
+                    label="Aliases (Optional)"
+                    description="Other spellings used in transactions, they all count as this person"
+                    placeholder="Type a name and press Enter"
+                    value={formData.aliases}
+                    onChange={(aliases) => setFormData({...formData, aliases})}
+                    clearable
+                />
+
+                <Textarea
+                    label="Notes (Optional)"
+                    value={formData.notes || ''}
+                    onChange={(e) => setFormData({...formData, notes: e.target.value})}
+                    autosize
+                    minRows={2}
+                />
+
+                <Group justify="space-between" mt="md">
+                    <Button
+                        variant="light"
+                        onClick={onCancelAction}
+                        disabled={loading}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        loading={loading}
+                    >
+                        {initialParty ? 'Update Person' : 'Add Person'}
+                    </Button>
+                </Group>
+            </Stack>
+        </form>
+    );
+}
\ No newline at end of file
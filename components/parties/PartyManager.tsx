@@ -0,0 +1,168 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+import {Alert, Button, Group, Modal, Paper, Stack, Table, Text, TextInput, UnstyledButton} from '@mantine/core';
+import {IconAlertCircle, IconArrowsExchange, IconPlus, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import Link from 'next/link';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency} from '@/lib/utils';
+import {findPartyByName} from '@/lib/parties';
+import {Party, PartyBalance} from '@/types/parties';
+import PartyForm from './PartyForm';
+
+export default function PartyManager() {
+    const {user} = useAuth();
+    const [parties, setParties] = useState<Party[]>([]);
+    const [balances, setBalances] = useState<Record<string, PartyBalance>>({});
+    const [search, setSearch] = useState('');
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+
+    const loadParties = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [partiesData, balancesData] = await Promise.all([
+                services.parties.getPartiesByUser(user.uid),
+                services.parties.getPartyBalances(user.uid)
+            ]);
+            setParties(partiesData);
+            setBalances(balancesData);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load people',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadParties();
+    }, [loadParties]);
+
+    // an exact alias match counts too, so searching "john" finds "John Smith" if that's an alias
+    const visibleParties = parties.filter(party =>
+        !search.trim() ||
+        party.name.toLowerCase().includes(search.trim().toLowerCase()) ||
+        findPartyByName([party], search)
+    );
+
+    if (loading) return <Text>Loading...</Text>;
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Group justify="space-between" align="center">
+                <TextInput
+                    placeholder="Search people..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <Group gap="xs">
+                    <Button
+                        variant="light"
+                        component={Link}
+                        href="/parties/settle"
+                        leftSection={<IconArrowsExchange size={16}/>}
+                    >
+                        Settle Up
+                    </Button>
+                    <Button
+                        leftSection={<IconPlus size={16}/>}
+                        onClick={() => setIsModalOpen(true)}
+                    >
+                        Add Person
+                    </Button>
+                </Group>
+            </Group>
+
+            <Paper withBorder radius="md">
+                <Table.ScrollContainer minWidth={500}>
+                    <Table highlightOnHover verticalSpacing="sm">
+                        <Table.Thead>
+                            <Table.Tr>
+                                <Table.Th>Name</Table.Th>
+                                <Table.Th>Owes you</Table.Th>
+                                <Table.Th>You owe</Table.Th>
+                                <Table.Th>Net</Table.Th>
+                            </Table.Tr>
+                        </Table.Thead>
+                        <Table.Tbody>
+                            {visibleParties.map(party => {
+                                const balance = balances[party.id];
+                                return (
+                                    <Table.Tr key={party.id}>
+                                        <Table.Td>
+                                            <UnstyledButton component={Link} href={`/parties/${party.id}`}>
+                                                <Text size="sm" fw={500}>{party.name}</Text>
+                                                {party.aliases.length > 0 && (
+                                                    <Text size="xs" c="dimmed">{party.aliases.join(', ')}</Text>
+                                                )}
+                                            </UnstyledButton>
+                                        </Table.Td>
+                                        <Table.Td>{balance && formatCurrency(balance.owedToUser)}</Table.Td>
+                                        <Table.Td>{balance && formatCurrency(balance.owedByUser)}</Table.Td>
+                                        <Table.Td>
+                                            {balance && (
+                                                <Text
+                                                    size="sm"
+                                                    fw={500}
+                                                    c={balance.net.amount > 0 ? 'green' : balance.net.amount < 0 ? 'red' : undefined}
+                                                >
+                                                    {formatCurrency(balance.net)}
+                                                </Text>
+                                            )}
+                                        </Table.Td>
+                                    </Table.Tr>
+                                );
+                            })}
+                            {visibleParties.length === 0 && (
+                                <Table.Tr><Table.Td colSpan={4}>
+                                    <Text c="dimmed" ta="center" py="xl">
+                                        No people yet. Anyone named on a transaction shows up here.
+                                    </Text>
+                                </Table.Td></Table.Tr>
+                            )}
+                        </Table.Tbody>
+                    </Table>
+                </Table.ScrollContainer>
+            </Paper>
+
+            <Modal
+                opened={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title="Add Person"
+            >
+                <PartyForm
+                    onSuccessAction={async () => {
+                        setIsModalOpen(false);
+                        await loadParties();
+                    }}
+                    onCancelAction={() => setIsModalOpen(false)}
+                />
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
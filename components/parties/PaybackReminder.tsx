@@ -0,0 +1,108 @@
+import {useState} from 'react';
+import {Button, Group, Stack, Text} from '@mantine/core';
+import {IconBellRinging} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {AppError} from '@/lib/errors';
+import {formatCurrency} from '@/lib/utils';
+import {describeDueDate, getDaysUntilDue, getDueReminders, getRemainingPayback} from '@/lib/paybacks';
+import {Transaction} from '@/types/transactions';
+
+// any more than this are rolled into one notification instead of burying the screen
+const MAX_REMINDERS = 3;
+
+const SNOOZE_OPTIONS = [
+    {label: 'Tomorrow', days: 1},
+    {label: 'Next week', days: 7}
+];
+
+// one notification per payback that is overdue or coming due, see lib/paybacks getDueReminders
+export async function showPaybackReminders(userId: string): Promise<void> {
+    const [paybacks, settings] = await Promise.all([
+        services.transactions.getOpenPaybacks(userId),
+        services.settings.getSettings(userId)
+    ]);
+    const due = getDueReminders(paybacks, settings);
+
+    due.slice(0, MAX_REMINDERS).forEach(payback => {
+        const id = `payback-reminder-${payback.id}`;
+        notifications.show({
+            id,
+            title: getDaysUntilDue(payback) < 0 ? 'Payback overdue' : 'Payback coming due',
+            message: <PaybackReminder userId={userId} payback={payback} notificationId={id}/>,
+            color: getDaysUntilDue(payback) < 0 ? 'LightSalmon' : 'yellow',
+            icon: <IconBellRinging size={16}/>,
+            autoClose: false,
+        });
+    });
+
+    if (due.length > MAX_REMINDERS) {
+        notifications.show({
+            title: 'More paybacks due',
+            message: `${due.length - MAX_REMINDERS} more, see Money Owed on the dashboard`,
+            color: 'yellow',
+            icon: <IconBellRinging size={16}/>,
+            autoClose: 8000,
+        });
+    }
+}
+
+interface PaybackReminderProps {
+    userId: string;
+    payback: Transaction;
+    notificationId: string;
+}
+
+function PaybackReminder({userId, payback, notificationId}: PaybackReminderProps) {
+    const [loading, setLoading] = useState(false);
+    const owesUser = payback.type === 'NEGATIVE';
+    const amount = formatCurrency(getRemainingPayback(payback));
+    const who = payback.partyName || 'Someone';
+
+    const handleSnooze = async (days: number) => {
+        const now = new Date();
+        try {
+            setLoading(true);
+            await services.settings.snoozeReminder(
+                userId,
+                payback.id,
+                new Date(now.getFullYear(), now.getMonth(), now.getDate() + days)
+            );
+            notifications.hide(notificationId);
+        } catch (error) {
+            if (error instanceof AppError) {
+                notifications.show({
+                    title: 'Error',
+                    message: error.message,
+                    color: 'LightSalmon',
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Stack gap={6}>
+            <Text size="sm">
+                {owesUser ? `${who} owes you ${amount}` : `You owe ${payback.partyName || 'someone'} ${amount}`} for
+                {' '}{payback.description}, {describeDueDate(getDaysUntilDue(payback))}.
+            </Text>
+            <Group gap="xs">
+                <Text size="xs" c="dimmed">Snooze:</Text>
+                {SNOOZE_OPTIONS.map(option => (
+                    <Button
+                        key={option.days}
+                        variant="light"
+                        size="compact-xs"
+                        disabled={loading}
+                        onClick={() => void handleSnooze(option.days)}
+                    >
+                        {option.label}
+                    </Button>
+                ))}
+            </Group>
+        </Stack>
+    );
+}
\ No newline at end of file
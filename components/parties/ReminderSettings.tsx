@@ -0,0 +1,90 @@
+'use client';
+
+import {useEffect, useState} from 'react';
+import {Alert, Button, Group, NumberInput, Paper, Stack, Switch, Text} from '@mantine/core';
+import {IconAlertCircle, IconCheck} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {PaybackReminderSettings} from '@/types/settings';
+
+export default function ReminderSettings() {
+    const {user} = useAuth();
+    const [settings, setSettings] = useState<PaybackReminderSettings | null>(null);
+    const [error, setError] = useState<string>('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!user) return;
+        services.settings.getSettings(user.uid)
+            .then(data => setSettings(data.paybackReminders))
+            .catch(error => {
+                if (error instanceof AppError) setError(error.message);
+            });
+    }, [user]);
+
+    const handleSave = async () => {
+        if (!user || !settings) return;
+
+        try {
+            setSaving(true);
+            setError('');
+            await services.settings.updateSettings(user.uid, {paybackReminders: settings});
+            notifications.show({
+                title: 'Success',
+                message: 'Reminder settings saved',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!settings) return null;
+
+    return (
+        <Paper withBorder p="md" radius="md">
+            <Stack gap="sm">
+                <Text fw={500}>Payback Reminders</Text>
+                {error && (
+                    <Alert
+                        icon={<IconAlertCircle size={16}/>}
+                        color="red"
+                        title="Error"
+                        onClose={() => setError('')}
+                        withCloseButton
+                    >
+                        {error}
+                    </Alert>
+                )}
+                <Switch
+                    label="Remind me of overdue and upcoming paybacks when I open the app"
+                    checked={settings.enabled}
+                    onChange={(e) => setSettings({...settings, enabled: e.currentTarget.checked})}
+                />
+                <Group align="flex-end">
+                    <NumberInput
+                        label="Days ahead"
+                        description="Paybacks due within this many days are included"
+                        value={settings.daysAhead}
+                        onChange={(value) => setSettings({...settings, daysAhead: typeof value === 'number' ? value : 0})}
+                        min={0}
+                        max={90}
+                        allowDecimal={false}
+                        disabled={!settings.enabled}
+                    />
+                    <Button onClick={handleSave} loading={saving}>
+                        Save
+                    </Button>
+                </Group>
+            </Stack>
+        </Paper>
+    );
+}
\ No newline at end of file
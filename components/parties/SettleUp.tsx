@@ -0,0 +1,250 @@
+'use client';
+
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {Alert, Button, Group, Modal, Paper, Select, Stack, Table, Text} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle, IconArrowRight, IconCheck, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency} from '@/lib/utils';
+import {getSettlementPayments} from '@/lib/settlement';
+import {Money} from '@/types/money';
+import {Account} from '@/types/accounts';
+import {Party, PartyBalance, SettlementPayment} from '@/types/parties';
+
+export default function SettleUp() {
+    const {user} = useAuth();
+    const [parties, setParties] = useState<Party[]>([]);
+    const [balances, setBalances] = useState<Record<string, PartyBalance>>({});
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [baseCurrency, setBaseCurrency] = useState<string>('');
+    const [recording, setRecording] = useState<SettlementPayment | null>(null);
+    const [accountId, setAccountId] = useState<string | null>(null);
+    const [date, setDate] = useState<Date>(new Date());
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [partiesData, balancesData, accountsData, converter] = await Promise.all([
+                services.parties.getPartiesByUser(user.uid),
+                services.parties.getPartyBalances(user.uid),
+                services.accounts.getAccountsByUser(user.uid),
+                services.exchangeRates.getConverter(user.uid)
+            ]);
+            setParties(partiesData);
+            setBalances(balancesData);
+            // balances are in the base currency, so payments are recorded in accounts that hold it
+            setAccounts(accountsData.filter(account => account.currency === converter.baseCurrency));
+            setBaseCurrency(converter.baseCurrency);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load balances',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const payments = useMemo(() => {
+        const nets: Record<string, Money> = {};
+        Object.keys(balances).forEach(partyId => {
+            nets[partyId] = balances[partyId].net;
+        });
+        return getSettlementPayments(nets, baseCurrency);
+    }, [balances, baseCurrency]);
+
+    const nameOf = (partyId: string | null) =>
+        partyId === null ? 'You' : parties.find(party => party.id === partyId)?.name || 'Unknown';
+
+    const openRecord = (payment: SettlementPayment) => {
+        setRecording(payment);
+        setAccountId(accounts[0]?.id || null);
+        setDate(new Date());
+    };
+
+    // paybacks running both ways with one person cancel out before any money moves, otherwise
+    // paying only the net would leave both sides open
+    const offsetMutual = async (userId: string, partyId: string) => {
+        const balance = balances[partyId];
+        if (!balance || !accountId) return;
+        const offset = Math.min(balance.owedToUser.amount, balance.owedByUser.amount);
+        if (offset <= 0) return;
+
+        const amount = {amount: offset, currency: baseCurrency};
+        await services.transactions.settleWithParty(userId, {
+            partyId, direction: 'FROM_PARTY', accountId, amount, transactionDate: date
+        });
+        await services.transactions.settleWithParty(userId, {
+            partyId, direction: 'TO_PARTY', accountId, amount, transactionDate: date
+        });
+    };
+
+    // a payment between two people goes through the user's books as money in from one and
+    // the same money out to the other, so the account balance doesn't move
+    const handleRecord = async () => {
+        if (!user || !recording || !accountId) return;
+
+        try {
+            setSaving(true);
+            setError('');
+            const {from, to, amount} = recording;
+
+            if (from !== null) {
+                await offsetMutual(user.uid, from);
+                await services.transactions.settleWithParty(user.uid, {
+                    partyId: from, direction: 'FROM_PARTY', accountId, amount, transactionDate: date
+                });
+            }
+            if (to !== null) {
+                await offsetMutual(user.uid, to);
+                await services.transactions.settleWithParty(user.uid, {
+                    partyId: to, direction: 'TO_PARTY', accountId, amount, transactionDate: date
+                });
+            }
+
+            notifications.show({
+                title: 'Success',
+                message: `${nameOf(from)} paid ${nameOf(to)} ${formatCurrency(amount)}`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            setRecording(null);
+            await loadData();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) return <Text>Loading...</Text>;
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Text size="sm" c="dimmed">
+                The fewest payments that clear every open payback, in {baseCurrency}.
+            </Text>
+
+            <Paper withBorder radius="md">
+                {payments.length > 0 ? (
+                    <Table verticalSpacing="sm">
+                        <Table.Thead>
+                            <Table.Tr>
+                                <Table.Th>Payment</Table.Th>
+                                <Table.Th>Amount</Table.Th>
+                                <Table.Th/>
+                            </Table.Tr>
+                        </Table.Thead>
+                        <Table.Tbody>
+                            {payments.map((payment, index) => (
+                                <Table.Tr key={index}>
+                                    <Table.Td>
+                                        <Group gap="xs">
+                                            <Text size="sm" fw={500}>{nameOf(payment.from)}</Text>
+                                            <IconArrowRight size={14}/>
+                                            <Text size="sm" fw={500}>{nameOf(payment.to)}</Text>
+                                        </Group>
+                                    </Table.Td>
+                                    <Table.Td>{formatCurrency(payment.amount)}</Table.Td>
+                                    <Table.Td>
+                                        <Group justify="flex-end">
+                                            <Button
+                                                size="xs"
+                                                variant="light"
+                                                onClick={() => openRecord(payment)}
+                                                disabled={!accounts.length}
+                                            >
+                                                Record
+                                            </Button>
+                                        </Group>
+                                    </Table.Td>
+                                </Table.Tr>
+                            ))}
+                        </Table.Tbody>
+                    </Table>
+                ) : (
+                    <Text c="dimmed" ta="center" p="md">
+                        Everyone is settled up
+                    </Text>
+                )}
+            </Paper>
+
+            {payments.length > 0 && !accounts.length && (
+                <Text size="sm" c="dimmed">
+                    Add an account in {baseCurrency} to record settle up payments.
+                </Text>
+            )}
+
+            <Modal
+                opened={!!recording}
+                onClose={() => setRecording(null)}
+                title="Record Payment"
+                size="md"
+            >
+                {recording && (
+                    <Stack gap="md">
+                        <Text size="sm">
+                            {nameOf(recording.from)} paid {nameOf(recording.to)} {formatCurrency(recording.amount)}
+                        </Text>
+                        <Select
+                            label="Account"
+                            description={recording.from !== null && recording.to !== null
+                                ? 'Recorded as money in and out again, the balance stays the same'
+                                : undefined}
+                            data={accounts.map(account => ({value: account.id, label: account.name}))}
+                            value={accountId}
+                            onChange={setAccountId}
+                            required
+                        />
+                        <DatePickerInput
+                            label="Date"
+                            value={date}
+                            onChange={(value) => setDate(value || new Date())}
+                            maxDate={new Date()}
+                            required
+                        />
+                        <Group justify="flex-end">
+                            <Button variant="light" onClick={() => setRecording(null)}>
+                                Cancel
+                            </Button>
+                            <Button onClick={handleRecord} loading={saving} disabled={!accountId}>
+                                Record
+                            </Button>
+                        </Group>
+                    </Stack>
+                )}
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,352 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+import {
+    ActionIcon,
+    Alert,
+    Badge,
+    Button,
+    Group,
+    Modal,
+    NumberInput,
+    Paper,
+    Stack,
+    Table,
+    Text,
+    TextInput,
+    Tooltip
+} from '@mantine/core';
+import {
+    IconAlertCircle,
+    IconCheck,
+    IconEdit,
+    IconPencil,
+    IconPlayerSkipForward,
+    IconPlus,
+    IconTrash,
+    IconX
+} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {describeFrequency} from '@/lib/recurrence';
+import {Account} from '@/types/accounts';
+import {RecurringOccurrence, RecurringRule} from '@/types/recurring';
+import RecurringRuleForm from './RecurringRuleForm';
+import {fromMajor, toMajor, zeroMoney} from '@/lib/money';
+
+const UPCOMING_DAYS = 60;
+
+export default function RecurringManager() {
+    const {user} = useAuth();
+    const [rules, setRules] = useState<RecurringRule[]>([]);
+    const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [error, setError] = useState<string>('');
+    const [showRuleModal, setShowRuleModal] = useState(false);
+    const [selectedRule, setSelectedRule] = useState<RecurringRule | null>(null);
+    const [selectedOccurrence, setSelectedOccurrence] = useState<RecurringOccurrence | null>(null);
+    const [occurrenceForm, setOccurrenceForm] = useState({amount: zeroMoney(), description: ''});
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const until = new Date();
+            until.setDate(until.getDate() + UPCOMING_DAYS);
+
+            const [rulesData, occurrencesData, accountsData] = await Promise.all([
+                services.recurring.getRulesByUser(user.uid),
+                services.recurring.getUpcomingOccurrences(user.uid, until),
+                services.accounts.getAccountsByUser(user.uid)
+            ]);
+            setRules(rulesData);
+            setOccurrences(occurrencesData);
+            setAccounts(accountsData);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load recurring transactions',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleDeleteRule = async (rule: RecurringRule) => {
+        if (!user) return;
+
+        const confirmed = window.confirm('Delete this recurring series? Transactions that were already created are kept.');
+        if (!confirmed) return;
+
+        try {
+            await services.recurring.deleteRule(rule.id, user.uid);
+            await loadData();
+            notifications.show({
+                title: 'Success',
+                message: 'Recurring series deleted successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleSkip = async (occurrence: RecurringOccurrence) => {
+        if (!user) return;
+
+        try {
+            await services.recurring.skipOccurrence(occurrence.rule.id, occurrence.dateKey, user.uid);
+            await loadData();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleEditOccurrence = (occurrence: RecurringOccurrence) => {
+        setSelectedOccurrence(occurrence);
+        setOccurrenceForm({
+            amount: occurrence.template.amount,
+            description: occurrence.template.description
+        });
+    };
+
+    const handleSaveOccurrence = async () => {
+        if (!user || !selectedOccurrence) return;
+
+        try {
+            await services.recurring.updateOccurrence(
+                selectedOccurrence.rule.id,
+                selectedOccurrence.dateKey,
+                occurrenceForm,
+                user.uid
+            );
+            setSelectedOccurrence(null);
+            await loadData();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const getAccountName = (accountId?: string) =>
+        accounts.find(a => a.id === accountId)?.name || 'Unknown account';
+
+    const describeRule = (rule: RecurringRule) => rule.kind === 'TRANSFER'
+        ? `${getAccountName(rule.template.accountId)} → ${getAccountName(rule.template.toAccountId)}`
+        : `${rule.template.category} · ${getAccountName(rule.template.accountId)}`;
+
+    const getAmountColor = (rule: RecurringRule) => {
+        if (rule.kind === 'TRANSFER') return 'blue';
+        return rule.template.type === 'POSITIVE' ? 'green' : 'red';
+    };
+
+    const closeRuleModal = () => {
+        setShowRuleModal(false);
+        setSelectedRule(null);
+    };
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Group justify="space-between" align="center">
+                <Text size="lg" fw={500}>Recurring Series</Text>
+                <Button
+                    leftSection={<IconPlus size={16}/>}
+                    onClick={() => setShowRuleModal(true)}
+                >
+                    Add Recurring
+                </Button>
+            </Group>
+
+            <Stack gap="sm">
+                {rules.map((rule) => (
+                    <Paper key={rule.id} withBorder p="md" radius="md">
+                        <Group justify="space-between" align="center">
+                            <div>
+                                <Group gap="xs">
+                                    <Text fw={500}>{rule.template.description || 'Transfer'}</Text>
+                                    <Badge variant="light">{describeFrequency(rule.frequency)}</Badge>
+                                </Group>
+                                <Text size="xs" c="dimmed">{describeRule(rule)}</Text>
+                            </div>
+                            <Group gap="xs">
+                                <Text c={getAmountColor(rule)} fw={500}>
+                                    {formatCurrency(rule.template.amount)}
+                                </Text>
+                                <ActionIcon
+                                    variant="light"
+                                    color="blue"
+                                    onClick={() => {
+                                        setSelectedRule(rule);
+                                        setShowRuleModal(true);
+                                    }}
+                                >
+                                    <IconEdit size={16}/>
+                                </ActionIcon>
+                                <ActionIcon
+                                    variant="light"
+                                    color="red"
+                                    onClick={() => handleDeleteRule(rule)}
+                                >
+                                    <IconTrash size={16}/>
+                                </ActionIcon>
+                            </Group>
+                        </Group>
+                    </Paper>
+                ))}
+
+                {rules.length === 0 && (
+                    <Text c="dimmed" ta="center" py="xl">
+                        No recurring transactions yet.
+                    </Text>
+                )}
+            </Stack>
+
+            <Text size="lg" fw={500}>Upcoming ({UPCOMING_DAYS} days)</Text>
+            <Paper withBorder radius="md">
+                <Table.ScrollContainer minWidth={500}>
+                    <Table verticalSpacing="sm">
+                        <Table.Thead>
+                            <Table.Tr>
+                                <Table.Th>Date</Table.Th>
+                                <Table.Th>Description</Table.Th>
+                                <Table.Th>Amount</Table.Th>
+                                <Table.Th>Actions</Table.Th>
+                            </Table.Tr>
+                        </Table.Thead>
+                        <Table.Tbody>
+                            {occurrences.map((occurrence) => (
+                                <Table.Tr
+                                    key={`${occurrence.rule.id}-${occurrence.dateKey}`}
+                                    opacity={occurrence.isSkipped ? 0.5 : 1}
+                                >
+                                    <Table.Td>{formatDate(occurrence.date)}</Table.Td>
+                                    <Table.Td>
+                                        <Group gap="xs">
+                                            <Text td={occurrence.isSkipped ? 'line-through' : undefined}>
+                                                {occurrence.template.description || 'Transfer'}
+                                            </Text>
+                                            {occurrence.isSkipped && <Badge color="gray" size="xs">Skipped</Badge>}
+                                            {occurrence.isOverridden && <Badge color="yellow" size="xs">Edited</Badge>}
+                                        </Group>
+                                    </Table.Td>
+                                    <Table.Td>
+                                        <Text c={getAmountColor(occurrence.rule)}>
+                                            {formatCurrency(occurrence.template.amount)}
+                                        </Text>
+                                    </Table.Td>
+                                    <Table.Td>
+                                        <Group gap="xs">
+                                            <Tooltip label="Edit this occurrence">
+                                                <ActionIcon
+                                                    variant="light"
+                                                    color="blue"
+                                                    size="sm"
+                                                    onClick={() => handleEditOccurrence(occurrence)}
+                                                    disabled={occurrence.isSkipped}
+                                                >
+                                                    <IconPencil size={16}/>
+                                                </ActionIcon>
+                                            </Tooltip>
+                                            <Tooltip label="Skip this occurrence">
+                                                <ActionIcon
+                                                    variant="light"
+                                                    color="orange"
+                                                    size="sm"
+                                                    onClick={() => handleSkip(occurrence)}
+                                                    disabled={occurrence.isSkipped}
+                                                >
+                                                    <IconPlayerSkipForward size={16}/>
+                                                </ActionIcon>
+                                            </Tooltip>
+                                        </Group>
+                                    </Table.Td>
+                                </Table.Tr>
+                            ))}
+                            {occurrences.length === 0 && (
+                                <Table.Tr><Table.Td colSpan={4}>
+                                    <Text c="dimmed" ta="center" py="xl">
+                                        Nothing scheduled.
+                                    </Text>
+                                </Table.Td></Table.Tr>
+                            )}
+                        </Table.Tbody>
+                    </Table>
+                </Table.ScrollContainer>
+            </Paper>
+
+            <Modal
+                opened={showRuleModal}
+                onClose={closeRuleModal}
+                title={selectedRule ? 'Edit Series' : 'New Recurring Transaction'}
+            >
+                <RecurringRuleForm
+                    key={selectedRule?.id || 'new'}
+                    initialRule={selectedRule || undefined}
+                    onSuccessAction={async () => {
+                        closeRuleModal();
+                        await loadData();
+                    }}
+                    onCancelAction={closeRuleModal}
+                />
+            </Modal>
+
+            <Modal
+                opened={!!selectedOccurrence}
+                onClose={() => setSelectedOccurrence(null)}
+                title={selectedOccurrence ? `Edit occurrence on ${formatDate(selectedOccurrence.date)}` : ''}
+            >
+                <Stack gap="md">
+                    <NumberInput
+                        label={`Amount (${occurrenceForm.amount.currency})`}
+                        value={toMajor(occurrenceForm.amount)}
+                        onChange={(value) => setOccurrenceForm({
+                            ...occurrenceForm,
+                            amount: fromMajor(typeof value === 'number' ? value : 0, occurrenceForm.amount.currency)
+                        })}
+                        min={0}
+                        decimalScale={2}
+                        fixedDecimalScale
+                        required
+                    />
+                    <TextInput
+                        label="Description"
+                        value={occurrenceForm.description}
+                        onChange={(e) => setOccurrenceForm({...occurrenceForm, description: e.target.value})}
+                    />
+                    <Button onClick={handleSaveOccurrence} fullWidth>
+                        Save Occurrence
+                    </Button>
+                </Stack>
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,339 @@
+import {useCallback, useEffect, useState} from 'react';
+import {
+    Alert,
+    Button,
+    ColorSwatch,
+    Group,
+    NumberInput,
+    SegmentedControl,
+    Select,
+    SelectProps,
+    Stack,
+    TextInput
+} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle, IconCheck, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {Account} from '@/types/accounts';
+import {TransactionCategory} from '@/types/transactions';
+import {RecurrenceFrequency, RecurringRule, RecurringTemplate} from '@/types/recurring';
+import {fromMajor, toMajor, withCurrency, zeroMoney} from '@/lib/money';
+
+type RuleKind = 'NEGATIVE' | 'POSITIVE' | 'TRANSFER';
+type EndMode = 'NEVER' | 'DATE' | 'COUNT';
+
+export interface RecurringRuleFormProps {
+    initialRule?: RecurringRule;
+    onSuccessAction: () => Promise<void>;
+    onCancelAction: () => void;
+}
+
+export default function RecurringRuleForm({initialRule, onSuccessAction, onCancelAction}: RecurringRuleFormProps) {
+    const {user} = useAuth();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [categories, setCategories] = useState<TransactionCategory[]>([]);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const [kind, setKind] = useState<RuleKind>(
+        initialRule ? (initialRule.kind === 'TRANSFER' ? 'TRANSFER' : initialRule.template.type) : 'NEGATIVE'
+    );
+    const [template, setTemplate] = useState<RecurringTemplate>(initialRule?.template || {
+        accountId: '',
+        amount: zeroMoney(),
+        type: 'NEGATIVE',
+        category: '',
+        description: '',
+        partyName: ''
+    });
+    const [frequency, setFrequency] = useState<RecurrenceFrequency>(initialRule?.frequency || 'MONTHLY');
+    const [startDate, setStartDate] = useState<Date>(initialRule?.startDate || new Date());
+    const [endMode, setEndMode] = useState<EndMode>(
+        initialRule?.endDate ? 'DATE' : initialRule?.occurrenceCount ? 'COUNT' : 'NEVER'
+    );
+    const [endDate, setEndDate] = useState<Date | null>(initialRule?.endDate || null);
+    const [occurrenceCount, setOccurrenceCount] = useState<number>(initialRule?.occurrenceCount || 12);
+
+    const renderAccountOption: SelectProps['renderOption'] = ({option}) => (
+        <Group flex="1" gap="xs">
+            {option.value &&
+                <ColorSwatch color={accounts.find(a => a.id === option.value)?.color || '#868e96'} size={13}/>}
+            {option.label}
+        </Group>
+    );
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const accountsData = await services.accounts.getAccountsByUser(user.uid);
+            setAccounts(accountsData);
+
+            if (kind !== 'TRANSFER') {
+                const categoriesData = await services.categories.getCategoriesByType(
+                    kind === 'POSITIVE' ? 'INCOME' : 'EXPENSE'
+                );
+                setCategories(categoriesData);
+            }
+
+            if (accountsData.length > 0) {
+                setTemplate(prev => prev.accountId ? prev : {
+                    ...prev,
+                    accountId: accountsData[0].id,
+                    amount: withCurrency(prev.amount, accountsData[0].currency)
+                });
+            }
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load form data',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    }, [user, kind]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleKindChange = (value: string) => {
+        const newKind = value as RuleKind;
+        setKind(newKind);
+        setTemplate(prev => ({
+            ...prev,
+            type: newKind === 'POSITIVE' ? 'POSITIVE' : 'NEGATIVE',
+            category: newKind === 'TRANSFER' ? 'TRANSFER' : '',
+            toAccountId: undefined
+        }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+
+        const schedule = {
+            frequency,
+            startDate,
+            endDate: endMode === 'DATE' ? endDate : null,
+            occurrenceCount: endMode === 'COUNT' ? occurrenceCount : null
+        };
+
+        try {
+            setLoading(true);
+            setError('');
+
+            if (initialRule) {
+                await services.recurring.updateRule(initialRule.id, {template, ...schedule}, user.uid);
+            } else {
+                await services.recurring.createRule(user.uid, {
+                    kind: kind === 'TRANSFER' ? 'TRANSFER' : 'TRANSACTION',
+                    template,
+                    ...schedule
+                });
+            }
+
+            notifications.show({
+                title: 'Success',
+                message: initialRule ? 'Recurring series updated successfully' : 'Recurring transaction created successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            await onSuccessAction();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const accountOptions = accounts.map(account => ({
+        value: account.id,
+        label: account.name
+    }));
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <Stack gap="md">
+                {error && (
+                    <Alert
+                        icon={<IconAlertCircle size={16}/>}
+                        color="red"
+                        title="Error"
+                        onClose={() => setError('')}
+                        withCloseButton
+                    >
+                        {error}
+                    </Alert>
+                )}
+
+                <SegmentedControl
+                    value={kind}
+                    onChange={handleKindChange}
+                    disabled={!!initialRule}
+                    data={[
+                        {label: 'Expense', value: 'NEGATIVE'},
+                        {label: 'Income', value: 'POSITIVE'},
+                        {label: 'Transfer', value: 'TRANSFER'}
+                    ]}
+                />
+
+                <Select
+                    label={kind === 'TRANSFER' ? 'From Account' : 'Account'}
+                    placeholder="Select account"
+                    data={accountOptions}
+                    value={template.accountId}
+                    onChange={(value) => value && setTemplate({
+                        ...template,
+                        accountId: value,
+                        amount: withCurrency(
+                            template.amount,
+                            accounts.find(a => a.id === value)?.currency || template.amount.currency
+                        )
+                    })}
+                    required
+                    renderOption={renderAccountOption}
+                />
+
+                {kind === 'TRANSFER' && (
+                    <Select
+                        label="To Account"
+                        placeholder="Select destination account"
+                        data={accountOptions.map(option => ({
+                            ...option,
+                            disabled: option.value === template.accountId
+                        }))}
+                        value={template.toAccountId || null}
+                        onChange={(value) => value && setTemplate({...template, toAccountId: value})}
+                        required
+                        renderOption={renderAccountOption}
+                    />
+                )}
+
+                <NumberInput
+                    label={`Amount (${template.amount.currency})`}
+                    placeholder="Enter amount"
+                    value={toMajor(template.amount)}
+                    onChange={(value) => setTemplate({
+                        ...template,
+                        amount: fromMajor(typeof value === 'number' ? value : 0, template.amount.currency)
+                    })}
+                    required
+                    min={0}
+                    decimalScale={2}
+                    fixedDecimalScale
+                />
+
+                {kind !== 'TRANSFER' && (
+                    <Select
+                        label="Category"
+                        placeholder="Select category"
+                        data={categories.map(category => ({
+                            value: category.name,
+                            label: category.name
+                        }))}
+                        value={template.category || null}
+                        onChange={(value) => value && setTemplate({...template, category: value})}
+                        required
+                    />
+                )}
+
+                <TextInput
+                    label={kind === 'TRANSFER' ? 'Description (Optional)' : 'Description'}
+                    placeholder="e.g. Rent, Salary, Netflix"
+                    value={template.description}
+                    onChange={(e) => setTemplate({...template, description: e.target.value})}
+                    required={kind !== 'TRANSFER'}
+                />
+
+                {kind !== 'TRANSFER' && (
+                    <TextInput
+                        label="Party Name (Optional)"
+                        placeholder="Enter party name"
+                        value={template.partyName || ''}
+                        onChange={(e) => setTemplate({...template, partyName: e.target.value})}
+                    />
+                )}
+
+                <Select
+                    label="Repeats"
+                    data={[
+                        {value: 'DAILY', label: 'Daily'},
+                        {value: 'WEEKLY', label: 'Weekly'},
+                        {value: 'BIWEEKLY', label: 'Every 2 weeks'},
+                        {value: 'MONTHLY', label: 'Monthly'},
+                        {value: 'YEARLY', label: 'Yearly'}
+                    ]}
+                    value={frequency}
+                    onChange={(value) => value && setFrequency(value as RecurrenceFrequency)}
+                    required
+                />
+
+                <DatePickerInput
+                    label="Starts On"
+                    placeholder="Pick date"
+                    value={startDate}
+                    onChange={(date) => setStartDate(date || new Date())}
+                    required
+                />
+
+                <SegmentedControl
+                    value={endMode}
+                    onChange={(value) => setEndMode(value as EndMode)}
+                    data={[
+                        {label: 'No end', value: 'NEVER'},
+                        {label: 'End date', value: 'DATE'},
+                        {label: 'Occurrences', value: 'COUNT'}
+                    ]}
+                />
+
+                {endMode === 'DATE' && (
+                    <DatePickerInput
+                        label="Ends On"
+                        placeholder="Pick end date"
+                        value={endDate}
+                        onChange={setEndDate}
+                        minDate={startDate}
+                        required
+                    />
+                )}
+
+                {endMode === 'COUNT' && (
+                    <NumberInput
+                        label="Number of Occurrences"
+                        value={occurrenceCount}
+                        onChange={(value) => setOccurrenceCount(typeof value === 'number' ? value : 1)}
+                        min={1}
+                        allowDecimal={false}
+                        required
+                    />
+                )}
+
+                <Group justify="space-between" mt="md">
+                    <Button
+                        variant="light"
+                        onClick={onCancelAction}
+                        disabled={loading}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        loading={loading}
+                    >
+                        {initialRule ? 'Update Series' : 'Create Recurring'}
+                    </Button>
+                </Group>
+            </Stack>
+        </form>
+    );
+}
\ No newline at end of file
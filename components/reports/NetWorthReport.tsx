@@ -0,0 +1,124 @@
+'use client';
+
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {Alert, Group, Paper, Stack, Text, Title} from '@mantine/core';
+import {BarChart, LineChart} from '@mantine/charts';
+import {IconAlertCircle} from '@tabler/icons-react';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency} from '@/lib/utils';
+import {toMajor} from '@/lib/money';
+import {getAccountDisplayName} from '@/lib/accounts';
+import {Account, NetWorthPoint} from '@/types/accounts';
+
+const formatMonth = (date: Date) => date.toLocaleDateString('en-US', {month: 'short', year: 'numeric'});
+
+export default function NetWorthReport() {
+    const {user} = useAuth();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [points, setPoints] = useState<NetWorthPoint[]>([]);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+
+    const loadHistory = useCallback(async () => {
+        if (!user) return;
+
+        try {
+            const history = await services.stats.getNetWorthHistory(user.uid);
+            setAccounts(history.accounts);
+            setPoints(history.points);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadHistory();
+    }, [loadHistory]);
+
+    const netWorthData = useMemo(() => points.map(point => ({
+        month: formatMonth(point.date),
+        'Net worth': toMajor(point.netWorth),
+        Assets: toMajor(point.assets),
+        Liabilities: toMajor(point.liabilities)
+    })), [points]);
+
+    // liability balances are below zero, so they stack downwards from the assets
+    const accountData = useMemo(() => points.map(point => {
+        const row: Record<string, string | number> = {month: formatMonth(point.date)};
+        Object.keys(point.byAccount).forEach(accountId => {
+            row[accountId] = toMajor(point.byAccount[accountId]);
+        });
+        return row;
+    }), [points]);
+
+    const accountSeries = accounts
+        .filter(account => points.some(point => point.byAccount[account.id]))
+        .map(account => ({
+            name: account.id,
+            label: getAccountDisplayName(account),
+            color: account.color
+        }));
+
+    const latest = points[points.length - 1];
+
+    return (
+        <Paper withBorder p="md" radius="md">
+            <Stack gap="md">
+                <Group justify="space-between" align="flex-end">
+                    <div>
+                        <Title order={4}>Net worth</Title>
+                        <Text size="sm" c="dimmed">
+                            Assets minus credit card and loan balances at each month end, in your base currency.
+                            Archived accounts count for the months they were open.
+                        </Text>
+                    </div>
+                    {latest && (
+                        <Text size="xl" fw={700}>{formatCurrency(latest.netWorth)}</Text>
+                    )}
+                </Group>
+
+                {error && (
+                    <Alert icon={<IconAlertCircle size={16}/>} color="red" title="Error">
+                        {error}
+                    </Alert>
+                )}
+
+                {loading ? (
+                    <Text size="sm" c="dimmed">Loading...</Text>
+                ) : points.length === 0 ? (
+                    <Text size="sm" c="dimmed">No transactions yet.</Text>
+                ) : (
+                    <>
+                        <LineChart
+                            h={260}
+                            data={netWorthData}
+                            dataKey="month"
+                            series={[
+                                {name: 'Net worth', color: 'indigo.6'},
+                                {name: 'Assets', color: 'teal.6'},
+                                {name: 'Liabilities', color: 'red.6'}
+                            ]}
+                            curveType="monotone"
+                            withLegend
+                        />
+                        <Title order={5}>By account</Title>
+                        <BarChart
+                            h={260}
+                            data={accountData}
+                            dataKey="month"
+                            type="stacked"
+                            series={accountSeries}
+                            withLegend
+                        />
+                    </>
+                )}
+            </Stack>
+        </Paper>
+    );
+}
\ No newline at end of file
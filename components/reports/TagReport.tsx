@@ -0,0 +1,111 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+import {Alert, Group, Paper, Stack, Table, Text, Title} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle} from '@tabler/icons-react';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency} from '@/lib/utils';
+import {subtractMoney} from '@/lib/money';
+import {Money} from '@/types/money';
+
+export default function TagReport() {
+    const {user} = useAuth();
+    const [dateRange, setDateRange] = useState<[Date | null, Date | null]>(() => {
+        const now = new Date();
+        return [new Date(now.getFullYear(), 0, 1), now];
+    });
+    const [totals, setTotals] = useState<Record<string, { income: Money; expenses: Money; }>>({});
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const loadTotals = useCallback(async () => {
+        const [start, end] = dateRange;
+        if (!user || !start || !end) return;
+
+        try {
+            setLoading(true);
+            setError('');
+            const endOfDay = new Date(end.getFullYear(), end.getMonth(), end.getDate(), 23, 59, 59, 999);
+            setTotals(await services.stats.getTotalsByTag(user.uid, start, endOfDay));
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [user, dateRange]);
+
+    useEffect(() => {
+        loadTotals();
+    }, [loadTotals]);
+
+    const tags = Object.keys(totals).sort();
+
+    return (
+        <Paper withBorder p="md" radius="md">
+            <Stack gap="md">
+                <Group justify="space-between" align="flex-end">
+                    <div>
+                        <Title order={4}>Totals by tag</Title>
+                        <Text size="sm" c="dimmed">
+                            A transaction with several tags counts under each of them. Transfers are left out.
+                        </Text>
+                    </div>
+                    <DatePickerInput
+                        type="range"
+                        placeholder="Pick date range"
+                        value={dateRange}
+                        onChange={setDateRange}
+                        w={260}
+                    />
+                </Group>
+
+                {error && (
+                    <Alert
+                        icon={<IconAlertCircle size={16}/>}
+                        color="red"
+                        title="Error"
+                        onClose={() => setError('')}
+                        withCloseButton
+                    >
+                        {error}
+                    </Alert>
+                )}
+
+                {tags.length === 0 ? (
+                    <Text size="sm" c="dimmed">
+                        {loading ? 'Loading...' : 'No tagged transactions in this period.'}
+                    </Text>
+                ) : (
+                    <Table>
+                        <Table.Thead>
+                            <Table.Tr>
+                                <Table.Th>Tag</Table.Th>
+                                <Table.Th>Income</Table.Th>
+                                <Table.Th>Expenses</Table.Th>
+                                <Table.Th>Net</Table.Th>
+                            </Table.Tr>
+                        </Table.Thead>
+                        <Table.Tbody>
+                            {tags.map(tag => {
+                                const net = subtractMoney(totals[tag].income, totals[tag].expenses);
+                                return (
+                                    <Table.Tr key={tag}>
+                                        <Table.Td>{tag}</Table.Td>
+                                        <Table.Td c="green">{formatCurrency(totals[tag].income)}</Table.Td>
+                                        <Table.Td c="red">{formatCurrency(totals[tag].expenses)}</Table.Td>
+                                        <Table.Td c={net.amount < 0 ? 'red' : undefined}>{formatCurrency(net)}</Table.Td>
+                                    </Table.Tr>
+                                );
+                            })}
+                        </Table.Tbody>
+                    </Table>
+                )}
+            </Stack>
+        </Paper>
+    );
+}
\ No newline at end of file
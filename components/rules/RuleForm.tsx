@@ -0,0 +1,294 @@
+import {useCallback, useEffect, useState} from 'react';
+import {
+    Alert,
+    Button,
+    Checkbox,
+    ColorSwatch,
+    Divider,
+    Group,
+    NumberInput,
+    Select,
+    SelectProps,
+    Stack,
+    TagsInput,
+    Text,
+    TextInput
+} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconX} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {Account} from '@/types/accounts';
+import {TransactionCategory} from '@/types/transactions';
+import {CategorizationRule, CreateRuleDTO} from '@/types/rules';
+import {CURRENCIES, DEFAULT_CURRENCY, fromMajor, toMajor} from '@/lib/money';
+import {normalizeTags} from '@/lib/tags';
+
+const ANY = '__any__';
+
+export interface RuleFormProps {
+    initialRule?: CategorizationRule;
+    onSuccessAction: () => Promise<void>;
+    onCancelAction: () => void;
+}
+
+export default function RuleForm({initialRule, onSuccessAction, onCancelAction}: RuleFormProps) {
+    const {user} = useAuth();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [categories, setCategories] = useState<TransactionCategory[]>([]);
+    const [knownTags, setKnownTags] = useState<string[]>([]);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const [formData, setFormData] = useState<CreateRuleDTO>(initialRule ? {
+        name: initialRule.name,
+        enabled: initialRule.enabled,
+        conditions: initialRule.conditions,
+        actions: initialRule.actions
+    } : {
+        name: '',
+        enabled: true,
+        conditions: {descriptionContains: '', minAmount: null, maxAmount: null, accountId: null, type: null},
+        actions: {category: null, tags: [], partyName: '', requiresPayback: false}
+    });
+    // both amount bounds share one currency
+    const [amountCurrency, setAmountCurrency] = useState(
+        initialRule?.conditions.minAmount?.currency || initialRule?.conditions.maxAmount?.currency || DEFAULT_CURRENCY
+    );
+
+    const {conditions, actions} = formData;
+
+    const loadData = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [accountsData, categoriesData, tagsData] = await Promise.all([
+                services.accounts.getAccountsByUser(user.uid),
+                services.categories.getCategories(),
+                services.transactions.getTagsByUser(user.uid)
+            ]);
+            setAccounts(accountsData);
+            setCategories(categoriesData.filter(category => category.type !== 'SELFTRANSFER'));
+            setKnownTags(tagsData);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load form data',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const setConditions = (changes: Partial<CreateRuleDTO['conditions']>) =>
+        setFormData(prev => ({...prev, conditions: {...prev.conditions, ...changes}}));
+
+    const setActions = (changes: Partial<CreateRuleDTO['actions']>) =>
+        setFormData(prev => ({...prev, actions: {...prev.actions, ...changes}}));
+
+    const handleAccountChange = (value: string | null) => {
+        const account = accounts.find(a => a.id === value);
+        setConditions({accountId: account?.id || null});
+        if (account) handleCurrencyChange(account.currency);
+    };
+
+    const handleCurrencyChange = (currency: string) => {
+        setAmountCurrency(currency);
+        setConditions({
+            minAmount: conditions.minAmount && {...conditions.minAmount, currency},
+            maxAmount: conditions.maxAmount && {...conditions.maxAmount, currency}
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            setError('');
+
+            if (initialRule) {
+                await services.rules.updateRule(initialRule.id, formData, user.uid);
+            } else {
+                await services.rules.createRule(user.uid, formData);
+            }
+
+            notifications.show({
+                title: 'Success',
+                message: initialRule ? 'Rule updated successfully' : 'Rule created successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            await onSuccessAction();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const renderCategoryOption: SelectProps['renderOption'] = ({option}) => (
+        <Group flex="1" gap="xs">
+            <ColorSwatch color={categories.find(c => c.name === option.value)?.color || '#868e96'} size={13}/>
+            {option.label}
+        </Group>
+    );
+
+    const toAmount = (value: string | number) =>
+        typeof value === 'number' ? fromMajor(value, amountCurrency) : null;
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <Stack gap="md">
+                {error && (
+                    <Alert
+                        icon={<IconAlertCircle size={16}/>}
+                        color="red"
+                        title="Error"
+                        onClose={() => setError('')}
+                        withCloseButton
+                    >
+                        {error}
+                    </Alert>
+                )}
+
+                <TextInput
+                    label="Name"
+                    placeholder="e.g. Groceries at Safeway"
+                    value={formData.name}
+                    onChange={(e) => setFormData({...formData, name: e.target.value})}
+                    required
+                />
+
+                <Divider label="When a transaction matches" labelPosition="left"/>
+
+                <TextInput
+                    label="Description contains"
+                    description="Also matched against the party name, case doesn't matter"
+                    value={conditions.descriptionContains || ''}
+                    onChange={(e) => setConditions({descriptionContains: e.target.value})}
+                />
+
+                <Group grow>
+                    <Select
+                        label="Type"
+                        data={[
+                            {value: ANY, label: 'Any'},
+                            {value: 'NEGATIVE', label: 'Expense'},
+                            {value: 'POSITIVE', label: 'Income'}
+                        ]}
+                        value={conditions.type || ANY}
+                        onChange={(value) => setConditions({
+                            type: value === 'POSITIVE' || value === 'NEGATIVE' ? value : null
+                        })}
+                        allowDeselect={false}
+                    />
+                    <Select
+                        label="Account"
+                        data={[
+                            {value: ANY, label: 'Any account'},
+                            ...accounts.map(account => ({value: account.id, label: account.name}))
+                        ]}
+                        value={conditions.accountId || ANY}
+                        onChange={handleAccountChange}
+                        allowDeselect={false}
+                    />
+                </Group>
+
+                <Group grow align="flex-end">
+                    <NumberInput
+                        label="Amount from"
+                        placeholder="No minimum"
+                        value={conditions.minAmount ? toMajor(conditions.minAmount) : ''}
+                        onChange={(value) => setConditions({minAmount: toAmount(value)})}
+                        min={0}
+                        decimalScale={2}
+                    />
+                    <NumberInput
+                        label="Amount to"
+                        placeholder="No maximum"
+                        value={conditions.maxAmount ? toMajor(conditions.maxAmount) : ''}
+                        onChange={(value) => setConditions({maxAmount: toAmount(value)})}
+                        min={0}
+                        decimalScale={2}
+                    />
+                    <Select
+                        label="Currency"
+                        data={CURRENCIES}
+                        value={amountCurrency}
+                        onChange={(value) => value && handleCurrencyChange(value)}
+                        disabled={!!conditions.accountId}
+                        allowDeselect={false}
+                    />
+                </Group>
+
+                <Divider label="Then" labelPosition="left"/>
+
+                <Select
+                    label="Set category"
+                    placeholder="Leave unchanged"
+                    data={categories.map(category => ({value: category.name, label: category.name}))}
+                    value={actions.category}
+                    onChange={(value) => setActions({category: value})}
+                    renderOption={renderCategoryOption}
+                    searchable
+                    clearable
+                />
+
+                <TextInput
+                    label="Set party"
+                    placeholder="Leave unchanged"
+                    value={actions.partyName || ''}
+                    onChange={(e) => setActions({partyName: e.target.value})}
+                />
+
+                <TagsInput
+                    label="Add tags"
+                    placeholder="Type a tag and press Enter"
+                    data={knownTags}
+                    value={actions.tags}
+                    onChange={(tags) => setActions({tags: normalizeTags(tags)})}
+                    clearable
+                />
+
+                <Checkbox
+                    label="Mark as requiring payback"
+                    checked={actions.requiresPayback}
+                    onChange={(e) => setActions({requiresPayback: e.currentTarget.checked})}
+                />
+
+                <Text size="xs" c="dimmed">
+                    A category or party you set yourself is kept. Tags are added to the ones already there.
+                </Text>
+
+                <Group justify="space-between" mt="md">
+                    <Button
+                        variant="light"
+                        onClick={onCancelAction}
+                        disabled={loading}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        loading={loading}
+                    >
+                        {initialRule ? 'Update Rule' : 'Create Rule'}
+                    </Button>
+                </Group>
+            </Stack>
+        </form>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,391 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+import {
+    ActionIcon,
+    Alert,
+    Badge,
+    Button,
+    Group,
+    Modal,
+    Paper,
+    Stack,
+    Switch,
+    Table,
+    Text,
+    Title
+} from '@mantine/core';
+import {
+    IconAlertCircle,
+    IconArrowDown,
+    IconArrowUp,
+    IconCheck,
+    IconEdit,
+    IconPlus,
+    IconTrash,
+    IconX
+} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {AppError} from '@/lib/errors';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {Account} from '@/types/accounts';
+import {CategorizationRule, RuleChange} from '@/types/rules';
+import RuleForm from './RuleForm';
+
+export default function RuleManager() {
+    const {user} = useAuth();
+    const [rules, setRules] = useState<CategorizationRule[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [selectedRule, setSelectedRule] = useState<CategorizationRule | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [overwrite, setOverwrite] = useState(false);
+    const [preview, setPreview] = useState<RuleChange[] | null>(null);
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+
+    const loadRules = useCallback(async () => {
+        try {
+            if (!user) return;
+            const [rulesData, accountsData] = await Promise.all([
+                services.rules.getRulesByUser(user.uid),
+                services.accounts.getAccountsByUser(user.uid)
+            ]);
+            setRules(rulesData);
+            setAccounts(accountsData);
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to load rules',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadRules();
+    }, [loadRules]);
+
+    // an edited rule makes the last preview stale
+    const handleRulesChanged = async () => {
+        setPreview(null);
+        await loadRules();
+    };
+
+    const handleToggle = async (rule: CategorizationRule, enabled: boolean) => {
+        if (!user) return;
+
+        try {
+            await services.rules.updateRule(rule.id, {enabled}, user.uid);
+            await handleRulesChanged();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleMove = async (rule: CategorizationRule, direction: 'UP' | 'DOWN') => {
+        if (!user) return;
+
+        try {
+            await services.rules.moveRule(rule.id, direction, user.uid);
+            await handleRulesChanged();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    };
+
+    const handleDelete = async (rule: CategorizationRule) => {
+        if (!user || !window.confirm(`Delete the rule "${rule.name}"?`)) return;
+
+        try {
+            await services.rules.deleteRule(rule.id, user.uid);
+            await handleRulesChanged();
+            notifications.show({
+                title: 'Success',
+                message: 'Rule deleted successfully',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+                notifications.show({
+                    title: 'Error',
+                    message: 'Failed to delete rule',
+                    color: 'LightSalmon',
+                    icon: <IconX size={16}/>,
+                    autoClose: 3000,
+                });
+            }
+        }
+    };
+
+    const handlePreview = async () => {
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            setError('');
+            setPreview(await services.rules.previewRerun(user.uid, overwrite));
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!user || !preview) return;
+
+        try {
+            setLoading(true);
+            const updated = await services.rules.applyRerun(user.uid, preview);
+            setPreview(null);
+            notifications.show({
+                title: 'Success',
+                message: `${updated} transactions updated`,
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCloseModal = () => {
+        setIsModalOpen(false);
+        setSelectedRule(null);
+    };
+
+    const describeConditions = (rule: CategorizationRule) => {
+        const {descriptionContains, minAmount, maxAmount, accountId, type} = rule.conditions;
+        const parts: string[] = [];
+        if (type) parts.push(type === 'POSITIVE' ? 'income' : 'expenses');
+        if (descriptionContains) parts.push(`containing "${descriptionContains}"`);
+        if (minAmount && maxAmount) parts.push(`${formatCurrency(minAmount)} to ${formatCurrency(maxAmount)}`);
+        else if (minAmount) parts.push(`at least ${formatCurrency(minAmount)}`);
+        else if (maxAmount) parts.push(`at most ${formatCurrency(maxAmount)}`);
+        if (accountId) parts.push(`in ${accounts.find(a => a.id === accountId)?.name || 'a deleted account'}`);
+        return parts.join(', ');
+    };
+
+    const describeActions = (rule: CategorizationRule) => {
+        const {category, partyName, tags, requiresPayback} = rule.actions;
+        const parts: string[] = [];
+        if (category) parts.push(`category ${category}`);
+        if (partyName) parts.push(`party ${partyName}`);
+        if (tags.length) parts.push(`tags ${tags.join(', ')}`);
+        if (requiresPayback) parts.push('requires payback');
+        return parts.join(', ');
+    };
+
+    return (
+        <Stack gap="md">
+            {error && (
+                <Alert
+                    icon={<IconAlertCircle size={16}/>}
+                    color="red"
+                    title="Error"
+                    onClose={() => setError('')}
+                    withCloseButton
+                >
+                    {error}
+                </Alert>
+            )}
+
+            <Group justify="space-between" align="center">
+                <div>
+                    <Text size="lg" fw={500}>Categorization Rules</Text>
+                    <Text size="sm" c="dimmed">
+                        Applied to new and imported transactions from the top down. The first rule to set a field
+                        wins
+                    </Text>
+                </div>
+                <Button
+                    leftSection={<IconPlus size={16}/>}
+                    onClick={() => setIsModalOpen(true)}
+                >
+                    Add Rule
+                </Button>
+            </Group>
+
+            <Stack gap="sm">
+                {rules.map((rule, index) => (
+                    <Paper key={rule.id} withBorder p="md" radius="md">
+                        <Group justify="space-between" wrap="nowrap">
+                            <div>
+                                <Group gap="xs">
+                                    <Text fw={500} c={rule.enabled ? undefined : 'dimmed'}>{rule.name}</Text>
+                                    {!rule.enabled && <Badge variant="light" color="gray">Disabled</Badge>}
+                                </Group>
+                                <Text size="sm" c="dimmed">When {describeConditions(rule)}</Text>
+                                <Text size="sm" c="dimmed">Set {describeActions(rule)}</Text>
+                            </div>
+                            <Group gap="xs" wrap="nowrap">
+                                <Switch
+                                    checked={rule.enabled}
+                                    onChange={(e) => handleToggle(rule, e.currentTarget.checked)}
+                                    aria-label="Enabled"
+                                />
+                                <ActionIcon
+                                    variant="light"
+                                    onClick={() => handleMove(rule, 'UP')}
+                                    disabled={index === 0}
+                                    aria-label="Move up"
+                                >
+                                    <IconArrowUp size={16}/>
+                                </ActionIcon>
+                                <ActionIcon
+                                    variant="light"
+                                    onClick={() => handleMove(rule, 'DOWN')}
+                                    disabled={index === rules.length - 1}
+                                    aria-label="Move down"
+                                >
+                                    <IconArrowDown size={16}/>
+                                </ActionIcon>
+                                <ActionIcon
+                                    variant="light"
+                                    color="blue"
+                                    onClick={() => {
+                                        setSelectedRule(rule);
+                                        setIsModalOpen(true);
+                                    }}
+                                    aria-label="Edit rule"
+                                >
+                                    <IconEdit size={16}/>
+                                </ActionIcon>
+                                <ActionIcon
+                                    variant="light"
+                                    color="red"
+                                    onClick={() => handleDelete(rule)}
+                                    aria-label="Delete rule"
+                                >
+                                    <IconTrash size={16}/>
+                                </ActionIcon>
+                            </Group>
+                        </Group>
+                    </Paper>
+                ))}
+
+                {rules.length === 0 && (
+                    <Text c="dimmed" ta="center" py="xl">
+                        No rules yet. Add one to categorize matching transactions automatically.
+                    </Text>
+                )}
+            </Stack>
+
+            {rules.length > 0 && (
+                <Paper withBorder p="md" radius="md">
+                    <Stack gap="md">
+                        <Title order={4}>Re-run on existing transactions</Title>
+                        <Group justify="space-between">
+                            <Switch
+                                label="Replace categories and parties that are already set"
+                                checked={overwrite}
+                                onChange={(e) => {
+                                    setOverwrite(e.currentTarget.checked);
+                                    setPreview(null);
+                                }}
+                            />
+                            <Button variant="light" onClick={handlePreview} loading={loading && !preview}>
+                                Preview Changes
+                            </Button>
+                        </Group>
+
+                        {preview && preview.length === 0 && (
+                            <Text size="sm" c="dimmed">No transactions would change.</Text>
+                        )}
+
+                        {preview && preview.length > 0 && (
+                            <>
+                                <Table>
+                                    <Table.Thead>
+                                        <Table.Tr>
+                                            <Table.Th>Date</Table.Th>
+                                            <Table.Th>Description</Table.Th>
+                                            <Table.Th>Changes</Table.Th>
+                                            <Table.Th>Rules</Table.Th>
+                                        </Table.Tr>
+                                    </Table.Thead>
+                                    <Table.Tbody>
+                                        {preview.map(change => (
+                                            <Table.Tr key={change.transaction.id}>
+                                                <Table.Td>{formatDate(change.transaction.createdAt)}</Table.Td>
+                                                <Table.Td>{change.transaction.description}</Table.Td>
+                                                <Table.Td>
+                                                    <Stack gap={2}>
+                                                        {change.category && (
+                                                            <Text size="sm">
+                                                                {change.transaction.category} → {change.category}
+                                                            </Text>
+                                                        )}
+                                                        {change.partyName && (
+                                                            <Text size="sm">
+                                                                {change.transaction.partyName || 'No party'} → {change.partyName}
+                                                            </Text>
+                                                        )}
+                                                        {change.addedTags.length > 0 && (
+                                                            <Text size="sm">+ {change.addedTags.join(', ')}</Text>
+                                                        )}
+                                                        {change.requiresPayback && (
+                                                            <Text size="sm">Requires payback</Text>
+                                                        )}
+                                                    </Stack>
+                                                </Table.Td>
+                                                <Table.Td>
+                                                    <Text size="sm" c="dimmed">{change.ruleNames.join(', ')}</Text>
+                                                </Table.Td>
+                                            </Table.Tr>
+                                        ))}
+                                    </Table.Tbody>
+                                </Table>
+                                <Group justify="flex-end">
+                                    <Button variant="light" onClick={() => setPreview(null)} disabled={loading}>
+                                        Cancel
+                                    </Button>
+                                    <Button onClick={handleApply} loading={loading}>
+                                        Apply to {preview.length} transactions
+                                    </Button>
+                                </Group>
+                            </>
+                        )}
+                    </Stack>
+                </Paper>
+            )}
+
+            <Modal
+                opened={isModalOpen}
+                onClose={handleCloseModal}
+                title={selectedRule ? 'Edit Rule' : 'Create Rule'}
+                size="lg"
+            >
+                <RuleForm
+                    initialRule={selectedRule || undefined}
+                    onSuccessAction={async () => {
+                        handleCloseModal();
+                        await handleRulesChanged();
+                    }}
+                    onCancelAction={handleCloseModal}
+                />
+            </Modal>
+        </Stack>
+    );
+}
\ No newline at end of file
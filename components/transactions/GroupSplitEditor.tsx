@@ -0,0 +1,144 @@
+import {ActionIcon, Autocomplete, Button, Group, NumberInput, SegmentedControl, Stack, Text, TextInput} from '@mantine/core';
+import {IconPlus, IconTrash, IconUser} from '@tabler/icons-react';
+import {Money} from '@/types/money';
+import {GroupSplitMode, GroupSplitParticipant} from '@/types/transactions';
+import {formatCurrency} from '@/lib/utils';
+import {fromMajor, negateMoney, toMajor, zeroMoney} from '@/lib/money';
+import {getGroupShares, getUnassigned, GROUP_SPLIT_MODES} from '@/lib/groupSplits';
+
+export interface GroupSplitEditorProps {
+    mode: GroupSplitMode;
+    participants: GroupSplitParticipant[];
+    total: Money;
+    // known people, for autocomplete
+    partyNames: string[];
+    onModeChange: (mode: GroupSplitMode) => void;
+    onChange: (participants: GroupSplitParticipant[]) => void;
+}
+
+export default function GroupSplitEditor({
+                                             mode,
+                                             participants,
+                                             total,
+                                             partyNames,
+                                             onModeChange,
+                                             onChange
+                                         }: GroupSplitEditorProps) {
+    const includesUser = participants.some(p => p.partyName === null);
+
+    // shares can't be worked out while every weight is zero
+    let shares: Money[] = [];
+    try {
+        shares = getGroupShares(total, mode, participants);
+    } catch (error) {
+        shares = participants.map(() => zeroMoney(total.currency));
+    }
+    const unassigned = getUnassigned(total, participants);
+
+    const updateParticipant = (index: number, changes: Partial<GroupSplitParticipant>) => {
+        onChange(participants.map((p, i) => i === index ? {...p, ...changes} : p));
+    };
+
+    const addParticipant = (partyName: string | null) => {
+        onChange([...participants, {
+            partyName,
+            shares: 1,
+            amount: unassigned.amount > 0 ? unassigned : zeroMoney(total.currency)
+        }]);
+    };
+
+    return (
+        <Stack gap="xs">
+            <SegmentedControl
+                data={GROUP_SPLIT_MODES}
+                value={mode}
+                onChange={(value) => onModeChange(value as GroupSplitMode)}
+            />
+
+            {participants.map((participant, index) => (
+                <Group key={index} gap="xs" align="flex-end" wrap="nowrap">
+                    {participant.partyName === null ? (
+                        <TextInput
+                            label={index === 0 ? 'Person' : undefined}
+                            value="You"
+                            leftSection={<IconUser size={14}/>}
+                            readOnly
+                            style={{flex: 2}}
+                        />
+                    ) : (
+                        <Autocomplete
+                            label={index === 0 ? 'Person' : undefined}
+                            placeholder="Name"
+                            data={partyNames}
+                            value={participant.partyName}
+                            onChange={(partyName) => updateParticipant(index, {partyName})}
+                            required
+                            style={{flex: 2}}
+                        />
+                    )}
+                    {mode === 'SHARES' && (
+                        <NumberInput
+                            label={index === 0 ? 'Shares' : undefined}
+                            value={participant.shares}
+                            onChange={(value) => updateParticipant(index, {shares: typeof value === 'number' ? value : 0})}
+                            min={0}
+                            decimalScale={2}
+                            required
+                            style={{flex: 1}}
+                        />
+                    )}
+                    {mode === 'EXACT' ? (
+                        <NumberInput
+                            label={index === 0 ? 'Amount' : undefined}
+                            value={toMajor(participant.amount)}
+                            onChange={(value) => updateParticipant(index, {
+                                amount: fromMajor(typeof value === 'number' ? value : 0, total.currency)
+                            })}
+                            min={0}
+                            decimalScale={2}
+                            fixedDecimalScale
+                            required
+                            style={{flex: 1}}
+                        />
+                    ) : (
+                        <Text size="sm" w={90} ta="right" pb={8}>
+                            {formatCurrency(shares[index])}
+                        </Text>
+                    )}
+                    <ActionIcon
+                        variant="light"
+                        color="red"
+                        size="lg"
+                        onClick={() => onChange(participants.filter((_, i) => i !== index))}
+                        disabled={participants.length <= 2}
+                        aria-label="Remove person"
+                    >
+                        <IconTrash size={16}/>
+                    </ActionIcon>
+                </Group>
+            ))}
+
+            <Group justify="space-between">
+                <Group gap="xs">
+                    <Button variant="subtle" size="xs" leftSection={<IconPlus size={14}/>} onClick={() => addParticipant('')}>
+                        Add person
+                    </Button>
+                    {!includesUser && (
+                        <Button variant="subtle" size="xs" leftSection={<IconUser size={14}/>} onClick={() => addParticipant(null)}>
+                            Add yourself
+                        </Button>
+                    )}
+                </Group>
+                {mode === 'EXACT' && (
+                    <Text size="sm" c={unassigned.amount === 0 ? 'dimmed' : 'red'}>
+                        {unassigned.amount === 0
+                            ? 'Fully assigned'
+                            : unassigned.amount > 0
+                                ? `${formatCurrency(unassigned)} left to assign`
+                                : `${formatCurrency(negateMoney(unassigned))} over the total`}
+                    </Text>
+                )}
+            </Group>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import {useState} from 'react';
+import {Alert, Button, Group, NumberInput, Select, Stack, Text, TextInput} from '@mantine/core';
+import {DatePickerInput} from '@mantine/dates';
+import {IconAlertCircle, IconCheck} from '@tabler/icons-react';
+import {notifications} from '@mantine/notifications';
+import {services} from '@/lib/services';
+import {Account} from '@/types/accounts';
+import {Transaction} from '@/types/transactions';
+import {AppError} from '@/lib/errors';
+import {useAuth} from '@/lib/hooks/useAuth';
+import {formatCurrency} from '@/lib/utils';
+import {fromMajor, toMajor, withCurrency} from '@/lib/money';
+import {getRemainingPayback} from '@/lib/paybacks';
+import {Money} from '@/types/money';
+
+export interface RepaymentFormProps {
+    payback: Transaction;
+    // active accounts to pick from
+    accounts: Account[];
+    onSuccessAction: () => Promise<void>;
+    onCancelAction: () => void;
+}
+
+export default function RepaymentForm({payback, accounts, onSuccessAction, onCancelAction}: RepaymentFormProps) {
+    const {user} = useAuth();
+    const remaining = getRemainingPayback(payback);
+    const defaultAccount = accounts.find(a => a.id === payback.accountId) || accounts[0];
+
+    const [error, setError] = useState<string>('');
+    const [loading, setLoading] = useState(false);
+    const [formData, setFormData] = useState<{
+        accountId: string;
+        amount: Money;
+        transactionDate: Date;
+        description: string;
+    }>({
+        accountId: defaultAccount?.id || '',
+        amount: withCurrency(remaining, defaultAccount?.currency || remaining.currency),
+        transactionDate: new Date(),
+        description: ''
+    });
+
+    const owesUser = payback.type === 'NEGATIVE';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            setError('');
+
+            await services.transactions.createRepayment(user.uid, {
+                paybackId: payback.id,
+                accountId: formData.accountId,
+                amount: formData.amount,
+                transactionDate: formData.transactionDate,
+                description: formData.description || undefined
+            });
+
+            notifications.show({
+                title: 'Success',
+                message: 'Repayment recorded',
+                color: 'LightSeaGreen',
+                icon: <IconCheck size={16}/>,
+                autoClose: 3000,
+            });
+            await onSuccessAction();
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <Stack gap="md">
+                {error && (
+                    <Alert
+                        icon={<IconAlertCircle size={16}/>}
+                        color="red"
+                        title="Error"
+                        onClose={() => setError('')}
+                        withCloseButton
+                    >
+                        {error}
+                    </Alert>
+                )}
+
+                <Text size="sm" c="dimmed">
+                    {formatCurrency(remaining)} of {formatCurrency(payback.amount)} is still owed
+                    {owesUser ? ' to you' : ''}{payback.partyName ? ` ${owesUser ? 'by' : 'to'} ${payback.partyName}` : ''}.
+                </Text>
+
+                <Select
+                    label={owesUser ? 'Received Into' : 'Paid From'}
+                    data={accounts.map(account => ({value: account.id, label: account.name}))}
+                    value={formData.accountId}
+                    onChange={(value) => value && setFormData({
+                        ...formData,
+                        accountId: value,
+                        amount: withCurrency(
+                            formData.amount,
+                            accounts.find(a => a.id === value)?.currency || formData.amount.currency
+                        )
+                    })}
+                    required
+                />
+
+                <NumberInput
+                    label="Amount"
+                    description={formData.amount.currency !== remaining.currency
+                        ? `In ${formData.amount.currency}, converted to ${remaining.currency} with your exchange rates`
+                        : undefined}
+                    value={toMajor(formData.amount)}
+                    onChange={(value) => setFormData({
+                        ...formData,
+                        amount: fromMajor(typeof value === 'number' ? value : 0, formData.amount.currency)
+                    })}
+                    required
+                    min={0}
+                    decimalScale={2}
+                    fixedDecimalScale
+                />
+
+                <DatePickerInput
+                    label="Date"
+                    value={formData.transactionDate}
+                    onChange={(date) => setFormData({...formData, transactionDate: date || new Date()})}
+                    required
+                />
+
+                <TextInput
+                    label="Description (Optional)"
+                    placeholder="Defaults to the original description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({...formData, description: e.target.value})}
+                />
+
+                <Group justify="space-between" mt="md">
+                    <Button
+                        variant="light"
+                        onClick={onCancelAction}
+                        disabled={loading}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        loading={loading}
+                    >
+                        Record Repayment
+                    </Button>
+                </Group>
+            </Stack>
+        </form>
+    );
+}
\ No newline at end of file
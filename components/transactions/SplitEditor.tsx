@@ -0,0 +1,100 @@
+import {ActionIcon, Button, ColorSwatch, Group, NumberInput, Select, SelectProps, Stack, Text, TextInput} from '@mantine/core';
+import {IconPlus, IconTrash} from '@tabler/icons-react';
+import {Money} from '@/types/money';
+import {TransactionCategory, TransactionSplit} from '@/types/transactions';
+import {formatCurrency} from '@/lib/utils';
+import {fromMajor, negateMoney, subtractMoney, sumMoney, toMajor, zeroMoney} from '@/lib/money';
+
+export interface SplitEditorProps {
+    splits: TransactionSplit[];
+    total: Money;
+    categories: TransactionCategory[];
+    onChange: (splits: TransactionSplit[]) => void;
+}
+
+export default function SplitEditor({splits, total, categories, onChange}: SplitEditorProps) {
+    const remaining = subtractMoney(total, sumMoney(splits.map(split => split.amount), total.currency));
+
+    const renderCategoryOption: SelectProps['renderOption'] = ({option}) => (
+        <Group flex="1" gap="xs">
+            {option.value &&
+                <ColorSwatch color={categories.find(c => c.name === option.value)?.color || '#868e96'} size={13}/>}
+            {option.label}
+        </Group>
+    );
+
+    const updateSplit = (index: number, changes: Partial<TransactionSplit>) => {
+        onChange(splits.map((split, i) => i === index ? {...split, ...changes} : split));
+    };
+
+    // a new line starts with whatever is left to assign
+    const addSplit = () => {
+        onChange([...splits, {
+            category: '',
+            amount: remaining.amount > 0 ? remaining : zeroMoney(total.currency),
+            description: null
+        }]);
+    };
+
+    return (
+        <Stack gap="xs">
+            {splits.map((split, index) => (
+                <Group key={index} gap="xs" align="flex-end" wrap="nowrap">
+                    <Select
+                        label={index === 0 ? 'Category' : undefined}
+                        placeholder="Category"
+                        data={categories.map(category => ({value: category.name, label: category.name}))}
+                        value={split.category || null}
+                        onChange={(value) => value && updateSplit(index, {category: value})}
+                        renderOption={renderCategoryOption}
+                        required
+                        style={{flex: 2}}
+                    />
+                    <NumberInput
+                        label={index === 0 ? 'Amount' : undefined}
+                        placeholder="Amount"
+                        value={toMajor(split.amount)}
+                        onChange={(value) => updateSplit(index, {
+                            amount: fromMajor(typeof value === 'number' ? value : 0, total.currency)
+                        })}
+                        min={0}
+                        decimalScale={2}
+                        fixedDecimalScale
+                        required
+                        style={{flex: 1}}
+                    />
+                    <TextInput
+                        label={index === 0 ? 'Note' : undefined}
+                        placeholder="Optional"
+                        value={split.description || ''}
+                        onChange={(e) => updateSplit(index, {description: e.target.value || null})}
+                        style={{flex: 2}}
+                    />
+                    <ActionIcon
+                        variant="light"
+                        color="red"
+                        size="lg"
+                        onClick={() => onChange(splits.filter((_, i) => i !== index))}
+                        disabled={splits.length <= 2}
+                        aria-label="Remove split line"
+                    >
+                        <IconTrash size={16}/>
+                    </ActionIcon>
+                </Group>
+            ))}
+
+            <Group justify="space-between">
+                <Button variant="subtle" size="xs" leftSection={<IconPlus size={14}/>} onClick={addSplit}>
+                    Add line
+                </Button>
+                <Text size="sm" c={remaining.amount === 0 ? 'dimmed' : 'red'}>
+                    {remaining.amount === 0
+                        ? 'Fully assigned'
+                        : remaining.amount > 0
+                            ? `${formatCurrency(remaining)} left to assign`
+                            : `${formatCurrency(negateMoney(remaining))} over the total`}
+                </Text>
+            </Group>
+        </Stack>
+    );
+}
\ No newline at end of file
@@ -1,14 +1,19 @@
 import React, {useCallback, useEffect, useState} from 'react';
-import {ActionIcon, Alert, Button, ColorSwatch, Group, Modal, Paper, Stack, Text} from '@mantine/core';
-import {IconAlertCircle, IconCheck, IconTrash, IconX} from '@tabler/icons-react';
+import {ActionIcon, Alert, Anchor, Badge, Button, ColorSwatch, Group, Modal, Paper, Stack, Text} from '@mantine/core';
+import {IconAlertCircle, IconCheck, IconLock, IconTrash, IconX} from '@tabler/icons-react';
 import {notifications} from '@mantine/notifications';
+import Link from 'next/link';
 import {services} from '@/lib/services';
 import {CreateTransactionDTO, Transaction, TransactionCategory, UpdateTransactionDTO} from '@/types/transactions';
 import {AppError} from '@/lib/errors';
 import {Account} from '@/types/accounts';
-import {formatCurrency} from '@/lib/utils';
+import {formatCurrency, formatDate} from '@/lib/utils';
 import {useAuth} from '@/lib/hooks/useAuth';
+import {isIncomeOrExpense} from '@/services/categories';
+import {getAccountDisplayName} from '@/lib/accounts';
+import {getPaybackStatusLabel} from '@/lib/paybacks';
 import TransactionForm from './TransactionForm';
+import RepaymentForm from './RepaymentForm';
 
 interface TransactionDetailsProps {
     transactionId: string;
@@ -18,9 +23,11 @@ interface TransactionDetailsProps {
 export default function TransactionDetails({transactionId, onUpdate}: TransactionDetailsProps): React.ReactNode {
     const {user} = useAuth();
     const [transaction, setTransaction] = useState<Transaction | null>(null);
+    const [repayments, setRepayments] = useState<Transaction[]>([]);
     const [accounts, setAccounts] = useState<Account[]>([]);
     const [categories, setCategories] = useState<TransactionCategory[]>([]);
     const [isEditing, setIsEditing] = useState(false);
+    const [isRepaying, setIsRepaying] = useState(false);
     const [error, setError] = useState<string>('');
     const [loading, setLoading] = useState(true);
 
@@ -30,6 +37,9 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
             const found = await services.transactions.getTransactionById(transactionId, user.uid);
             if (found) {
                 setTransaction(found);
+                setRepayments(found.paybackDetails
+                    ? await services.transactions.getRepayments(found.id, user.uid)
+                    : []);
             }
         } catch (error) {
             if (error instanceof AppError) {
@@ -48,7 +58,7 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
         if (!user) return;
         try {
             const [accountsData, categoriesData] = await Promise.all([
-                services.accounts.getAccountsByUser(user.uid),
+                services.accounts.getAccountsByUser(user.uid, true),
                 services.categories.getCategories()
             ]);
             setAccounts(accountsData);
@@ -76,13 +86,13 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
                 amount: formData.amount,
                 type: formData.type,
                 category: formData.category,
+                splits: formData.splits || null,
+                tags: formData.tags || [],
                 description: formData.description,
                 partyName: formData.partyName || null,
                 requiresPayback: formData.requiresPayback,
                 paybackDetails: formData.requiresPayback ? {
-                    dueDate: formData.paybackDetails?.dueDate || new Date(),
-                    status: transaction.paybackDetails?.status || 'PENDING',
-                    completedAt: transaction.paybackDetails?.completedAt || null
+                    dueDate: formData.paybackDetails?.dueDate || new Date()
                 } : null
             };
 
@@ -134,29 +144,19 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
         }
     };
 
-    const handlePaybackStatusUpdate = async () => {
-        if (!user || !transaction?.paybackDetails) return;
+    const handleRepaymentRecorded = async () => {
+        setIsRepaying(false);
+        await loadTransaction();
+        if (onUpdate) await onUpdate();
+    };
+
+    const handleUnlock = async () => {
+        if (!user || !transaction) return;
+        if (!window.confirm('Unlock this reconciled transaction? Changing it will put the account out of balance with its statement.')) return;
 
         try {
-            const newStatus = transaction.paybackDetails.status === 'PAID' ? 'PENDING' : 'PAID';
-            await services.transactions.updateTransaction(
-                transaction.id,
-                {
-                    paybackDetails: {
-                        dueDate: transaction.paybackDetails.dueDate,
-                        status: newStatus,
-                        completedAt: newStatus === 'PAID' ? new Date() : null
-                    }
-                },
-                user.uid
-            );
+            await services.reconciliations.unlockTransaction(transaction.id, user.uid);
             await loadTransaction();
-            notifications.show({
-                title: 'Success',
-                message: 'Payback status updated',
-                color: 'lightSeaGreen',
-                icon: <IconCheck size={16}/>,
-            });
         } catch (error) {
             if (error instanceof AppError) {
                 setError(error.message);
@@ -170,6 +170,8 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
     const account = accounts.find(a => a.id === transaction.accountId);
     const category = categories.find(c => c.name === transaction.category);
 
+    const isLocked = transaction.clearedStatus === 'RECONCILED';
+
     const getTransactionColor = () =>
         transaction.category === 'TRANSFER' ? 'blue' :
             transaction.type === 'POSITIVE' ? 'green' : 'red';
@@ -201,6 +203,8 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
                             amount: transaction.amount,
                             type: transaction.type,
                             category: transaction.category,
+                            splits: transaction.splits || undefined,
+                            tags: transaction.tags,
                             description: transaction.description,
                             partyName: transaction.partyName || undefined,
                             requiresPayback: transaction.requiresPayback,
@@ -216,6 +220,21 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
                 </Modal>
             )}
 
+            {isRepaying && transaction && (
+                <Modal
+                    opened={isRepaying}
+                    onClose={() => setIsRepaying(false)}
+                    title="Record Repayment"
+                >
+                    <RepaymentForm
+                        payback={transaction}
+                        accounts={accounts.filter(a => !a.isArchived)}
+                        onSuccessAction={handleRepaymentRecorded}
+                        onCancelAction={() => setIsRepaying(false)}
+                    />
+                </Modal>
+            )}
+
             <Paper withBorder p="md" radius="md">
                 <Group justify="space-between" mb="md">
                     <Text size="lg" fw={500}>Transaction Details</Text>
@@ -223,7 +242,7 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
                         <Button
                             variant="light"
                             onClick={() => setIsEditing(true)}
-                            disabled={loading || transaction.category === 'TRANSFER'}
+                            disabled={loading || isLocked || !isIncomeOrExpense(transaction)}
                         >
                             Edit
                         </Button>
@@ -231,7 +250,7 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
                             variant="light"
                             color="red"
                             onClick={() => void handleDelete()}
-                            disabled={loading}
+                            disabled={loading || isLocked}
                         >
                             <IconTrash size={16}/>
                         </ActionIcon>
@@ -245,26 +264,66 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
                         color={getTransactionColor()}
                     />
                     <DetailItem label="Description" value={transaction.description}/>
-                    <DetailItem
-                        label="Category"
-                        value={
-                            <Group gap="xs">
-                                {category && <ColorSwatch color={category.color || '#868e96'} size={16}/>}
-                                <Text>{transaction.category}</Text>
-                            </Group>
-                        }
-                    />
+                    {transaction.splits ? (
+                        <DetailItem
+                            label="Split"
+                            value={
+                                <Stack gap={4}>
+                                    {transaction.splits.map((split, index) => (
+                                        <Group key={index} gap="xs">
+                                            <ColorSwatch
+                                                color={categories.find(c => c.name === split.category)?.color || '#868e96'}
+                                                size={16}
+                                            />
+                                            <Text>{split.category}</Text>
+                                            <Text c={getTransactionColor()}>{formatCurrency(split.amount)}</Text>
+                                            {split.description && <Text c="dimmed" size="sm">{split.description}</Text>}
+                                        </Group>
+                                    ))}
+                                </Stack>
+                            }
+                        />
+                    ) : (
+                        <DetailItem
+                            label="Category"
+                            value={
+                                <Group gap="xs">
+                                    {category && <ColorSwatch color={category.color || '#868e96'} size={16}/>}
+                                    <Text>{transaction.category}</Text>
+                                </Group>
+                            }
+                        />
+                    )}
                     <DetailItem
                         label="Account"
                         value={
                             <Group gap="xs">
                                 {account && <ColorSwatch color={account.color} size={16}/>}
-                                <Text>{account?.name}</Text>
+                                <Text>{account && getAccountDisplayName(account)}</Text>
                             </Group>
                         }
                     />
                     {transaction.partyName && (
-                        <DetailItem label="Party" value={transaction.partyName}/>
+                        <DetailItem
+                            label="Party"
+                            value={transaction.partyId ? (
+                                <Anchor component={Link} href={`/parties/${transaction.partyId}`} size="sm">
+                                    {transaction.partyName}
+                                </Anchor>
+                            ) : transaction.partyName}
+                        />
+                    )}
+                    {transaction.tags.length > 0 && (
+                        <DetailItem
+                            label="Tags"
+                            value={
+                                <Group gap={4}>
+                                    {transaction.tags.map(tag => (
+                                        <Badge key={tag} variant="light" color="gray">{tag}</Badge>
+                                    ))}
+                                </Group>
+                            }
+                        />
                     )}
                     <DetailItem
                         label="Date"
@@ -274,18 +333,73 @@ export default function TransactionDetails({transactionId, onUpdate}: Transactio
                             day: 'numeric'
                         })}
                     />
+                    <DetailItem
+                        label="Statement"
+                        value={
+                            <Group gap="xs">
+                                <Badge
+                                    variant="light"
+                                    color={isLocked ? 'teal' : transaction.clearedStatus === 'CLEARED' ? 'blue' : 'gray'}
+                                    leftSection={isLocked ? <IconLock size={12}/> : undefined}
+                                >
+                                    {transaction.clearedStatus}
+                                </Badge>
+                                {isLocked && (
+                                    <Button variant="subtle" size="xs" onClick={() => void handleUnlock()}>
+                                        Unlock
+                                    </Button>
+                                )}
+                            </Group>
+                        }
+                    />
                     {transaction.requiresPayback && transaction.paybackDetails && (
                         <DetailItem
-                            label="Payback Status"
+                            label="Payback"
                             value={
-                                <Button
-                                    variant="light"
-                                    size="xs"
-                                    color={transaction.paybackDetails.status === 'PAID' ? 'green' : 'orange'}
-                                    onClick={() => void handlePaybackStatusUpdate()}
-                                >
-                                    {transaction.paybackDetails.status}
-                                </Button>
+                                <Group gap="xs">
+                                    <Badge
+                                        variant="light"
+                                        color={transaction.paybackDetails.status === 'PAID' ? 'green' : 'orange'}
+                                    >
+                                        {getPaybackStatusLabel(transaction.paybackDetails.status)}
+                                    </Badge>
+                                    <Text size="sm">
+                                        {formatCurrency(transaction.paybackDetails.repaid)} of {formatCurrency(transaction.amount)} repaid
+                                    </Text>
+                                    <Text size="sm" c="dimmed">
+                                        {transaction.paybackDetails.completedAt
+                                            ? `settled ${formatDate(transaction.paybackDetails.completedAt)}`
+                                            : `due ${formatDate(transaction.paybackDetails.dueDate)}`}
+                                    </Text>
+                                    {transaction.paybackDetails.status !== 'PAID' && (
+                                        <Button variant="light" size="xs" onClick={() => setIsRepaying(true)}>
+                                            Record repayment
+                                        </Button>
+                                    )}
+                                </Group>
+                            }
+                        />
+                    )}
+                    {repayments.length > 0 && (
+                        <DetailItem
+                            label="Repayments"
+                            value={
+                                <Stack gap={4}>
+                                    {repayments.map(repayment => {
+                                        const repaymentAccount = accounts.find(a => a.id === repayment.accountId);
+                                        return (
+                                            <Group key={repayment.id} gap="xs">
+                                                <Text size="sm">{formatDate(repayment.createdAt)}</Text>
+                                                <Text size="sm" c={repayment.type === 'POSITIVE' ? 'green' : 'red'}>
+                                                    {formatCurrency(repayment.amount)}
+                                                </Text>
+                                                {repaymentAccount && (
+                                                    <Text size="sm" c="dimmed">{getAccountDisplayName(repaymentAccount)}</Text>
+                                                )}
+                                            </Group>
+                                        );
+                                    })}
+                                </Stack>
                             }
                         />
                     )}
@@ -1,6 +1,8 @@
-import {useCallback, useEffect, useState} from 'react';
+import {useCallback, useEffect, useMemo, useState} from 'react';
 import {
     Alert,
+    Autocomplete,
+    Badge,
     Button,
     ColorSwatch,
     Group,
@@ -9,16 +11,38 @@ import {
     SelectProps,
     Stack,
     Switch,
+    TagsInput,
+    Text,
     TextInput,
 } from '@mantine/core';
 import {DatePickerInput} from '@mantine/dates';
 import {IconAlertCircle, IconCheck, IconX} from '@tabler/icons-react';
 import {notifications} from '@mantine/notifications';
 import {services} from '@/lib/services';
-import {CreateTransactionDTO, TransactionCategory} from '@/types/transactions';
+import {
+    CategorySuggestion,
+    CreateTransactionDTO,
+    GroupSplitMode,
+    GroupSplitParticipant,
+    SuggestionModel,
+    TransactionCategory
+} from '@/types/transactions';
 import {Account} from '@/types/accounts';
 import {AppError} from '@/lib/errors';
 import {useAuth} from '@/lib/hooks/useAuth';
+import {formatCurrency, formatDate} from '@/lib/utils';
+import {CURRENCIES, fromMajor, toMajor, withCurrency, zeroMoney} from '@/lib/money';
+import {SPLIT_CATEGORY} from '@/services/categories';
+import {normalizeTags} from '@/lib/tags';
+import {getSuggestions} from '@/lib/suggestions';
+import SplitEditor from './SplitEditor';
+import GroupSplitEditor from './GroupSplitEditor';
+
+interface GroupSplitState {
+    mode: GroupSplitMode;
+    participants: GroupSplitParticipant[];
+    dueDate: Date;
+}
 
 export interface CreateTransactionFormProps {
     type: 'POSITIVE' | 'NEGATIVE';
@@ -38,13 +62,18 @@ export default function TransactionForm({
     const {user} = useAuth();
     const [accounts, setAccounts] = useState<Account[]>([]);
     const [categories, setCategories] = useState<TransactionCategory[]>([]);
+    const [knownTags, setKnownTags] = useState<string[]>([]);
+    const [partyNames, setPartyNames] = useState<string[]>([]);
+    const [suggestionModel, setSuggestionModel] = useState<SuggestionModel | null>(null);
     const [error, setError] = useState<string>('');
     const [loading, setLoading] = useState(false);
+    // set while a new expense is being split with other people, see createGroupExpense
+    const [groupSplit, setGroupSplit] = useState<GroupSplitState | null>(null);
 
     const [formData, setFormData] = useState<CreateTransactionDTO>(
         initialData || {
             accountId: '',
-            amount: 0,
+            amount: zeroMoney(),
             type,
             category: '',
             description: '',
@@ -55,6 +84,66 @@ export default function TransactionForm({
         }
     );
 
+    // split lines are always in the currency of the transaction
+    const changeCurrency = (data: CreateTransactionDTO, currency: string): CreateTransactionDTO => ({
+        ...data,
+        amount: withCurrency(data.amount, currency),
+        splits: data.splits?.map(split => ({...split, amount: withCurrency(split.amount, currency)}))
+    });
+
+    const handleSplitToggle = (split: boolean) => {
+        if (split) {
+            setFormData({
+                ...formData,
+                category: SPLIT_CATEGORY,
+                splits: [
+                    {category: formData.category, amount: formData.amount, description: null},
+                    {category: '', amount: zeroMoney(formData.amount.currency), description: null}
+                ]
+            });
+        } else {
+            setFormData({
+                ...formData,
+                category: formData.splits?.[0]?.category || '',
+                splits: undefined
+            });
+        }
+    };
+
+    // starts as an equal split between the user and whoever was named as the party
+    const handleGroupSplitToggle = (split: boolean) => {
+        if (split) {
+            const currency = formData.amount.currency;
+            setGroupSplit({
+                mode: 'EQUAL',
+                participants: [
+                    {partyName: null, shares: 1, amount: zeroMoney(currency)},
+                    {partyName: formData.partyName || '', shares: 1, amount: zeroMoney(currency)}
+                ],
+                dueDate: new Date()
+            });
+            setFormData({
+                ...formData,
+                category: formData.splits?.[0]?.category || formData.category,
+                splits: undefined,
+                partyName: '',
+                requiresPayback: false,
+                paybackDetails: undefined
+            });
+        } else {
+            setGroupSplit(null);
+        }
+    };
+
+    // exact parts follow the transaction's currency like split lines do
+    const currency = formData.amount.currency;
+    useEffect(() => {
+        setGroupSplit(prev => prev && {
+            ...prev,
+            participants: prev.participants.map(p => ({...p, amount: withCurrency(p.amount, currency)}))
+        });
+    }, [currency]);
+
     const renderAccountOption: SelectProps['renderOption'] = ({option}) => (
         <Group flex="1" gap="xs">
             {option.value &&
@@ -75,17 +164,23 @@ export default function TransactionForm({
         try {
             if (!user) return;
 
-            const [accountsData, categoriesData] = await Promise.all([
+            const [accountsData, categoriesData, tagsData, modelData, partiesData] = await Promise.all([
                 services.accounts.getAccountsByUser(user.uid),
-                services.categories.getCategoriesByType(type === 'POSITIVE' ? 'INCOME' : 'EXPENSE')
+                services.categories.getCategoriesByType(type === 'POSITIVE' ? 'INCOME' : 'EXPENSE'),
+                services.transactions.getTagsByUser(user.uid),
+                services.transactions.getSuggestionModel(user.uid),
+                services.parties.getPartiesByUser(user.uid)
             ]);
 
             setAccounts(accountsData);
             setCategories(categoriesData);
+            setKnownTags(tagsData);
+            setSuggestionModel(modelData);
+            setPartyNames(partiesData.map(party => party.name));
 
             if (accountsData.length > 0 && !formData.accountId) {
                 setFormData(prev => ({
-                    ...prev,
+                    ...changeCurrency(prev, accountsData[0].currency),
                     accountId: accountsData[0].id
                 }));
             }
@@ -107,6 +202,26 @@ export default function TransactionForm({
         loadData();
     }, [loadData]);
 
+    // suggestions that would change nothing, or name a category that is gone, are left out
+    const suggestions = useMemo(() => {
+        if (!suggestionModel || formData.splits) return [];
+        return getSuggestions(suggestionModel, formData.description, type, 6)
+            .filter(suggestion =>
+                categories.some(c => c.name === suggestion.category) &&
+                !(suggestion.category === formData.category &&
+                    (!suggestion.partyName || suggestion.partyName === formData.partyName))
+            )
+            .slice(0, 3);
+    }, [suggestionModel, formData.description, formData.category, formData.partyName, formData.splits, type, categories]);
+
+    const applySuggestion = (suggestion: CategorySuggestion) => {
+        setFormData({
+            ...formData,
+            category: suggestion.category,
+            partyName: suggestion.partyName || formData.partyName
+        });
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -116,8 +231,58 @@ export default function TransactionForm({
             setLoading(true);
             setError('');
 
+            // a foreign currency amount needs a rate to count towards the account balance
+            const account = accounts.find(a => a.id === formData.accountId);
+            if (account && account.currency !== formData.amount.currency) {
+                const converter = await services.exchangeRates.getConverter(user.uid);
+                converter.convert(formData.amount, account.currency, formData.transactionDate || new Date());
+            }
+
+            if (!isEditing) {
+                const duplicates = await services.duplicates.findDuplicatesOf(formData);
+                if (duplicates.length > 0) {
+                    const matches = duplicates
+                        .map(t => `${formatDate(t.createdAt)}  ${t.description}  ${formatCurrency(t.amount)}`)
+                        .join('\n');
+                    const confirmed = window.confirm(`This looks like a transaction you already have:\n${matches}\n\nSave anyway?`);
+                    if (!confirmed) return;
+                }
+            }
+
+            // the warning is only advice, if it can't be worked out the save goes ahead
+            const budgetWarnings = await services.budgets.getBudgetWarnings(
+                user.uid,
+                formData,
+                isEditing && initialData ? {
+                    category: initialData.category,
+                    amount: initialData.amount,
+                    splits: initialData.splits,
+                    transactionDate: initialData.transactionDate
+                } : undefined
+            ).catch(() => []);
+            if (budgetWarnings.length > 0) {
+                const overspent = budgetWarnings
+                    .map(w => `${w.budget.category || 'Overall'}: ${formatCurrency(w.spent)} of ${formatCurrency(w.budget.limit)}`)
+                    .join('\n');
+                const confirmed = window.confirm(`This expense puts you over budget:\n${overspent}\n\nSave anyway?`);
+                if (!confirmed) return;
+            }
+
             if (isEditing) {
                 await onSuccessAction(formData);
+            } else if (groupSplit) {
+                await services.transactions.createGroupExpense(user.uid, {
+                    accountId: formData.accountId,
+                    amount: formData.amount,
+                    category: formData.category,
+                    description: formData.description,
+                    tags: formData.tags,
+                    transactionDate: formData.transactionDate,
+                    dueDate: groupSplit.dueDate,
+                    mode: groupSplit.mode,
+                    participants: groupSplit.participants
+                });
+                await onSuccessAction(formData);
             } else {
                 await services.transactions.createTransaction(user.uid, formData);
                 await onSuccessAction(formData);
@@ -160,35 +325,91 @@ export default function TransactionForm({
                         label: account.name
                     }))}
                     value={formData.accountId}
-                    onChange={(value) => value && setFormData({...formData, accountId: value})}
+                    onChange={(value) => value && setFormData({
+                        ...changeCurrency(
+                            formData,
+                            accounts.find(a => a.id === value)?.currency || formData.amount.currency
+                        ),
+                        accountId: value
+                    })}
                     required
                     renderOption={renderAccountOption}
                 />
 
-                <NumberInput
-                    label={type === 'POSITIVE' ? 'Income Amount' : 'Expense Amount'}
-                    placeholder="Enter amount"
-                    value={formData.amount}
-                    onChange={(value) => setFormData({...formData, amount: typeof value === 'number' ? value : 0})}
-                    required
-                    min={0}
-                    prefix="$"
-                    decimalScale={2}
-                    fixedDecimalScale
-                />
+                <Group gap="xs" align="flex-end" grow preventGrowOverflow={false}>
+                    <NumberInput
+                        label={type === 'POSITIVE' ? 'Income Amount' : 'Expense Amount'}
+                        placeholder="Enter amount"
+                        value={toMajor(formData.amount)}
+                        onChange={(value) => setFormData({
+                            ...formData,
+                            amount: fromMajor(typeof value === 'number' ? value : 0, formData.amount.currency)
+                        })}
+                        required
+                        min={0}
+                        decimalScale={2}
+                        fixedDecimalScale
+                        style={{flex: 3}}
+                    />
+                    <Select
+                        label="Currency"
+                        data={CURRENCIES}
+                        value={formData.amount.currency}
+                        onChange={(value) => value && setFormData(changeCurrency(formData, value))}
+                        allowDeselect={false}
+                        style={{flex: 1}}
+                    />
+                </Group>
 
-                <Select
-                    label="Category"
-                    placeholder="Select category"
-                    data={categories.map(category => ({
-                        value: category.name,
-                        label: category.name
-                    }))}
-                    value={formData.category}
-                    onChange={(value) => value && setFormData({...formData, category: value})}
-                    required
-                    renderOption={renderCategoryOption}
-                />
+                {formData.splits ? (
+                    <SplitEditor
+                        splits={formData.splits}
+                        total={formData.amount}
+                        categories={categories}
+                        onChange={(splits) => setFormData({...formData, splits})}
+                    />
+                ) : (
+                    <Select
+                        label="Category"
+                        placeholder="Select category"
+                        data={categories.map(category => ({
+                            value: category.name,
+                            label: category.name
+                        }))}
+                        value={formData.category}
+                        onChange={(value) => value && setFormData({...formData, category: value})}
+                        required
+                        renderOption={renderCategoryOption}
+                    />
+                )}
+
+                {!groupSplit && (
+                    <Switch
+                        label="Split across categories"
+                        checked={!!formData.splits}
+                        onChange={(e) => handleSplitToggle(e.currentTarget.checked)}
+                    />
+                )}
+
+                {!isEditing && type === 'NEGATIVE' && (
+                    <Switch
+                        label="Split with others"
+                        description="Everyone else's part becomes a payback they owe you"
+                        checked={!!groupSplit}
+                        onChange={(e) => handleGroupSplitToggle(e.currentTarget.checked)}
+                    />
+                )}
+
+                {groupSplit && (
+                    <GroupSplitEditor
+                        mode={groupSplit.mode}
+                        participants={groupSplit.participants}
+                        total={formData.amount}
+                        partyNames={partyNames}
+                        onModeChange={(mode) => setGroupSplit({...groupSplit, mode})}
+                        onChange={(participants) => setGroupSplit({...groupSplit, participants})}
+                    />
+                )}
 
                 <TextInput
                     label="Description"
@@ -198,11 +419,43 @@ export default function TransactionForm({
                     required
                 />
 
-                <TextInput
-                    label="Party Name (Optional)"
-                    placeholder="Enter party name"
-                    value={formData.partyName}
-                    onChange={(e) => setFormData({...formData, partyName: e.target.value})}
+                {suggestions.length > 0 && (
+                    <Group gap="xs">
+                        <Text size="xs" c="dimmed">Suggested:</Text>
+                        {suggestions.map(suggestion => (
+                            <Badge
+                                key={`${suggestion.category}|${suggestion.partyName}`}
+                                variant="light"
+                                color={categories.find(c => c.name === suggestion.category)?.color || 'gray'}
+                                style={{cursor: 'pointer', textTransform: 'none'}}
+                                onClick={() => applySuggestion(suggestion)}
+                            >
+                                {suggestion.category}
+                                {suggestion.partyName && ` · ${suggestion.partyName}`}
+                                {` ${Math.round(suggestion.confidence * 100)}%`}
+                            </Badge>
+                        ))}
+                    </Group>
+                )}
+
+                {!groupSplit && (
+                    <Autocomplete
+                        label="Party Name (Optional)"
+                        description="A new name is added to your people, an alias picks the person it belongs to"
+                        placeholder="Enter party name"
+                        data={partyNames}
+                        value={formData.partyName}
+                        onChange={(partyName) => setFormData({...formData, partyName})}
+                    />
+                )}
+
+                <TagsInput
+                    label="Tags (Optional)"
+                    placeholder="Type a tag and press Enter"
+                    data={knownTags}
+                    value={formData.tags || []}
+                    onChange={(tags) => setFormData({...formData, tags: normalizeTags(tags)})}
+                    clearable
                 />
 
                 <DatePickerInput
@@ -217,7 +470,18 @@ export default function TransactionForm({
                     maxDate={new Date()}
                 />
 
-                <Switch
+                {groupSplit && (
+                    <DatePickerInput
+                        label="Pay Back By"
+                        placeholder="Pick due date"
+                        value={groupSplit.dueDate}
+                        onChange={(date) => setGroupSplit({...groupSplit, dueDate: date || new Date()})}
+                        required
+                        minDate={new Date()}
+                    />
+                )}
+
+                {!groupSplit && <Switch
                     label="Requires Payback"
                     checked={formData.requiresPayback}
                     onChange={(e) => setFormData({
@@ -227,7 +491,7 @@ export default function TransactionForm({
                             {dueDate: new Date()} :
                             undefined
                     })}
-                />
+                />}
 
                 {formData.requiresPayback && (
                     <DatePickerInput
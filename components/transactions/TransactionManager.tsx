@@ -1,4 +1,4 @@
-import {useCallback, useEffect, useState} from 'react';
+import {useCallback, useEffect, useMemo, useState} from 'react';
 import {
     ActionIcon,
     Alert,
@@ -6,6 +6,7 @@ import {
     ColorSwatch,
     Group,
     Modal,
+    MultiSelect,
     Paper,
     SegmentedControl,
     Select,
@@ -23,11 +24,13 @@ import {
     IconArrowsRightLeft,
     IconArrowUp,
     IconCheck,
+    IconDownload,
     IconEdit,
     IconTrash,
     IconX
 } from '@tabler/icons-react';
 import {DatePickerInput} from '@mantine/dates';
+import {AreaChart} from '@mantine/charts';
 import {notifications} from '@mantine/notifications';
 import {services} from '@/lib/services';
 import {useAuth} from '@/lib/hooks/useAuth';
@@ -35,10 +38,14 @@ import {Transaction, TransactionCategory} from '@/types/transactions';
 import {AppError} from '@/lib/errors';
 import {Account} from '@/types/accounts';
 import {formatCurrency, formatDate} from '@/lib/utils';
+import {getAccountDisplayName, getDailyBalances, getRunningBalances} from '@/lib/accounts';
+import {toMajor} from '@/lib/money';
+import {Money} from '@/types/money';
 
 import {default as TransactionDetailsComponent} from './TransactionDetails';
 import TransactionForm from './TransactionForm';
 import TransferForm from './TransferForm';
+import ExportForm from '@/components/exports/ExportForm';
 
 type TransactionType = 'ALL' | 'POSITIVE' | 'NEGATIVE' | 'TRANSFER';
 
@@ -59,10 +66,16 @@ export default function TransactionManager() {
     const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
     const [dateRange, setDateRange] = useState<[Date | null, Date | null]>([null, null]);
     const [searchTerm, setSearchTerm] = useState('');
+    const [tags, setTags] = useState<string[]>([]);
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    // full history of the selected account, whatever the filters
+    const [accountHistory, setAccountHistory] = useState<Transaction[]>([]);
+    const [runningBalances, setRunningBalances] = useState<Record<string, Money> | null>(null);
 
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [showTransferModal, setShowTransferModal] = useState(false);
     const [showDetailsModal, setShowDetailsModal] = useState(false);
+    const [showExportModal, setShowExportModal] = useState(false);
     const [modalType, setModalType] = useState<'income' | 'expense' | null>(null);
     const [initialLoadComplete, setInitialLoadComplete] = useState(false);
 
@@ -70,7 +83,8 @@ export default function TransactionManager() {
     const loadAccounts = useCallback(async () => {
         try {
             if (!user) return;
-            const data = await services.accounts.getAccountsByUser(user.uid);
+            // archived accounts stay listed so their transactions don't vanish
+            const data = await services.accounts.getAccountsByUser(user.uid, true);
             setAccounts(data);
             return data;
         } catch (error) {
@@ -87,13 +101,23 @@ export default function TransactionManager() {
             if (!user || !initialLoadComplete) return;
 
             let accountTransactions: Transaction[] = [];
-            if (selectedAccount) {
-                accountTransactions = await services.transactions.getTransactionsByAccount(
-                    selectedAccount,
-                    dateRange[0] || undefined,
-                    dateRange[1] || undefined
-                );
+            const account = accounts.find(a => a.id === selectedAccount);
+            if (selectedAccount && account) {
+                const [rangeTransactions, history, converter] = await Promise.all([
+                    services.transactions.getTransactionsByAccount(
+                        selectedAccount,
+                        dateRange[0] || undefined,
+                        dateRange[1] || undefined
+                    ),
+                    services.transactions.getTransactionsByAccount(selectedAccount),
+                    services.exchangeRates.getConverter(user.uid)
+                ]);
+                accountTransactions = rangeTransactions;
+                setAccountHistory(history);
+                setRunningBalances(getRunningBalances(history, account.currency, converter));
             } else {
+                setAccountHistory([]);
+                setRunningBalances(null);
                 const accountPromises = accounts.map(account =>
                     services.transactions.getTransactionsByAccount(
                         account.id,
@@ -105,27 +129,11 @@ export default function TransactionManager() {
                 accountTransactions = results.flat();
             }
 
-            let filteredTransactions = accountTransactions;
-
-            if (transactionType !== 'ALL') {
-                filteredTransactions = filteredTransactions.filter(t => {
-                    if (transactionType === 'TRANSFER') {
-                        return t.category === 'TRANSFER';
-                    }
-                    return t.type === transactionType;
-                });
-            }
-
-            if (searchTerm) {
-                const search = searchTerm.toLowerCase();
-                filteredTransactions = filteredTransactions.filter(t =>
-                    t.description.toLowerCase().includes(search) ||
-                    t.category.toLowerCase().includes(search) ||
-                    (t.partyName && t.partyName.toLowerCase().includes(search))
-                );
-            }
-
-            filteredTransactions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+            const filteredTransactions = services.transactions.applyFilters(accountTransactions, {
+                type: transactionType !== 'ALL' ? transactionType : undefined,
+                tags: selectedTags,
+                searchTerm
+            });
             setTransactions(filteredTransactions);
         } catch (error) {
             if (error instanceof AppError) {
@@ -141,7 +149,18 @@ export default function TransactionManager() {
         } finally {
             setLoading(false);
         }
-    }, [user, initialLoadComplete, selectedAccount, dateRange, transactionType, searchTerm, accounts]);
+    }, [user, initialLoadComplete, selectedAccount, dateRange, transactionType, selectedTags, searchTerm, accounts]);
+
+    const loadTags = useCallback(async () => {
+        try {
+            if (!user) return;
+            setTags(await services.transactions.getTagsByUser(user.uid));
+        } catch (error) {
+            if (error instanceof AppError) {
+                setError(error.message);
+            }
+        }
+    }, [user]);
 
     const loadCategories = useCallback(async () => {
         try {
@@ -164,6 +183,7 @@ export default function TransactionManager() {
                 setLoading(true);
                 const loadedAccounts = await loadAccounts();
                 await loadCategories();
+                await loadTags();
 
                 if (loadedAccounts && loadedAccounts.length > 0) {
                     await loadTransactions();
@@ -179,7 +199,7 @@ export default function TransactionManager() {
         };
 
         init();
-    }, [user, loadAccounts, loadTransactions, loadCategories]);
+    }, [user, loadAccounts, loadTransactions, loadCategories, loadTags]);
 
     // filter changes
     useEffect(() => {
@@ -223,6 +243,15 @@ export default function TransactionManager() {
         }
     };
 
+    // one point per day, limited to the picked date range
+    const balanceChartData = useMemo(() => {
+        if (!runningBalances) return [];
+        const [start, end] = dateRange;
+        return getDailyBalances(accountHistory, runningBalances)
+            .filter(day => (!start || day.date >= start) && (!end || day.date <= end))
+            .map(day => ({date: formatDate(day.date), Balance: toMajor(day.balance)}));
+    }, [accountHistory, runningBalances, dateRange]);
+
     const getTransactionColor = (transaction: Transaction) => {
         if (transaction.category === 'TRANSFER') return 'blue';
         return transaction.type === 'POSITIVE' ? 'green' : 'red';
@@ -241,7 +270,7 @@ export default function TransactionManager() {
         setShowCreateModal(false);
         setShowTransferModal(false);
         setModalType(null);
-        await loadTransactions();
+        await Promise.all([loadTransactions(), loadTags()]);
     };
 
     const renderSelectOption: SelectProps['renderOption'] = ({option, checked}) => {
@@ -303,6 +332,15 @@ export default function TransactionManager() {
                     >
                         <IconArrowsRightLeft size={20}/>
                     </ActionIcon>
+                    <ActionIcon
+                        variant="light"
+                        color="gray"
+                        onClick={() => setShowExportModal(true)}
+                        size="lg"
+                        title="Export"
+                    >
+                        <IconDownload size={20}/>
+                    </ActionIcon>
                 </Group>
             </Group>
 
@@ -317,7 +355,7 @@ export default function TransactionManager() {
                                 {value: '', label: 'All Accounts'},
                                 ...accounts.map(account => ({
                                     value: account.id,
-                                    label: account.name
+                                    label: getAccountDisplayName(account)
                                 }))
                             ]}
                             renderOption={renderSelectOption}
@@ -348,9 +386,36 @@ export default function TransactionManager() {
                             ]}
                         />
                     </Group>
+
+                    {tags.length > 0 && (
+                        <MultiSelect
+                            placeholder={selectedTags.length ? undefined : 'Filter by tags'}
+                            data={tags}
+                            value={selectedTags}
+                            onChange={setSelectedTags}
+                            searchable
+                            clearable
+                        />
+                    )}
                 </Stack>
             </Paper>
 
+            {balanceChartData.length > 1 && (
+                <Paper withBorder p="md" radius="md">
+                    <Text size="sm" fw={500} mb="sm">Balance over time</Text>
+                    <AreaChart
+                        h={200}
+                        data={balanceChartData}
+                        dataKey="date"
+                        type="split"
+                        splitColors={['teal.6', 'red.6']}
+                        series={[{name: 'Balance', color: 'blue.6'}]}
+                        curveType="stepAfter"
+                        withDots={false}
+                    />
+                </Paper>
+            )}
+
             <Paper withBorder radius="md">
                 <Table.ScrollContainer minWidth={500}>
                     <Table highlightOnHover verticalSpacing="sm">
@@ -360,6 +425,7 @@ export default function TransactionManager() {
                                 <Table.Th>Description</Table.Th>
                                 <Table.Th>Category</Table.Th>
                                 <Table.Th>Amount</Table.Th>
+                                {runningBalances && <Table.Th>Balance</Table.Th>}
                                 <Table.Th>Account</Table.Th>
                                 <Table.Th>Actions</Table.Th>
                             </Table.Tr>
@@ -380,7 +446,16 @@ export default function TransactionManager() {
                                         )}
                                         {formatDate(transaction.createdAt)}
                                     </Group>
-                                </Table.Td><Table.Td>{transaction.description}</Table.Td><Table.Td>
+                                </Table.Td><Table.Td>
+                                    <Text size="sm">{transaction.description}</Text>
+                                    {transaction.tags.length > 0 && (
+                                        <Group gap={4} mt={4}>
+                                            {transaction.tags.map(tag => (
+                                                <Badge key={tag} size="xs" variant="light" color="gray">{tag}</Badge>
+                                            ))}
+                                        </Group>
+                                    )}
+                                </Table.Td><Table.Td>
                                     <Badge color={getTransactionColor(transaction)}>
                                         {transaction.category}
                                     </Badge>
@@ -389,10 +464,18 @@ export default function TransactionManager() {
                                         {transaction.type === 'NEGATIVE' ? '-' : ''}
                                         {formatCurrency(transaction.amount)}
                                     </Text>
-                                </Table.Td><Table.Td>
+                                </Table.Td>{runningBalances && (<Table.Td>
+                                    {runningBalances[transaction.id] && (
+                                        <Text c={runningBalances[transaction.id].amount < 0 ? 'red' : undefined}>
+                                            {formatCurrency(runningBalances[transaction.id])}
+                                        </Text>
+                                    )}
+                                </Table.Td>)}<Table.Td>
                                     <Group gap="xs">
                                         {account && <ColorSwatch color={account.color} size={13}/>}
-                                        <Text>{account?.name}</Text>
+                                        <Text c={account?.isArchived ? 'dimmed' : undefined}>
+                                            {account && getAccountDisplayName(account)}
+                                        </Text>
                                     </Group>
                                 </Table.Td><Table.Td>
                                     <Group gap="xs">
@@ -414,7 +497,7 @@ export default function TransactionManager() {
                                 </Table.Td></Table.Tr>);
                             })}
                             {transactions.length === 0 && (
-                                <Table.Tr><Table.Td colSpan={6}>
+                                <Table.Tr><Table.Td colSpan={runningBalances ? 7 : 6}>
                                     <Text c="dimmed" ta="center" py="xl">
                                         No transactions found.
                                     </Text>
@@ -453,6 +536,26 @@ export default function TransactionManager() {
                 />
             </Modal>
 
+            {/* Export Modal */}
+            <Modal
+                opened={showExportModal}
+                onClose={() => setShowExportModal(false)}
+                title="Export Data"
+            >
+                <ExportForm
+                    accounts={accounts}
+                    initialFilters={{
+                        accountId: selectedAccount || undefined,
+                        startDate: dateRange[0] || undefined,
+                        endDate: dateRange[1] || undefined,
+                        type: transactionType !== 'ALL' ? transactionType : undefined,
+                        tags: selectedTags.length ? selectedTags : undefined,
+                        searchTerm: searchTerm || undefined
+                    }}
+                    onCancelAction={() => setShowExportModal(false)}
+                />
+            </Modal>
+
             {/* Transaction Details Modal */}
             <Modal
                 opened={showDetailsModal}
@@ -466,7 +569,7 @@ export default function TransactionManager() {
                     <TransactionDetails
                         transactionId={selectedTransaction.id}
                         onUpdate={async () => {
-                            await loadTransactions();
+                            await Promise.all([loadTransactions(), loadTags()]);
                             setShowDetailsModal(false);
                             setSelectedTransaction(null);
                         }}
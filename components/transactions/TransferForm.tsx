@@ -3,10 +3,11 @@ import {Alert, Button, ColorSwatch, Group, NumberInput, Select, SelectProps, Sta
 import {IconAlertCircle, IconArrowRight, IconCheck, IconX} from '@tabler/icons-react';
 import {notifications} from '@mantine/notifications';
 import {services} from '@/lib/services';
-import {CreateTransactionDTO} from '@/types/transactions';
 import {Account} from '@/types/accounts';
 import {AppError} from '@/lib/errors';
 import {useAuth} from '@/lib/hooks/useAuth';
+import {fromMajor, toMajor, withCurrency, zeroMoney} from '@/lib/money';
+import {Money} from '@/types/money';
 
 export interface TransferFormProps {
     onSuccessAction: () => Promise<void>;
@@ -19,10 +20,19 @@ export default function TransferForm({onSuccessAction, onCancelAction}: Transfer
     const [error, setError] = useState<string>('');
     const [loading, setLoading] = useState(false);
 
-    const [formData, setFormData] = useState({
+    const [formData, setFormData] = useState<{
+        fromAccountId: string;
+        toAccountId: string;
+        amount: Money;
+        receivedAmount: Money | null;
+        fee: Money | null;
+        description: string;
+    }>({
         fromAccountId: '',
         toAccountId: '',
-        amount: 0,
+        amount: zeroMoney(),
+        receivedAmount: null,
+        fee: null,
         description: ''
     });
 
@@ -46,7 +56,8 @@ export default function TransferForm({onSuccessAction, onCancelAction}: Transfer
                     setFormData(prev => ({
                         ...prev,
                         fromAccountId: accountsData[0].id,
-                        toAccountId: accountsData[1].id
+                        toAccountId: accountsData[1].id,
+                        amount: withCurrency(prev.amount, accountsData[0].currency)
                     }));
                 }
             } catch (error) {
@@ -76,7 +87,7 @@ export default function TransferForm({onSuccessAction, onCancelAction}: Transfer
             return;
         }
 
-        if (formData.amount <= 0) {
+        if (formData.amount.amount <= 0) {
             setError('Transfer amount must be greater than 0');
             return;
         }
@@ -93,24 +104,16 @@ export default function TransferForm({onSuccessAction, onCancelAction}: Transfer
             setLoading(true);
             setError('');
 
-            const transferTransactions: CreateTransactionDTO[] = [
-                {
-                    accountId: formData.fromAccountId,
-                    amount: formData.amount,
-                    type: 'NEGATIVE',
-                    category: 'TRANSFER',
-                    description: `Transfer to ${toAccount.name}${formData.description ? ': ' + formData.description : ''}`,
-                },
-                {
-                    accountId: formData.toAccountId,
-                    amount: formData.amount,
-                    type: 'POSITIVE',
-                    category: 'TRANSFER',
-                    description: `Transfer from ${fromAccount.name}${formData.description ? ': ' + formData.description : ''}`,
-                }
-            ];
-
-            await services.transactions.createChainedTransactions(user.uid, transferTransactions);
+            await services.transactions.createTransfer(user.uid, {
+                fromAccountId: formData.fromAccountId,
+                toAccountId: formData.toAccountId,
+                amount: formData.amount,
+                receivedAmount: fromAccount.currency !== toAccount.currency && formData.receivedAmount
+                    ? formData.receivedAmount
+                    : undefined,
+                fee: formData.fee || undefined,
+                description: formData.description
+            });
             notifications.show({
                 title: 'Success',
                 message: 'Transfer completed successfully',
@@ -175,7 +178,15 @@ export default function TransferForm({onSuccessAction, onCancelAction}: Transfer
                             disabled: account.id === formData.toAccountId
                         }))}
                         value={formData.fromAccountId}
-                        onChange={(value) => value && setFormData({...formData, fromAccountId: value})}
+                        onChange={(value) => value && setFormData({
+                            ...formData,
+                            fromAccountId: value,
+                            amount: withCurrency(
+                                formData.amount,
+                                accounts.find(a => a.id === value)?.currency || formData.amount.currency
+                            ),
+                            fee: null
+                        })}
                         required
                         style={{flex: 1}}
                         renderOption={renderAccountOption}
@@ -196,7 +207,7 @@ export default function TransferForm({onSuccessAction, onCancelAction}: Transfer
                             disabled: account.id === formData.fromAccountId
                         }))}
                         value={formData.toAccountId}
-                        onChange={(value) => value && setFormData({...formData, toAccountId: value})}
+                        onChange={(value) => value && setFormData({...formData, toAccountId: value, receivedAmount: null})}
                         required
                         style={{flex: 1}}
                         renderOption={renderAccountOption}
@@ -205,12 +216,49 @@ export default function TransferForm({onSuccessAction, onCancelAction}: Transfer
 
                 <NumberInput
                     label="Transfer Amount"
+                    description={`In ${formData.amount.currency}, the source account's currency`}
                     placeholder="Enter amount"
-                    value={formData.amount}
-                    onChange={(value) => setFormData({...formData, amount: typeof value === 'number' ? value : 0})}
+                    value={toMajor(formData.amount)}
+                    onChange={(value) => setFormData({
+                        ...formData,
+                        amount: fromMajor(typeof value === 'number' ? value : 0, formData.amount.currency)
+                    })}
                     required
                     min={0}
-                    prefix="$"
+                    decimalScale={2}
+                    fixedDecimalScale
+                />
+
+                {fromAccount && toAccount && fromAccount.currency !== toAccount.currency && (
+                    <NumberInput
+                        label="Amount Received (Optional)"
+                        description={formData.receivedAmount && formData.amount.amount > 0
+                            ? `1 ${fromAccount.currency} = ${(toMajor(formData.receivedAmount) / toMajor(formData.amount)).toFixed(4)} ${toAccount.currency}`
+                            : `In ${toAccount.currency}, converted with your exchange rates when left empty`}
+                        placeholder="Enter amount received"
+                        value={formData.receivedAmount ? toMajor(formData.receivedAmount) : ''}
+                        onChange={(value) => setFormData({
+                            ...formData,
+                            receivedAmount: typeof value === 'number' && value > 0
+                                ? fromMajor(value, toAccount.currency)
+                                : null
+                        })}
+                        min={0}
+                        decimalScale={2}
+                        fixedDecimalScale
+                    />
+                )}
+
+                <NumberInput
+                    label="Fee (Optional)"
+                    description={`In ${formData.amount.currency}, taken from the source account as a separate expense`}
+                    placeholder="Enter fee"
+                    value={formData.fee ? toMajor(formData.fee) : ''}
+                    onChange={(value) => setFormData({
+                        ...formData,
+                        fee: typeof value === 'number' && value > 0 ? fromMajor(value, formData.amount.currency) : null
+                    })}
+                    min={0}
                     decimalScale={2}
                     fixedDecimalScale
                 />
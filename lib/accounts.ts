@@ -0,0 +1,92 @@
+import {Account, AccountType} from '@/types/accounts';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {Money} from '@/types/money';
+import {Transaction} from '@/types/transactions';
+import {addMoney, negateMoney, signedAmount, zeroMoney} from '@/lib/money';
+import {startOfDay} from '@/lib/recurrence';
+
+export const ACCOUNT_TYPES: { value: AccountType; label: string; }[] = [
+    {value: 'CHECKING', label: 'Checking'},
+    {value: 'SAVINGS', label: 'Savings'},
+    {value: 'CREDIT_CARD', label: 'Credit Card'},
+    {value: 'CASH', label: 'Cash'},
+    {value: 'LOAN', label: 'Loan'},
+    {value: 'INVESTMENT', label: 'Investment'}
+];
+
+export function getAccountTypeLabel(type: AccountType): string {
+    return ACCOUNT_TYPES.find(t => t.value === type)?.label || type;
+}
+
+// archived accounts still show up next to their old transactions
+export function getAccountDisplayName(account: Account): string {
+    return account.isArchived ? `${account.name} (archived)` : account.name;
+}
+
+export function isLiability(type: AccountType): boolean {
+    return type === 'CREDIT_CARD' || type === 'LOAN';
+}
+
+// there is no statement to check cash against
+export function canReconcile(type: AccountType): boolean {
+    return type !== 'CASH';
+}
+
+// spending on a liability account drives its balance below zero, so what is owed is the negated balance.
+// a credit balance (overpaid card) owes nothing
+export function getAmountOwed(account: Account): Money {
+    return account.balance.amount < 0 ? negateMoney(account.balance) : zeroMoney(account.currency);
+}
+
+// share of the credit limit in use, as a percentage. null when the account has no limit
+export function getCreditUtilization(account: Account): number | null {
+    if (!isLiability(account.type) || !account.creditLimit || account.creditLimit.amount <= 0) return null;
+    return (getAmountOwed(account).amount / account.creditLimit.amount) * 100;
+}
+
+// oldest first. transactions on the same moment keep a fixed order so the running balance is stable
+function sortByDate(transactions: Transaction[]): Transaction[] {
+    return transactions.slice().sort((a, b) =>
+        a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id)
+    );
+}
+
+// the account balance right after each transaction, by transaction id. needs the account's
+// full history, a filtered list would start from the wrong balance. a transaction without an
+// exchange rate leaves the balance as it was, the same way the account balance leaves it out
+export function getRunningBalances(
+    transactions: Transaction[],
+    currency: string,
+    converter: CurrencyConverter
+): Record<string, Money> {
+    const balances: Record<string, Money> = {};
+    let balance = zeroMoney(currency);
+
+    sortByDate(transactions).forEach(transaction => {
+        const amount = converter.tryConvert(signedAmount(transaction), currency, transaction.createdAt);
+        if (amount) balance = addMoney(balance, amount);
+        balances[transaction.id] = balance;
+    });
+
+    return balances;
+}
+
+// the closing balance of every day that has transactions
+export function getDailyBalances(
+    transactions: Transaction[],
+    runningBalances: Record<string, Money>
+): { date: Date; balance: Money; }[] {
+    const days: { date: Date; balance: Money; }[] = [];
+
+    sortByDate(transactions).forEach(transaction => {
+        const date = startOfDay(transaction.createdAt);
+        const last = days[days.length - 1];
+        if (last && last.date.getTime() === date.getTime()) {
+            last.balance = runningBalances[transaction.id];
+        } else {
+            days.push({date, balance: runningBalances[transaction.id]});
+        }
+    });
+
+    return days;
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import {Money} from '@/types/money';
+import {Loan, LoanSummary, ScheduledPayment} from '@/types/loans';
+import {addMoney, multiplyMoney, subtractMoney, sumMoney, zeroMoney} from '@/lib/money';
+import {getNthOccurrence} from '@/lib/recurrence';
+
+// safety net for a projection that never pays off, 100 years of monthly payments
+const MAX_PAYMENTS = 1200;
+
+// the fixed payment that clears the principal over the term, interest compounded monthly
+export function getMonthlyPayment(principal: Money, annualRate: number, termMonths: number): Money {
+    const rate = annualRate / 100 / 12;
+    if (rate === 0) {
+        return {amount: Math.ceil(principal.amount / termMonths), currency: principal.currency};
+    }
+    return {
+        amount: Math.round(principal.amount * rate / (1 - Math.pow(1 + rate, -termMonths))),
+        currency: principal.currency
+    };
+}
+
+export function getMonthlyInterest(balance: Money, annualRate: number): Money {
+    return multiplyMoney(balance, annualRate / 100 / 12);
+}
+
+export function getRemainingPrincipal(loan: Loan): Money {
+    return subtractMoney(loan.principal, sumMoney(loan.payments.map(p => p.principal), loan.principal.currency));
+}
+
+// what was posted, oldest first, then the payments still to come from the remaining principal.
+// the projection picks up after the last scheduled payment posted, so a missed month pushes
+// the payoff out instead of being skipped
+export function getLoanSchedule(loan: Loan): ScheduledPayment[] {
+    const currency = loan.principal.currency;
+    const rows: ScheduledPayment[] = [];
+    let balance = loan.principal;
+
+    loan.payments
+        .slice()
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .forEach(payment => {
+            balance = subtractMoney(balance, payment.principal);
+            rows.push({...payment, balance, posted: true});
+        });
+
+    const payment = addMoney(getMonthlyPayment(loan.principal, loan.annualRate, loan.termMonths), loan.extraMonthly);
+    let number = Math.max(0, ...loan.payments.map(p => p.number || 0)) + 1;
+
+    while (balance.amount > 0 && number <= MAX_PAYMENTS) {
+        const interest = getMonthlyInterest(balance, loan.annualRate);
+        let principal = subtractMoney(payment, interest);
+        // the payment doesn't even cover the interest, it never pays off
+        if (principal.amount <= 0) break;
+        if (principal.amount > balance.amount) principal = balance;
+
+        balance = subtractMoney(balance, principal);
+        rows.push({
+            number,
+            date: getNthOccurrence(loan.startDate, 'MONTHLY', number),
+            interest,
+            principal,
+            balance: balance.amount === 0 ? zeroMoney(currency) : balance,
+            posted: false
+        });
+        number++;
+    }
+
+    return rows;
+}
+
+export function getNextScheduledPayment(loan: Loan): ScheduledPayment | null {
+    return getLoanSchedule(loan).find(row => !row.posted) || null;
+}
+
+export function getLoanSummary(loan: Loan): LoanSummary {
+    const currency = loan.principal.currency;
+    const schedule = getLoanSchedule(loan);
+    const posted = schedule.filter(row => row.posted);
+    const projected = schedule.filter(row => !row.posted);
+    const last = schedule[schedule.length - 1];
+
+    return {
+        remainingPrincipal: getRemainingPrincipal(loan),
+        interestPaid: sumMoney(posted.map(row => row.interest), currency),
+        interestRemaining: sumMoney(projected.map(row => row.interest), currency),
+        monthlyPayment: getMonthlyPayment(loan.principal, loan.annualRate, loan.termMonths),
+        payoffDate: last && last.balance.amount <= 0 ? last.date : null
+    };
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+// minimal RFC 4180 parser: quoted fields, escaped quotes ("") and
+// line breaks inside quotes. empty lines are dropped
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // strip the byte order mark some banks prepend
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            pushRow(rows, row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    row.push(field);
+    pushRow(rows, row);
+
+    return rows;
+}
+
+function pushRow(rows: string[][], row: string[]) {
+    if (row.length === 1 && row[0].trim() === '') return;
+    rows.push(row.map(value => value.trim()));
+}
+
+// picks whichever of comma, semicolon or tab appears most in the first line
+export function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const candidates = [',', ';', '\t'];
+
+    return candidates.reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+}
+
+export function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+    return rows.map(row => row.map(value => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(',')).join('\r\n');
+}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import {DuplicatePair} from '@/types/duplicates';
+import {Transaction, UpdateTransactionDTO} from '@/types/transactions';
+import {UNCATEGORIZED_CATEGORY} from '@/services/categories';
+import {tokenize} from '@/lib/suggestions';
+import {normalizeTags} from '@/lib/tags';
+
+// how far apart two entries of the same purchase can be, bank posting dates lag a few days
+export const DUPLICATE_WINDOW_DAYS = 3;
+// share of words two descriptions need in common
+export const DUPLICATE_SIMILARITY = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DuplicateCandidate {
+    accountId: string;
+    amount: Transaction['amount'];
+    type: Transaction['type'];
+    description: string;
+    createdAt: Date;
+}
+
+export function getPairKey(a: string, b: string): string {
+    return [a, b].sort().join('_');
+}
+
+// shared words over all words. descriptions with no usable words only match when identical
+export function getDescriptionSimilarity(a: string, b: string): number {
+    const tokensA = tokenize(a);
+    const tokensB = tokenize(b);
+    if (!tokensA.length || !tokensB.length) {
+        return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+    }
+
+    const shared = tokensA.filter(token => tokensB.includes(token)).length;
+    return shared / (tokensA.length + tokensB.length - shared);
+}
+
+export function isPossibleDuplicate(
+    a: DuplicateCandidate,
+    b: DuplicateCandidate,
+    windowDays: number = DUPLICATE_WINDOW_DAYS
+): boolean {
+    return a.accountId === b.accountId &&
+        a.type === b.type &&
+        a.amount.amount === b.amount.amount &&
+        a.amount.currency === b.amount.currency &&
+        Math.abs(a.createdAt.getTime() - b.createdAt.getTime()) <= windowDays * DAY_MS &&
+        getDescriptionSimilarity(a.description, b.description) >= DUPLICATE_SIMILARITY;
+}
+
+// transfers and other chained legs are never reported, they come in matching pairs on purpose
+export function findDuplicatePairs(
+    transactions: Transaction[],
+    dismissedKeys: Set<string>,
+    windowDays: number = DUPLICATE_WINDOW_DAYS
+): DuplicatePair[] {
+    const candidates = transactions
+        .filter(t => !t.chainId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const pairs: DuplicatePair[] = [];
+
+    candidates.forEach((first, index) => {
+        for (let i = index + 1; i < candidates.length; i++) {
+            const second = candidates[i];
+            if (second.createdAt.getTime() - first.createdAt.getTime() > windowDays * DAY_MS) break;
+
+            const key = getPairKey(first.id, second.id);
+            if (!dismissedKeys.has(key) && isPossibleDuplicate(first, second, windowDays)) {
+                pairs.push({key, first, second, similarity: getDescriptionSimilarity(first.description, second.description)});
+            }
+        }
+    });
+
+    return pairs;
+}
+
+// the kept transaction's own values win, the other one only fills what it left empty
+export function getMergedFields(keep: Transaction, remove: Transaction): UpdateTransactionDTO {
+    const useOtherCategory = keep.category === UNCATEGORIZED_CATEGORY && !keep.splits;
+
+    return {
+        category: useOtherCategory ? remove.category : keep.category,
+        splits: useOtherCategory ? remove.splits : keep.splits,
+        tags: normalizeTags([...keep.tags, ...remove.tags]),
+        description: keep.description || remove.description,
+        partyId: keep.partyId || remove.partyId,
+        partyName: keep.partyName || remove.partyName,
+        requiresPayback: keep.requiresPayback || remove.requiresPayback,
+        paybackDetails: keep.paybackDetails || remove.paybackDetails,
+        importId: keep.importId || remove.importId
+    };
+}
\ No newline at end of file
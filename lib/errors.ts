@@ -19,7 +19,36 @@ export const ErrorCodes = {
 
     // Transaction errors
     INVALID_AMOUNT: 'INVALID_AMOUNT',
+    CURRENCY_MISMATCH: 'CURRENCY_MISMATCH',
     TRANSACTION_NOT_FOUND: 'TRANSACTION_NOT_FOUND',
+    TRANSACTION_LOCKED: 'TRANSACTION_LOCKED',
+
+    // Party errors
+    PARTY_EXISTS: 'PARTY_EXISTS',
+    PARTY_NOT_FOUND: 'PARTY_NOT_FOUND',
+
+    // Reconciliation errors
+    RECONCILIATION_NOT_BALANCED: 'RECONCILIATION_NOT_BALANCED',
+
+    // Loan errors
+    LOAN_NOT_FOUND: 'LOAN_NOT_FOUND',
+
+    // Budget errors
+    BUDGET_EXISTS: 'BUDGET_EXISTS',
+    BUDGET_NOT_FOUND: 'BUDGET_NOT_FOUND',
+
+    // Recurring errors
+    RECURRING_RULE_NOT_FOUND: 'RECURRING_RULE_NOT_FOUND',
+
+    // Categorization rule errors
+    RULE_NOT_FOUND: 'RULE_NOT_FOUND',
+
+    // Currency errors
+    EXCHANGE_RATE_NOT_FOUND: 'EXCHANGE_RATE_NOT_FOUND',
+    EXCHANGE_RATE_IN_USE: 'EXCHANGE_RATE_IN_USE',
+
+    // Backup errors
+    INVALID_BACKUP: 'INVALID_BACKUP',
 
     // General errors
     INVALID_INPUT: 'INVALID_INPUT',
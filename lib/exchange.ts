@@ -0,0 +1,77 @@
+import {Money} from '@/types/money';
+import {CurrencyConverter, ExchangeRate} from '@/types/exchangeRates';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {convertMoney} from '@/lib/money';
+
+// The rate in effect on a date is the newest one for the pair whose effectiveDate
+// is on or before it. Dates before the first known rate use that first rate.
+// A missing pair is tried in reverse (1 / rate) and then through the base currency.
+export function createConverter(rates: ExchangeRate[], baseCurrency: string): CurrencyConverter {
+    const byPair: Record<string, ExchangeRate[]> = {};
+    rates.forEach(rate => {
+        const key = `${rate.fromCurrency}/${rate.toCurrency}`;
+        (byPair[key] = byPair[key] || []).push(rate);
+    });
+    Object.values(byPair).forEach(list => list.sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime()));
+
+    const findRate = (from: string, to: string, date: Date): number | null => {
+        const direct = rateOn(byPair[`${from}/${to}`], date);
+        if (direct !== null) return direct;
+
+        const inverse = rateOn(byPair[`${to}/${from}`], date);
+        return inverse !== null ? 1 / inverse : null;
+    };
+
+    const convert = (money: Money, currency: string, date: Date): Money => {
+        if (money.currency === currency) return money;
+
+        const rate = findRate(money.currency, currency, date);
+        if (rate !== null) {
+            return convertMoney(money, currency, rate);
+        }
+
+        if (money.currency !== baseCurrency && currency !== baseCurrency) {
+            const toBase = findRate(money.currency, baseCurrency, date);
+            const fromBase = findRate(baseCurrency, currency, date);
+            if (toBase !== null && fromBase !== null) {
+                return convertMoney(money, currency, toBase * fromBase);
+            }
+        }
+
+        throw new AppError(
+            `No exchange rate from ${money.currency} to ${currency}`,
+            ErrorCodes.EXCHANGE_RATE_NOT_FOUND,
+            400
+        );
+    };
+
+    const toBase = (money: Money, date: Date): Money => convert(money, baseCurrency, date);
+
+    const tryConvert = (money: Money, currency: string, date: Date): Money | null => {
+        try {
+            return convert(money, currency, date);
+        } catch (error) {
+            if (error instanceof AppError && error.code === ErrorCodes.EXCHANGE_RATE_NOT_FOUND) return null;
+            throw error;
+        }
+    };
+
+    return {
+        baseCurrency,
+        convert,
+        toBase,
+        tryConvert,
+        tryToBase: (money, date) => tryConvert(money, baseCurrency, date)
+    };
+}
+
+function rateOn(rates: ExchangeRate[] | undefined, date: Date): number | null {
+    if (!rates || !rates.length) return null;
+
+    let current = rates[0];
+    for (const rate of rates) {
+        if (rate.effectiveDate.getTime() > date.getTime()) break;
+        current = rate;
+    }
+    return current.rate;
+}
\ No newline at end of file
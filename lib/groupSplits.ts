@@ -0,0 +1,27 @@
+import {Money} from '@/types/money';
+import {GroupSplitMode, GroupSplitParticipant} from '@/types/transactions';
+import {allocateMoney, subtractMoney, sumMoney} from '@/lib/money';
+
+export const GROUP_SPLIT_MODES: { value: GroupSplitMode; label: string; }[] = [
+    {value: 'EQUAL', label: 'Equally'},
+    {value: 'SHARES', label: 'By shares'},
+    {value: 'EXACT', label: 'Exact amounts'}
+];
+
+// each participant's part, in the order given. equal and share splits always add up to
+// the total, leftover cents go to the largest fractions first
+export function getGroupShares(total: Money, mode: GroupSplitMode, participants: GroupSplitParticipant[]): Money[] {
+    switch (mode) {
+        case 'EQUAL':
+            return allocateMoney(total, participants.map(() => 1));
+        case 'SHARES':
+            return allocateMoney(total, participants.map(p => p.shares));
+        case 'EXACT':
+            return participants.map(p => p.amount);
+    }
+}
+
+// what exact amounts leave unassigned, negative when they go over the total
+export function getUnassigned(total: Money, participants: GroupSplitParticipant[]): Money {
+    return subtractMoney(total, sumMoney(participants.map(p => p.amount), total.currency));
+}
\ No newline at end of file
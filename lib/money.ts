@@ -0,0 +1,170 @@
+import {Money} from '@/types/money';
+import {Transaction} from '@/types/transactions';
+import {AppError, ErrorCodes} from '@/lib/errors';
+
+// Rounding rules:
+// - a Money amount is always an integer number of the currency's minor unit
+//   (2 digits for CAD, 0 for JPY, ...), so adding and subtracting is exact
+// - decimals coming in from forms, CSV, OFX and QIF are rounded half away from
+//   zero to the minor unit: 1.005 -> 1.01, -1.005 -> -1.01
+// - multiplying (exchange rates, percentages) rounds half to even so that
+//   repeated conversions don't drift in one direction: 0.5 -> 0, 1.5 -> 2
+// - splitting an amount uses the largest remainder method, so the parts
+//   always add back up to the original
+// - amounts in different currencies are never combined implicitly
+
+export const DEFAULT_CURRENCY = 'CAD';
+
+// offered in the account and exchange rate forms
+export const CURRENCIES = ['CAD', 'USD', 'EUR', 'GBP', 'CHF', 'JPY', 'AUD', 'MXN'];
+
+const minorDigitsCache: Record<string, number> = {};
+
+export function getMinorDigits(currency: string): number {
+    if (!(currency in minorDigitsCache)) {
+        minorDigitsCache[currency] = new Intl.NumberFormat('en', {style: 'currency', currency})
+            .resolvedOptions().maximumFractionDigits ?? 2;
+    }
+    return minorDigitsCache[currency];
+}
+
+// 15 significant digits drops the binary noise, e.g. 1.005 * 100 = 100.49999999999999
+function normalize(value: number): number {
+    return Number(value.toPrecision(15));
+}
+
+function roundHalfAwayFromZero(value: number): number {
+    const rounded = Math.round(Math.abs(normalize(value)));
+    return value < 0 ? -rounded : rounded;
+}
+
+function roundHalfEven(value: number): number {
+    const normalized = normalize(value);
+    const floor = Math.floor(normalized);
+    const fraction = normalized - floor;
+    if (fraction === 0.5) {
+        return floor % 2 === 0 ? floor : floor + 1;
+    }
+    return Math.round(normalized);
+}
+
+export function zeroMoney(currency: string = DEFAULT_CURRENCY): Money {
+    return {amount: 0, currency};
+}
+
+export function fromMajor(value: number, currency: string = DEFAULT_CURRENCY): Money {
+    if (!isFinite(value)) {
+        throw new AppError('Amount must be a number', ErrorCodes.INVALID_AMOUNT, 400);
+    }
+    return {amount: roundHalfAwayFromZero(value * Math.pow(10, getMinorDigits(currency))), currency};
+}
+
+// exact decimal parsing for text like "-1234.565", no float math involved.
+// returns null when the text is not a plain decimal number
+export function parseMoney(text: string, currency: string = DEFAULT_CURRENCY): Money | null {
+    const match = text.trim().match(/^([-+])?(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[2] && !match[3])) return null;
+
+    const digits = getMinorDigits(currency);
+    const fraction = match[3] || '';
+    let amount = Number((match[2] || '0') + fraction.padEnd(digits, '0').slice(0, digits));
+    if (fraction.charAt(digits) >= '5') {
+        amount += 1;
+    }
+
+    return {amount: match[1] === '-' && amount !== 0 ? -amount : amount, currency};
+}
+
+// for number inputs and charts only, never do arithmetic on the result
+export function toMajor(money: Money): number {
+    return money.amount / Math.pow(10, getMinorDigits(money.currency));
+}
+
+// "-12.34", for files other programs read
+export function toDecimalString(money: Money): string {
+    const digits = getMinorDigits(money.currency);
+    const absolute = String(Math.abs(money.amount)).padStart(digits + 1, '0');
+    const sign = money.amount < 0 ? '-' : '';
+    if (digits === 0) return sign + absolute;
+    return `${sign}${absolute.slice(0, -digits)}.${absolute.slice(-digits)}`;
+}
+
+// documents written before amounts were stored as Money hold a float in major units
+export function toMoney(value: Money | number | null | undefined, currency: string = DEFAULT_CURRENCY): Money {
+    if (typeof value === 'number') return fromMajor(value, currency);
+    return value || zeroMoney(currency);
+}
+
+function assertSameCurrency(a: Money, b: Money) {
+    if (a.currency !== b.currency) {
+        throw new AppError(
+            `Cannot combine ${a.currency} and ${b.currency} amounts`,
+            ErrorCodes.CURRENCY_MISMATCH,
+            400
+        );
+    }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+    assertSameCurrency(a, b);
+    return {amount: a.amount + b.amount, currency: a.currency};
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+    assertSameCurrency(a, b);
+    return {amount: a.amount - b.amount, currency: a.currency};
+}
+
+export function negateMoney(money: Money): Money {
+    return {amount: -money.amount || 0, currency: money.currency};
+}
+
+export function sumMoney(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+    return values.reduce(addMoney, zeroMoney(currency));
+}
+
+export function multiplyMoney(money: Money, factor: number): Money {
+    return {amount: roundHalfEven(money.amount * factor) || 0, currency: money.currency};
+}
+
+// the same face value in another currency, for forms where the currency is picked
+// after the amount was typed. this is not a conversion
+export function withCurrency(money: Money, currency: string): Money {
+    if (money.currency === currency) return money;
+    return fromMajor(toMajor(money), currency);
+}
+
+// rate is the price of one unit of money.currency in the target currency
+export function convertMoney(money: Money, currency: string, rate: number): Money {
+    if (money.currency === currency) return money;
+
+    const scale = Math.pow(10, getMinorDigits(currency) - getMinorDigits(money.currency));
+    return {amount: roundHalfEven(money.amount * rate * scale) || 0, currency};
+}
+
+// splits money in proportion to the weights, the parts always add up to the original
+export function allocateMoney(money: Money, weights: number[]): Money[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (!weights.length || totalWeight <= 0) {
+        throw new AppError('Cannot split an amount without weights', ErrorCodes.INVALID_INPUT, 400);
+    }
+
+    const total = Math.abs(money.amount);
+    const exact = weights.map(weight => total * weight / totalWeight);
+    const parts = exact.map(value => Math.floor(normalize(value)));
+    let remainder = total - parts.reduce((sum, part) => sum + part, 0);
+
+    // hand out the leftover minor units to the largest fractional parts, earliest first on ties
+    const order = exact
+        .map((value, index) => ({index, fraction: value - parts[index]}))
+        .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+    for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+        parts[order[i].index]++;
+    }
+
+    return parts.map(part => ({amount: money.amount < 0 ? -part || 0 : part, currency: money.currency}));
+}
+
+export function signedAmount(transaction: Pick<Transaction, 'amount' | 'type'>): Money {
+    return transaction.type === 'POSITIVE' ? transaction.amount : negateMoney(transaction.amount);
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+import {Account, NetWorthPoint} from '@/types/accounts';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {Money} from '@/types/money';
+import {Transaction} from '@/types/transactions';
+import {addMoney, signedAmount, subtractMoney, zeroMoney} from '@/lib/money';
+import {isLiability} from '@/lib/accounts';
+
+// the last moment of every month from the one holding `from` up to `to`.
+// the running month ends at `to` rather than in the future
+export function getMonthEnds(from: Date, to: Date): Date[] {
+    const monthEnds: Date[] = [];
+    let year = from.getFullYear();
+    let month = from.getMonth();
+
+    while (year < to.getFullYear() || (year === to.getFullYear() && month <= to.getMonth())) {
+        const end = new Date(year, month + 1, 1, 0, 0, 0, -1);
+        monthEnds.push(end < to ? end : to);
+        month++;
+        if (month > 11) {
+            month = 0;
+            year++;
+        }
+    }
+
+    return monthEnds;
+}
+
+// an archived account only counts for the month ends before it was archived
+function isOpenAt(account: Account, date: Date): boolean {
+    return !account.archivedAt || account.archivedAt > date;
+}
+
+// balances at each month end from the first transaction onwards. every transaction is
+// converted at the rate of its own date, the same way the dashboard balance is
+export function getNetWorthHistory(
+    accounts: Account[],
+    transactionsByAccount: Record<string, Transaction[]>,
+    converter: CurrencyConverter,
+    to: Date = new Date()
+): NetWorthPoint[] {
+    const baseCurrency = converter.baseCurrency;
+    const sorted: Record<string, Transaction[]> = {};
+    accounts.forEach(account => {
+        sorted[account.id] = (transactionsByAccount[account.id] || [])
+            .slice()
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    });
+
+    const firstTimes = accounts
+        .filter(account => sorted[account.id].length > 0)
+        .map(account => sorted[account.id][0].createdAt.getTime());
+    if (firstTimes.length === 0) return [];
+    const first = new Date(Math.min(...firstTimes));
+
+    const positions: Record<string, number> = {};
+    const balances: Record<string, Money> = {};
+    accounts.forEach(account => {
+        positions[account.id] = 0;
+        balances[account.id] = zeroMoney(baseCurrency);
+    });
+
+    return getMonthEnds(first, to).map(date => {
+        const byAccount: Record<string, Money> = {};
+        let assets = zeroMoney(baseCurrency);
+        let liabilities = zeroMoney(baseCurrency);
+
+        accounts.forEach(account => {
+            const transactions = sorted[account.id];
+            while (positions[account.id] < transactions.length && transactions[positions[account.id]].createdAt <= date) {
+                const transaction = transactions[positions[account.id]];
+                // left out when there is no rate, like the other base currency totals
+                const amount = converter.tryToBase(signedAmount(transaction), transaction.createdAt);
+                if (amount) balances[account.id] = addMoney(balances[account.id], amount);
+                positions[account.id]++;
+            }
+
+            if (!isOpenAt(account, date) || positions[account.id] === 0) return;
+
+            byAccount[account.id] = balances[account.id];
+            if (isLiability(account.type)) {
+                liabilities = subtractMoney(liabilities, balances[account.id]);
+            } else {
+                assets = addMoney(assets, balances[account.id]);
+            }
+        });
+
+        return {date, assets, liabilities, netWorth: subtractMoney(assets, liabilities), byAccount};
+    });
+}
\ No newline at end of file
@@ -0,0 +1,122 @@
+import {StatementEntry} from '@/types/imports';
+import {Account} from '@/types/accounts';
+import {Transaction} from '@/types/transactions';
+import {hashString} from '@/lib/utils';
+import {DEFAULT_CURRENCY, parseMoney, signedAmount, toDecimalString, toMajor} from '@/lib/money';
+
+// handles both the SGML flavour (OFX 1.x, no closing tags) and XML (OFX 2.x).
+// QFX is OFX with a couple of extra Quicken tags, so it parses the same way
+export function parseOfx(text: string, defaultCurrency: string = DEFAULT_CURRENCY): StatementEntry[] {
+    const currency = getTag(text, 'CURDEF').toUpperCase() || defaultCurrency;
+    const blocks = text.split(/<STMTTRN>/i).slice(1);
+
+    return blocks.map((rawBlock, index) => {
+        const block = rawBlock.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0];
+
+        const date = parseOfxDate(getTag(block, 'DTPOSTED'));
+        const amount = parseMoney(getTag(block, 'TRNAMT').replace(',', '.'), currency);
+        const name = getTag(block, 'NAME') || getTag(block, 'PAYEE');
+        const memo = getTag(block, 'MEMO');
+
+        if (!date || !amount) {
+            throw new Error(`Transaction ${index + 1} is missing a date or amount`);
+        }
+
+        const fitId = getTag(block, 'FITID');
+
+        return {
+            externalId: fitId || hashString(`${date.toISOString()}|${toMajor(amount)}|${name}|${memo}|${index}`),
+            date,
+            amount,
+            payee: decodeEntities(name),
+            memo: decodeEntities(memo)
+        };
+    });
+}
+
+function getTag(block: string, tag: string): string {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+}
+
+// YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]], only the date part matters here
+function parseOfxDate(value: string): Date | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
+
+// OFX 2.2 (XML) bank statement for a single account
+export function buildOfx(account: Account, transactions: Transaction[], startDate: Date, endDate: Date): string {
+    const now = formatOfxDate(new Date());
+    const statementTransactions = transactions.map(transaction => {
+        const trnType = transaction.category === 'TRANSFER'
+            ? 'XFER'
+            : transaction.type === 'POSITIVE' ? 'CREDIT' : 'DEBIT';
+
+        return [
+            '<STMTTRN>',
+            `<TRNTYPE>${trnType}</TRNTYPE>`,
+            `<DTPOSTED>${formatOfxDate(transaction.createdAt)}</DTPOSTED>`,
+            `<TRNAMT>${toDecimalString(signedAmount(transaction))}</TRNAMT>`,
+            `<FITID>${encodeEntities(transaction.id)}</FITID>`,
+            `<NAME>${encodeEntities((transaction.partyName || transaction.description).slice(0, 32))}</NAME>`,
+            `<MEMO>${encodeEntities(transaction.description)}</MEMO>`,
+            '</STMTTRN>'
+        ].join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+        '<OFX>',
+        '<SIGNONMSGSRSV1><SONRS>',
+        '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+        `<DTSERVER>${now}</DTSERVER>`,
+        '<LANGUAGE>ENG</LANGUAGE>',
+        '</SONRS></SIGNONMSGSRSV1>',
+        '<BANKMSGSRSV1><STMTTRNRS>',
+        '<TRNUID>0</TRNUID>',
+        '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+        '<STMTRS>',
+        `<CURDEF>${account.currency}</CURDEF>`,
+        '<BANKACCTFROM>',
+        '<BANKID>0</BANKID>',
+        `<ACCTID>${encodeEntities(account.id)}</ACCTID>`,
+        '<ACCTTYPE>CHECKING</ACCTTYPE>',
+        '</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        `<DTSTART>${formatOfxDate(startDate)}</DTSTART>`,
+        `<DTEND>${formatOfxDate(endDate)}</DTEND>`,
+        ...statementTransactions,
+        '</BANKTRANLIST>',
+        `<LEDGERBAL><BALAMT>${toDecimalString(account.balance)}</BALAMT><DTASOF>${now}</DTASOF></LEDGERBAL>`,
+        '</STMTRS>',
+        '</STMTTRNRS></BANKMSGSRSV1>',
+        '</OFX>'
+    ].join('\n');
+}
+
+function formatOfxDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+        `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function encodeEntities(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import {Party, PartyBalance} from '@/types/parties';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {Transaction} from '@/types/transactions';
+import {addMoney, subtractMoney, zeroMoney} from '@/lib/money';
+import {getRemainingPayback} from '@/lib/paybacks';
+
+// spacing and case don't make a different person
+export function normalizePartyName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function getPartyNames(party: Pick<Party, 'name' | 'aliases'>): string[] {
+    return [party.name, ...party.aliases].map(normalizePartyName);
+}
+
+// matches the name and every alias
+export function findPartyByName(parties: Party[], name: string): Party | undefined {
+    const normalized = normalizePartyName(name);
+    return parties.find(party => getPartyNames(party).includes(normalized));
+}
+
+// money the user paid out for someone is owed back to them, money received from someone
+// is owed to that person. only what hasn't been repaid yet counts
+export function isOpenPayback(transaction: Transaction): boolean {
+    return transaction.requiresPayback && !!transaction.paybackDetails && transaction.paybackDetails.status !== 'PAID';
+}
+
+export function getPartyBalance(transactions: Transaction[], converter: CurrencyConverter): PartyBalance {
+    let owedToUser = zeroMoney(converter.baseCurrency);
+    let owedByUser = zeroMoney(converter.baseCurrency);
+
+    transactions.filter(isOpenPayback).forEach(transaction => {
+        // a payback with no rate to the base currency is left out of the totals
+        const amount = converter.tryToBase(getRemainingPayback(transaction), transaction.createdAt);
+        if (!amount) return;
+        if (transaction.type === 'NEGATIVE') {
+            owedToUser = addMoney(owedToUser, amount);
+        } else {
+            owedByUser = addMoney(owedByUser, amount);
+        }
+    });
+
+    return {owedToUser, owedByUser, net: subtractMoney(owedToUser, owedByUser)};
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import {Money} from '@/types/money';
+import {PaybackStatus, Transaction} from '@/types/transactions';
+import {UserSettings} from '@/types/settings';
+import {subtractMoney, zeroMoney} from '@/lib/money';
+
+// what is still outstanding, never below zero
+export function getRemainingPayback(transaction: Pick<Transaction, 'amount' | 'paybackDetails'>): Money {
+    if (!transaction.paybackDetails) return zeroMoney(transaction.amount.currency);
+    const remaining = subtractMoney(transaction.amount, transaction.paybackDetails.repaid);
+    return remaining.amount > 0 ? remaining : zeroMoney(transaction.amount.currency);
+}
+
+export function getPaybackStatus(amount: Money, repaid: Money): PaybackStatus {
+    if (repaid.amount >= amount.amount) return 'PAID';
+    return repaid.amount > 0 ? 'PARTIALLY_PAID' : 'PENDING';
+}
+
+// money lent out comes back in, money borrowed goes back out
+export function getRepaymentType(payback: Pick<Transaction, 'type'>): Transaction['type'] {
+    return payback.type === 'NEGATIVE' ? 'POSITIVE' : 'NEGATIVE';
+}
+
+export function getPaybackStatusLabel(status: PaybackStatus): string {
+    return status === 'PARTIALLY_PAID' ? 'Partially paid' : status === 'PAID' ? 'Paid' : 'Pending';
+}
+
+// whole calendar days from today to the due date, negative once overdue
+export function getDaysUntilDue(transaction: Pick<Transaction, 'paybackDetails'>, now: Date = new Date()): number {
+    if (!transaction.paybackDetails) return Infinity;
+    const due = transaction.paybackDetails.dueDate;
+    const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+    return Math.round((Date.UTC(due.getFullYear(), due.getMonth(), due.getDate()) - today) / 86400000);
+}
+
+export function describeDueDate(days: number): string {
+    if (days < 0) return `${-days} day${days === -1 ? '' : 's'} overdue`;
+    if (days === 0) return 'due today';
+    return `due in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+// open paybacks that are overdue or coming due soon, soonest first, leaving out snoozed ones
+export function getDueReminders(
+    openPaybacks: Transaction[],
+    settings: Pick<UserSettings, 'paybackReminders' | 'snoozedReminders'>,
+    now: Date = new Date()
+): Transaction[] {
+    if (!settings.paybackReminders.enabled) return [];
+
+    return openPaybacks
+        .filter(t => getDaysUntilDue(t, now) <= settings.paybackReminders.daysAhead)
+        .filter(t => !settings.snoozedReminders[t.id] || settings.snoozedReminders[t.id] <= now)
+        .sort(compareDueDates);
+}
+
+// soonest due first, for sort
+export function compareDueDates(a: Pick<Transaction, 'paybackDetails'>, b: Pick<Transaction, 'paybackDetails'>): number {
+    return (a.paybackDetails?.dueDate.getTime() ?? Infinity) - (b.paybackDetails?.dueDate.getTime() ?? Infinity);
+}
\ No newline at end of file
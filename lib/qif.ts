@@ -0,0 +1,81 @@
+import {StatementEntry} from '@/types/imports';
+import {hashString} from '@/lib/utils';
+import {DEFAULT_CURRENCY, parseMoney, toMajor} from '@/lib/money';
+
+export type QifDateOrder = 'MDY' | 'DMY';
+
+// QIF has no transaction ids, so duplicates are detected with a hash of the
+// content. identical rows in the same file get a running number so that two
+// real coffees on the same day are not collapsed into one
+export function parseQif(
+    text: string,
+    dateOrder: QifDateOrder = 'MDY',
+    currency: string = DEFAULT_CURRENCY
+): StatementEntry[] {
+    const entries: StatementEntry[] = [];
+    const seen: Record<string, number> = {};
+    let current: Record<string, string> = {};
+
+    const flush = () => {
+        if (!current.D && !current.T && !current.U) {
+            current = {};
+            return;
+        }
+
+        const date = parseQifDate(current.D || '', dateOrder);
+        const amount = parseMoney((current.T || current.U || '').replace(/,/g, ''), currency);
+        if (!date || !amount) {
+            throw new Error(`Record ${entries.length + 1} is missing a date or amount`);
+        }
+
+        const payee = current.P || '';
+        const memo = current.M || '';
+        // toMajor keeps the hash identical to what earlier imports stored
+        const content = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}|${toMajor(amount)}|${payee}|${memo}`;
+        seen[content] = (seen[content] || 0) + 1;
+
+        entries.push({
+            externalId: hashString(`${content}|${seen[content]}`),
+            date,
+            amount,
+            payee,
+            memo
+        });
+        current = {};
+    };
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('!')) continue;
+
+        if (line === '^') {
+            flush();
+            continue;
+        }
+
+        const code = line.charAt(0);
+        // split lines (S/E/$) belong to the parent record, only the first of each code counts
+        if (!(code in current)) {
+            current[code] = line.slice(1).trim();
+        }
+    }
+    flush();
+
+    return entries;
+}
+
+// accepts 12/31/2024, 12/31'24, 12-31-24 and the DMY equivalents
+function parseQifDate(value: string, dateOrder: QifDateOrder): Date | null {
+    const parts = value.split(/[^0-9]/).filter(Boolean).map(Number);
+    if (parts.length < 3) return null;
+
+    const [first, second, rawYear] = parts;
+    const [month, day] = dateOrder === 'MDY' ? [first, second] : [second, first];
+    const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+
+    const date = new Date(year, month - 1, day);
+    if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return null;
+    }
+    return date;
+}
\ No newline at end of file
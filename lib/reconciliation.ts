@@ -0,0 +1,61 @@
+import {Money} from '@/types/money';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {Transaction} from '@/types/transactions';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {signedAmount, sumMoney} from '@/lib/money';
+import {formatDate} from '@/lib/utils';
+
+// statements cover whole days, so everything up to the end of the statement date counts
+function isOnStatement(transaction: Transaction, statementDate: Date): boolean {
+    const end = new Date(statementDate.getFullYear(), statementDate.getMonth(), statementDate.getDate() + 1);
+    return transaction.createdAt < end;
+}
+
+// the checklist for a statement: everything not locked by an earlier reconciliation, oldest first
+export function getStatementTransactions(transactions: Transaction[], statementDate: Date): Transaction[] {
+    return transactions
+        .filter(t => t.clearedStatus !== 'RECONCILED' && isOnStatement(t, statementDate))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+function getCounted(transactions: Transaction[], statementDate: Date): Transaction[] {
+    return transactions.filter(t =>
+        t.clearedStatus === 'RECONCILED' || (t.clearedStatus === 'CLEARED' && isOnStatement(t, statementDate))
+    );
+}
+
+// cleared transactions in another currency with no rate for their date. the cleared balance
+// can't be worked out until each of them has one
+export function getMissingRates(
+    transactions: Transaction[],
+    statementDate: Date,
+    currency: string,
+    converter: CurrencyConverter
+): Transaction[] {
+    return getCounted(transactions, statementDate)
+        .filter(t => !converter.tryConvert(signedAmount(t), currency, t.createdAt));
+}
+
+// what the bank should show: every reconciled transaction plus the ones cleared on this
+// statement, in the account's currency at each transaction's own rate
+export function getClearedBalance(
+    transactions: Transaction[],
+    statementDate: Date,
+    currency: string,
+    converter: CurrencyConverter
+): Money {
+    const missing = getMissingRates(transactions, statementDate, currency, converter)[0];
+    if (missing) {
+        throw new AppError(
+            `"${missing.description}" on ${formatDate(missing.createdAt)} needs an exchange rate ` +
+            `from ${missing.amount.currency} to ${currency}`,
+            ErrorCodes.EXCHANGE_RATE_NOT_FOUND,
+            400
+        );
+    }
+
+    return sumMoney(
+        getCounted(transactions, statementDate).map(t => converter.convert(signedAmount(t), currency, t.createdAt)),
+        currency
+    );
+}
\ No newline at end of file
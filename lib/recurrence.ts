@@ -0,0 +1,89 @@
+import {RecurrenceFrequency, RecurringOccurrence, RecurringRule} from '@/types/recurring';
+
+// safety net so a bad rule can never spin forever
+const MAX_OCCURRENCES = 5000;
+
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// nth occurrence counted from the start date. months and years keep the
+// original day and clamp to the end of shorter months (Jan 31 -> Feb 28)
+export function getNthOccurrence(start: Date, frequency: RecurrenceFrequency, n: number): Date {
+    const base = startOfDay(start);
+
+    switch (frequency) {
+        case 'DAILY':
+            return new Date(base.getFullYear(), base.getMonth(), base.getDate() + n);
+        case 'WEEKLY':
+            return new Date(base.getFullYear(), base.getMonth(), base.getDate() + n * 7);
+        case 'BIWEEKLY':
+            return new Date(base.getFullYear(), base.getMonth(), base.getDate() + n * 14);
+        case 'MONTHLY':
+            return clampedDate(base.getFullYear(), base.getMonth() + n, base.getDate());
+        case 'YEARLY':
+            return clampedDate(base.getFullYear() + n, base.getMonth(), base.getDate());
+    }
+}
+
+function clampedDate(year: number, month: number, day: number): Date {
+    const lastDay = new Date(year, month + 1, 0).getDate();
+    return new Date(year, month, Math.min(day, lastDay));
+}
+
+// all occurrence dates of a rule that fall within [from, to]
+export function getOccurrenceDates(
+    rule: Pick<RecurringRule, 'startDate' | 'frequency' | 'endDate' | 'occurrenceCount'>,
+    from: Date,
+    to: Date
+): Date[] {
+    const dates: Date[] = [];
+    const fromDay = startOfDay(from);
+    const limit = rule.occurrenceCount ?? MAX_OCCURRENCES;
+
+    for (let n = 0; n < Math.min(limit, MAX_OCCURRENCES); n++) {
+        const date = getNthOccurrence(rule.startDate, rule.frequency, n);
+        if (date > to) break;
+        if (rule.endDate && date > rule.endDate) break;
+        if (date >= fromDay) dates.push(date);
+    }
+
+    return dates;
+}
+
+export function getOccurrences(rule: RecurringRule, from: Date, to: Date): RecurringOccurrence[] {
+    return getOccurrenceDates(rule, from, to).map(date => {
+        const dateKey = toDateKey(date);
+        const override = rule.overrides[dateKey];
+
+        return {
+            rule,
+            date,
+            dateKey,
+            template: override ? {...rule.template, ...override} : rule.template,
+            isSkipped: rule.skippedDates.includes(dateKey),
+            isOverridden: Boolean(override)
+        };
+    });
+}
+
+export function describeFrequency(frequency: RecurrenceFrequency): string {
+    switch (frequency) {
+        case 'DAILY':
+            return 'Daily';
+        case 'WEEKLY':
+            return 'Weekly';
+        case 'BIWEEKLY':
+            return 'Every 2 weeks';
+        case 'MONTHLY':
+            return 'Monthly';
+        case 'YEARLY':
+            return 'Yearly';
+    }
+}
\ No newline at end of file
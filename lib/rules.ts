@@ -0,0 +1,124 @@
+import {CategorizationRule, RuleChange, RuleConditions} from '@/types/rules';
+import {CreateTransactionDTO, Transaction} from '@/types/transactions';
+import {Money} from '@/types/money';
+import {isIncomeOrExpense, UNCATEGORIZED_CATEGORY} from '@/services/categories';
+import {normalizeTags} from '@/lib/tags';
+
+// due date given to a transaction a rule marks as requiring payback
+export const RULE_PAYBACK_DAYS = 30;
+
+interface RuleSubject {
+    accountId: string;
+    amount: Money;
+    type: 'POSITIVE' | 'NEGATIVE';
+    description: string;
+    partyName?: string | null;
+}
+
+interface RuleOutcome {
+    category: string | null;
+    partyName: string | null;
+    tags: string[];
+    requiresPayback: boolean;
+    ruleNames: string[];
+}
+
+export function matchesConditions(conditions: RuleConditions, subject: RuleSubject): boolean {
+    if (conditions.accountId && conditions.accountId !== subject.accountId) return false;
+    if (conditions.type && conditions.type !== subject.type) return false;
+
+    if (conditions.descriptionContains) {
+        const needle = conditions.descriptionContains.toLowerCase();
+        const haystack = `${subject.description} ${subject.partyName || ''}`.toLowerCase();
+        if (!haystack.includes(needle)) return false;
+    }
+
+    const {minAmount, maxAmount} = conditions;
+    if (minAmount && (minAmount.currency !== subject.amount.currency || subject.amount.amount < minAmount.amount)) {
+        return false;
+    }
+    if (maxAmount && (maxAmount.currency !== subject.amount.currency || subject.amount.amount > maxAmount.amount)) {
+        return false;
+    }
+
+    return true;
+}
+
+// rules run in priority order. the first matching rule that sets a field wins it,
+// tags from every matching rule add up. null when nothing matches
+export function evaluateRules(rules: CategorizationRule[], subject: RuleSubject): RuleOutcome | null {
+    const outcome: RuleOutcome = {category: null, partyName: null, tags: [], requiresPayback: false, ruleNames: []};
+
+    [...rules]
+        .filter(rule => rule.enabled)
+        .sort((a, b) => a.priority - b.priority)
+        .filter(rule => matchesConditions(rule.conditions, subject))
+        .forEach(rule => {
+            outcome.category = outcome.category || rule.actions.category;
+            outcome.partyName = outcome.partyName || rule.actions.partyName;
+            outcome.tags.push(...rule.actions.tags);
+            outcome.requiresPayback = outcome.requiresPayback || rule.actions.requiresPayback;
+            outcome.ruleNames.push(rule.name);
+        });
+
+    return outcome.ruleNames.length ? {...outcome, tags: normalizeTags(outcome.tags)} : null;
+}
+
+// what the user entered wins: a rule only fills in a category that is still
+// uncategorized and a party that is still empty
+export function applyRules(rules: CategorizationRule[], data: CreateTransactionDTO): CreateTransactionDTO {
+    const outcome = evaluateRules(rules, data);
+    if (!outcome) return data;
+
+    const result = {...data, tags: normalizeTags([...(data.tags || []), ...outcome.tags])};
+    if (outcome.category && !data.splits && (!data.category || data.category === UNCATEGORIZED_CATEGORY)) {
+        result.category = outcome.category;
+    }
+    if (outcome.partyName && !data.partyName) {
+        result.partyName = outcome.partyName;
+    }
+    if (outcome.requiresPayback && !data.requiresPayback) {
+        result.requiresPayback = true;
+        result.paybackDetails = {dueDate: getPaybackDueDate(data.transactionDate || new Date())};
+    }
+    return result;
+}
+
+// the same for a saved transaction, as a list of differences. with overwrite the
+// rule's category and party replace whatever the transaction has. reconciled ones are locked and left alone
+export function getRuleChange(
+    rules: CategorizationRule[],
+    transaction: Transaction,
+    overwrite: boolean
+): RuleChange | null {
+    if (!isIncomeOrExpense(transaction) || transaction.chainId || transaction.clearedStatus === 'RECONCILED') {
+        return null;
+    }
+
+    const outcome = evaluateRules(rules, transaction);
+    if (!outcome) return null;
+
+    const canSetCategory = !transaction.splits &&
+        (overwrite || transaction.category === UNCATEGORIZED_CATEGORY);
+    const canSetParty = overwrite || !transaction.partyName;
+
+    const change: RuleChange = {
+        transaction,
+        category: canSetCategory && outcome.category && outcome.category !== transaction.category
+            ? outcome.category
+            : null,
+        partyName: canSetParty && outcome.partyName && outcome.partyName !== transaction.partyName
+            ? outcome.partyName
+            : null,
+        addedTags: outcome.tags.filter(tag => !transaction.tags.includes(tag)),
+        requiresPayback: outcome.requiresPayback && !transaction.requiresPayback,
+        ruleNames: outcome.ruleNames
+    };
+
+    const changesSomething = change.category || change.partyName || change.addedTags.length || change.requiresPayback;
+    return changesSomething ? change : null;
+}
+
+export function getPaybackDueDate(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + RULE_PAYBACK_DAYS);
+}
\ No newline at end of file
@@ -3,6 +3,19 @@ import {TransactionService} from '@/services/transactions';
 import {UserService} from '@/services/user';
 import {CategoryService} from '@/services/categories';
 import {StatsService} from "@/services/stats";
+import {BudgetService} from '@/services/budgets';
+import {RecurringService} from '@/services/recurring';
+import {ImportService} from '@/services/imports';
+import {ExportService} from '@/services/exports';
+import {BackupService} from '@/services/backups';
+import {MigrationService} from '@/services/migrations';
+import {SettingsService} from '@/services/settings';
+import {ExchangeRateService} from '@/services/exchangeRates';
+import {RuleService} from '@/services/rules';
+import {DuplicateService} from '@/services/duplicates';
+import {ReconciliationService} from '@/services/reconciliations';
+import {PartyService} from '@/services/parties';
+import {LoanService} from '@/services/loans';
 
 export class ServiceContainer {
     private static instance: ServiceContainer;
@@ -12,7 +25,20 @@ export class ServiceContainer {
         public readonly transactions: TransactionService,
         public readonly users: UserService,
         public readonly categories: CategoryService,
-        public readonly stats: StatsService
+        public readonly stats: StatsService,
+        public readonly budgets: BudgetService,
+        public readonly recurring: RecurringService,
+        public readonly imports: ImportService,
+        public readonly exports: ExportService,
+        public readonly backups: BackupService,
+        public readonly migrations: MigrationService,
+        public readonly settings: SettingsService,
+        public readonly exchangeRates: ExchangeRateService,
+        public readonly rules: RuleService,
+        public readonly duplicates: DuplicateService,
+        public readonly reconciliations: ReconciliationService,
+        public readonly parties: PartyService,
+        public readonly loans: LoanService
     ) {
     }
 
@@ -24,12 +50,24 @@ export class ServiceContainer {
                 new TransactionService(),
                 new UserService(),
                 new CategoryService(),
-                new StatsService()
+                new StatsService(),
+                new BudgetService(),
+                new RecurringService(),
+                new ImportService(),
+                new ExportService(),
+                new BackupService(),
+                new MigrationService(),
+                new SettingsService(),
+                new ExchangeRateService(),
+                new RuleService(),
+                new DuplicateService(),
+                new ReconciliationService(),
+                new PartyService(),
+                new LoanService()
             );
         }
         return ServiceContainer.instance;
     }
 }
 
-export const services = ServiceContainer.getInstance();
-
+export const services = ServiceContainer.getInstance();
\ No newline at end of file
@@ -0,0 +1,40 @@
+import {Money} from '@/types/money';
+import {SettlementPayment} from '@/types/parties';
+
+interface Position {
+    partyId: string | null;
+    amount: number;
+}
+
+// payments that clear every balance, the biggest debtor paying the biggest creditor until one
+// of them is square. that takes at most one payment fewer than there are people with a balance,
+// finding the true minimum is NP-hard and rarely does better.
+// nets are what each party owes the user, negative when the user owes them, in one currency
+export function getSettlementPayments(nets: Record<string, Money>, currency: string): SettlementPayment[] {
+    const positions: Position[] = Object.keys(nets)
+        .filter(partyId => nets[partyId].amount !== 0)
+        .map(partyId => ({partyId, amount: nets[partyId].amount}));
+    const userAmount = -positions.reduce((sum, position) => sum + position.amount, 0);
+    if (userAmount !== 0) positions.push({partyId: null, amount: userAmount});
+
+    // a positive amount is owed by that party, a negative one is owed to them
+    const debtors = positions.filter(p => p.amount > 0).sort((a, b) => b.amount - a.amount);
+    const creditors = positions
+        .filter(p => p.amount < 0)
+        .map(p => ({...p, amount: -p.amount}))
+        .sort((a, b) => b.amount - a.amount);
+
+    const payments: SettlementPayment[] = [];
+    let d = 0;
+    let c = 0;
+    while (d < debtors.length && c < creditors.length) {
+        const amount = Math.min(debtors[d].amount, creditors[c].amount);
+        payments.push({from: debtors[d].partyId, to: creditors[c].partyId, amount: {amount, currency}});
+
+        debtors[d].amount -= amount;
+        creditors[c].amount -= amount;
+        if (debtors[d].amount === 0) d++;
+        if (creditors[c].amount === 0) c++;
+    }
+    return payments;
+}
\ No newline at end of file
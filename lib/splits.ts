@@ -0,0 +1,31 @@
+import {Money} from '@/types/money';
+import {TransactionSplit} from '@/types/transactions';
+import {allocateMoney} from '@/lib/money';
+
+interface Categorized {
+    category: string;
+    amount: Money;
+    splits?: TransactionSplit[] | null;
+}
+
+// what each category gets out of a transaction: the split lines when it has any,
+// otherwise the whole amount under its one category. pass amount to spread an
+// already converted total over the lines in the same proportions
+export function getCategoryAmounts(
+    transaction: Categorized,
+    amount: Money = transaction.amount
+): { category: string; amount: Money; }[] {
+    const splits = transaction.splits;
+    if (!splits || !splits.length) {
+        return [{category: transaction.category, amount}];
+    }
+
+    const parts = allocateMoney(amount, splits.map(split => split.amount.amount));
+    return splits.map((split, index) => ({category: split.category, amount: parts[index]}));
+}
+
+export function getCategories(transaction: Categorized): string[] {
+    return transaction.splits && transaction.splits.length
+        ? transaction.splits.map(split => split.category)
+        : [transaction.category];
+}
\ No newline at end of file
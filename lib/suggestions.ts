@@ -0,0 +1,72 @@
+import {CategorySuggestion, SuggestionModel, Transaction} from '@/types/transactions';
+import {isIncomeOrExpense, SPLIT_CATEGORY, UNCATEGORIZED_CATEGORY} from '@/services/categories';
+
+// words shorter than this and plain numbers (dates, store and card numbers) say little
+const MIN_TOKEN_LENGTH = 3;
+
+export function tokenize(text: string): string[] {
+    const tokens = text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length >= MIN_TOKEN_LENGTH && !/^\d+$/.test(token));
+    return Array.from(new Set(tokens));
+}
+
+// only transactions with one real category teach the model anything
+export function buildSuggestionModel(transactions: Transaction[]): SuggestionModel {
+    const model: SuggestionModel = {tokens: {}, outcomes: {}};
+
+    transactions
+        .filter(t =>
+            !t.chainId &&
+            !t.splits &&
+            isIncomeOrExpense(t) &&
+            ![UNCATEGORIZED_CATEGORY, SPLIT_CATEGORY].includes(t.category)
+        )
+        .forEach(t => {
+            const partyName = t.partyName || null;
+            const key = `${t.type}|${t.category}|${partyName || ''}`;
+            model.outcomes[key] = {type: t.type, category: t.category, partyName};
+
+            tokenize(t.description).forEach(token => {
+                const counts = model.tokens[token] = model.tokens[token] || {};
+                counts[key] = (counts[key] || 0) + 1;
+            });
+        });
+
+    return model;
+}
+
+// each word of the description votes for the outcomes it was seen with, in
+// proportion to how often. words never seen before vote for nothing, so a
+// description that is mostly new gets low confidence everywhere
+export function getSuggestions(
+    model: SuggestionModel,
+    description: string,
+    type: Transaction['type'],
+    limit: number = 3
+): CategorySuggestion[] {
+    const tokens = tokenize(description);
+    if (!tokens.length) return [];
+
+    const scores: Record<string, number> = {};
+    tokens.forEach(token => {
+        const counts = model.tokens[token];
+        if (!counts) return;
+
+        const keys = Object.keys(counts).filter(key => model.outcomes[key].type === type);
+        const total = keys.reduce((sum, key) => sum + counts[key], 0);
+        keys.forEach(key => {
+            scores[key] = (scores[key] || 0) + counts[key] / total;
+        });
+    });
+
+    return Object.keys(scores)
+        .map(key => ({
+            category: model.outcomes[key].category,
+            partyName: model.outcomes[key].partyName,
+            confidence: scores[key] / tokens.length
+        }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, limit);
+}
\ No newline at end of file
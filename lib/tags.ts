@@ -0,0 +1,10 @@
+// tags are compared case-insensitively, so they are stored trimmed and lower case
+// with spaces turned into dashes: " Vacation 2026 " -> "vacation-2026"
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function normalizeTags(tags: string[] | null | undefined): string[] {
+    if (!tags) return [];
+    return Array.from(new Set(tags.map(normalizeTag).filter(Boolean))).sort();
+}
\ No newline at end of file
@@ -1,8 +1,11 @@
-export function formatCurrency(amount: number): string {
+import {Money} from '@/types/money';
+import {toMajor} from '@/lib/money';
+
+export function formatCurrency(money: Money): string {
     return new Intl.NumberFormat('en-CA', {
         style: 'currency',
-        currency: 'CAD'
-    }).format(amount);
+        currency: money.currency
+    }).format(toMajor(money));
 }
 
 export function formatDate(date: Date): string {
@@ -13,4 +16,22 @@ export function formatDate(date: Date): string {
     }).format(date);
 }
 
-1
\ No newline at end of file
+// 32-bit FNV-1a, used to fingerprint imported rows
+export function hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+    const blob = new Blob([content], {type: mimeType});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
\ No newline at end of file
@@ -1,6 +1,27 @@
 import {AppError, ErrorCodes} from './errors';
-import {CreateAccountDTO} from '@/types/accounts';
-import {CreateTransactionDTO} from '@/types/transactions';
+import {AccountType, CreateAccountDTO} from '@/types/accounts';
+import {ACCOUNT_TYPES, isLiability} from '@/lib/accounts';
+import {
+    CreateGroupExpenseDTO,
+    CreateRepaymentDTO,
+    CreateTransactionDTO,
+    CreateTransferDTO,
+    Transaction,
+    TransactionSplit
+} from '@/types/transactions';
+import {CreateBudgetDTO} from '@/types/budgets';
+import {CreateRecurringRuleDTO} from '@/types/recurring';
+import {Money} from '@/types/money';
+import {CreateExchangeRateDTO} from '@/types/exchangeRates';
+import {CreateRuleDTO} from '@/types/rules';
+import {CreateReconciliationDTO} from '@/types/reconciliations';
+import {CreatePartyDTO} from '@/types/parties';
+import {getRemainingPayback} from '@/lib/paybacks';
+import {PaybackReminderSettings} from '@/types/settings';
+import {normalizePartyName} from '@/lib/parties';
+import {getUnassigned} from '@/lib/groupSplits';
+import {SaveLoanDTO} from '@/types/loans';
+import {getMonthlyInterest, getMonthlyPayment} from '@/lib/amortization';
 
 export class ValidationService {
     validateAccount(data: CreateAccountDTO) {
@@ -10,6 +31,43 @@ export class ValidationService {
         if (!data.color || data.color.trim().length === 0) {
             throw new AppError('Account color is required', ErrorCodes.INVALID_INPUT, 400);
         }
+        this.validateCurrency(data.currency);
+        this.validateAccountType(data.type, data.creditLimit, data.currency);
+
+        if (data.openingBalance) {
+            if (!Number.isInteger(data.openingBalance.amount)) {
+                throw new AppError('Opening balance must be a whole number of cents', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+            if (data.openingBalance.currency !== data.currency) {
+                throw new AppError('Opening balance must be in the account currency', ErrorCodes.CURRENCY_MISMATCH, 400);
+            }
+        }
+        if (data.openingDate && isNaN(data.openingDate.getTime())) {
+            throw new AppError('Opening date must be a valid date', ErrorCodes.INVALID_INPUT, 400);
+        }
+    }
+
+    validateAccountType(type: AccountType, creditLimit: Money | null | undefined, currency: string) {
+        if (!ACCOUNT_TYPES.some(t => t.value === type)) {
+            throw new AppError('Invalid account type', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (creditLimit) {
+            if (!isLiability(type)) {
+                throw new AppError('Only credit card and loan accounts have a credit limit', ErrorCodes.INVALID_INPUT, 400);
+            }
+            if (!Number.isInteger(creditLimit.amount) || creditLimit.amount <= 0) {
+                throw new AppError('Credit limit must be a positive number of cents', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+            if (creditLimit.currency !== currency) {
+                throw new AppError('Credit limit must be in the account currency', ErrorCodes.CURRENCY_MISMATCH, 400);
+            }
+        }
+    }
+
+    validateCurrency(currency: string) {
+        if (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency)) {
+            throw new AppError('Currency must be a three letter ISO code', ErrorCodes.INVALID_INPUT, 400);
+        }
     }
 
     validateTransaction(data: CreateTransactionDTO) {
@@ -25,10 +83,18 @@ export class ValidationService {
         }
 
         // Check amount
-        if (typeof data.amount !== 'number' || data.amount <= 0) {
+        if (!this.isPositiveMoney(data.amount)) {
             throw new AppError('Amount must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
         }
 
+        if (data.splits) {
+            this.validateSplits(data.splits, data.amount);
+        }
+
+        if (data.tags !== undefined) {
+            this.validateTags(data.tags);
+        }
+
         // Check transaction type
         if (!data.type || !['POSITIVE', 'NEGATIVE'].includes(data.type)) {
             throw new AppError('Transaction type must be either POSITIVE or NEGATIVE', ErrorCodes.INVALID_INPUT, 400);
@@ -57,4 +123,306 @@ export class ValidationService {
             }
         }
     }
+
+    validateTags(tags: string[]) {
+        if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+            throw new AppError('Tags must be a list of strings', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (tags.some(tag => tag.trim().length > 50)) {
+            throw new AppError('Tags can be at most 50 characters long', ErrorCodes.INVALID_INPUT, 400);
+        }
+    }
+
+    validateSplits(splits: TransactionSplit[], total: Money) {
+        if (!Array.isArray(splits) || splits.length < 2) {
+            throw new AppError('A split transaction needs at least two lines', ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        let sum = 0;
+        splits.forEach((split, index) => {
+            if (!split.category || typeof split.category !== 'string' || split.category.trim().length === 0) {
+                throw new AppError(`Split line ${index + 1} needs a category`, ErrorCodes.INVALID_INPUT, 400);
+            }
+            if (!this.isPositiveMoney(split.amount)) {
+                throw new AppError(`Split line ${index + 1} must have a positive amount`, ErrorCodes.INVALID_AMOUNT, 400);
+            }
+            if (split.amount.currency !== total.currency) {
+                throw new AppError('Split lines must be in the currency of the transaction', ErrorCodes.CURRENCY_MISMATCH, 400);
+            }
+            sum += split.amount.amount;
+        });
+
+        if (sum !== total.amount) {
+            throw new AppError('Split amounts must add up to the transaction amount', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+    }
+
+    // the currencies are those of the source and destination accounts
+    validateTransfer(data: CreateTransferDTO, fromCurrency: string, toCurrency: string) {
+        if (data.fromAccountId === data.toAccountId) {
+            throw new AppError('Cannot transfer to the same account', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!this.isPositiveMoney(data.amount)) {
+            throw new AppError('Transfer amount must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+        if (data.amount.currency !== fromCurrency) {
+            throw new AppError(`Transfer amount must be in ${fromCurrency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+        }
+
+        if (data.receivedAmount) {
+            if (!this.isPositiveMoney(data.receivedAmount)) {
+                throw new AppError('Received amount must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+            if (data.receivedAmount.currency !== toCurrency) {
+                throw new AppError(`Received amount must be in ${toCurrency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+            }
+            if (fromCurrency === toCurrency && data.receivedAmount.amount !== data.amount.amount) {
+                throw new AppError(
+                    'Both sides of a transfer in one currency are the same, record the difference as a fee',
+                    ErrorCodes.INVALID_INPUT,
+                    400
+                );
+            }
+        }
+
+        if (data.fee) {
+            if (!this.isPositiveMoney(data.fee)) {
+                throw new AppError('Fee must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+            if (data.fee.currency !== fromCurrency) {
+                throw new AppError(`Fee must be in ${fromCurrency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+            }
+        }
+    }
+
+    // converted is the repayment in the payback's currency, at the rate of the repayment date
+    validateRepayment(data: CreateRepaymentDTO, accountCurrency: string, payback: Transaction, converted: Money) {
+        if (!payback.requiresPayback || !payback.paybackDetails) {
+            throw new AppError('This transaction does not need paying back', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (payback.paybackDetails.status === 'PAID') {
+            throw new AppError('This payback is already settled', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!this.isPositiveMoney(data.amount)) {
+            throw new AppError('Repayment amount must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+        if (data.amount.currency !== accountCurrency) {
+            throw new AppError(`Repayment amount must be in ${accountCurrency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+        }
+        // converting back and forth between currencies can land a cent past the remainder
+        const tolerance = data.amount.currency === payback.amount.currency ? 0 : 1;
+        if (converted.amount > getRemainingPayback(payback).amount + tolerance) {
+            throw new AppError('Repayment is more than what is still owed', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+    }
+
+    validateGroupExpense(data: CreateGroupExpenseDTO) {
+        if (!this.isPositiveMoney(data.amount)) {
+            throw new AppError('Amount must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+        if (!(data.dueDate instanceof Date) || isNaN(data.dueDate.getTime())) {
+            throw new AppError('Payback due date must be a valid date', ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        const others = data.participants.filter(p => p.partyName !== null);
+        if (!others.length) {
+            throw new AppError('Add at least one other person to split with', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (data.participants.length - others.length > 1) {
+            throw new AppError('You can only be in the split once', ErrorCodes.INVALID_INPUT, 400);
+        }
+        const names = others.map(p => normalizePartyName(p.partyName || ''));
+        if (names.some(name => !name)) {
+            throw new AppError('Every person in the split needs a name', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (new Set(names).size !== names.length) {
+            throw new AppError('Each person can only be in the split once', ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        if (data.mode === 'SHARES' && data.participants.some(p => !(p.shares > 0))) {
+            throw new AppError('Shares must be positive numbers', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (data.mode === 'EXACT') {
+            if (data.participants.some(p => !this.isPositiveMoney(p.amount) || p.amount.currency !== data.amount.currency)) {
+                throw new AppError(`Each part must be a positive amount in ${data.amount.currency}`, ErrorCodes.INVALID_AMOUNT, 400);
+            }
+            if (getUnassigned(data.amount, data.participants).amount !== 0) {
+                throw new AppError('The parts must add up to the total', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+        }
+    }
+
+    validateLoan(data: SaveLoanDTO, currency: string) {
+        if (!this.isPositiveMoney(data.principal)) {
+            throw new AppError('Principal must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+        if (data.principal.currency !== currency) {
+            throw new AppError(`Principal must be in ${currency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+        }
+        if (typeof data.annualRate !== 'number' || isNaN(data.annualRate) || data.annualRate < 0 || data.annualRate > 100) {
+            throw new AppError('Interest rate must be a percentage from 0 to 100', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!Number.isInteger(data.termMonths) || data.termMonths < 1 || data.termMonths > 600) {
+            throw new AppError('Term must be a whole number of months from 1 to 600', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!(data.startDate instanceof Date) || isNaN(data.startDate.getTime())) {
+            throw new AppError('Start date must be a valid date', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!data.paymentAccountId) {
+            throw new AppError('Pick the account payments are made from', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (data.extraMonthly) {
+            if (!Number.isInteger(data.extraMonthly.amount) || data.extraMonthly.amount < 0) {
+                throw new AppError('Extra payment must be zero or a positive number of cents', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+            if (data.extraMonthly.currency !== currency) {
+                throw new AppError(`Extra payment must be in ${currency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+            }
+        }
+        // rounding the payment down to whole cents can leave it short of the interest on tiny loans
+        const payment = getMonthlyPayment(data.principal, data.annualRate, data.termMonths);
+        if (payment.amount <= getMonthlyInterest(data.principal, data.annualRate).amount) {
+            throw new AppError('The monthly payment would not cover the interest', ErrorCodes.INVALID_INPUT, 400);
+        }
+    }
+
+    // payments come out of an account in the loan's currency
+    validateLoanPayment(amount: Money, loanCurrency: string, fromCurrency: string, remaining: Money) {
+        if (!this.isPositiveMoney(amount)) {
+            throw new AppError('Payment amount must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+        if (amount.currency !== loanCurrency || fromCurrency !== loanCurrency) {
+            throw new AppError(`Loan payments must be made in ${loanCurrency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+        }
+        if (amount.amount > remaining.amount) {
+            throw new AppError('Payment is more than the remaining principal', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+    }
+
+    validatePaybackReminders(settings: PaybackReminderSettings) {
+        if (typeof settings.enabled !== 'boolean') {
+            throw new AppError('Reminders must be turned on or off', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!Number.isInteger(settings.daysAhead) || settings.daysAhead < 0 || settings.daysAhead > 90) {
+            throw new AppError('Reminder days must be a whole number from 0 to 90', ErrorCodes.INVALID_INPUT, 400);
+        }
+    }
+
+    validateBudget(data: CreateBudgetDTO) {
+        if (data.category !== null && (typeof data.category !== 'string' || data.category.trim().length === 0)) {
+            throw new AppError('Budget category must be a non-empty string or null for the overall cap', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!this.isPositiveMoney(data.limit)) {
+            throw new AppError('Budget limit must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+    }
+
+    validateRecurringRule(data: CreateRecurringRuleDTO) {
+        const {template} = data;
+
+        if (!['TRANSACTION', 'TRANSFER'].includes(data.kind)) {
+            throw new AppError('Recurring rule kind must be either TRANSACTION or TRANSFER', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!['DAILY', 'WEEKLY', 'BIWEEKLY', 'MONTHLY', 'YEARLY'].includes(data.frequency)) {
+            throw new AppError('Invalid recurrence frequency', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!(data.startDate instanceof Date) || isNaN(data.startDate.getTime())) {
+            throw new AppError('Start date must be a valid Date object', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (data.endDate && data.endDate < data.startDate) {
+            throw new AppError('End date must be after the start date', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (data.occurrenceCount != null && (!Number.isInteger(data.occurrenceCount) || data.occurrenceCount <= 0)) {
+            throw new AppError('Occurrence count must be a positive whole number', ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        if (data.kind === 'TRANSFER') {
+            if (!template.accountId || !template.toAccountId) {
+                throw new AppError('Both source and destination accounts are required for a transfer', ErrorCodes.INVALID_INPUT, 400);
+            }
+            if (template.accountId === template.toAccountId) {
+                throw new AppError('Cannot transfer to the same account', ErrorCodes.INVALID_INPUT, 400);
+            }
+            if (!this.isPositiveMoney(template.amount)) {
+                throw new AppError('Amount must be a positive number', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+        } else {
+            this.validateTransaction(template);
+        }
+    }
+
+    validateExchangeRate(data: CreateExchangeRateDTO) {
+        this.validateCurrency(data.fromCurrency);
+        this.validateCurrency(data.toCurrency);
+        if (data.fromCurrency === data.toCurrency) {
+            throw new AppError('An exchange rate needs two different currencies', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (typeof data.rate !== 'number' || !isFinite(data.rate) || data.rate <= 0) {
+            throw new AppError('Exchange rate must be a positive number', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!(data.effectiveDate instanceof Date) || isNaN(data.effectiveDate.getTime())) {
+            throw new AppError('Effective date must be a valid Date object', ErrorCodes.INVALID_INPUT, 400);
+        }
+    }
+
+    validateRule(data: CreateRuleDTO) {
+        const {conditions, actions} = data;
+
+        if (!data.name?.trim()) {
+            throw new AppError('Rule name is required', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!conditions.descriptionContains?.trim() && !conditions.minAmount && !conditions.maxAmount &&
+            !conditions.accountId && !conditions.type) {
+            throw new AppError('A rule needs at least one condition', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (conditions.type && !['POSITIVE', 'NEGATIVE'].includes(conditions.type)) {
+            throw new AppError('Rule type must be either POSITIVE or NEGATIVE', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (conditions.minAmount && conditions.maxAmount) {
+            if (conditions.minAmount.currency !== conditions.maxAmount.currency) {
+                throw new AppError('Both amount bounds must be in the same currency', ErrorCodes.INVALID_INPUT, 400);
+            }
+            if (conditions.minAmount.amount > conditions.maxAmount.amount) {
+                throw new AppError('Minimum amount must not be above the maximum', ErrorCodes.INVALID_AMOUNT, 400);
+            }
+        }
+        if (!actions.category && !actions.partyName && !actions.tags.length && !actions.requiresPayback) {
+            throw new AppError('A rule needs at least one action', ErrorCodes.INVALID_INPUT, 400);
+        }
+        this.validateTags(actions.tags);
+    }
+
+    validateParty(data: CreatePartyDTO) {
+        if (!data.name?.trim()) {
+            throw new AppError('Name is required', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (data.aliases && (!Array.isArray(data.aliases) || data.aliases.some(alias => typeof alias !== 'string'))) {
+            throw new AppError('Aliases must be a list of names', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (data.notes && typeof data.notes !== 'string') {
+            throw new AppError('Notes must be text', ErrorCodes.INVALID_INPUT, 400);
+        }
+    }
+
+    validateReconciliation(data: CreateReconciliationDTO) {
+        if (!data.accountId) {
+            throw new AppError('Account is required', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (!(data.statementDate instanceof Date) || isNaN(data.statementDate.getTime())) {
+            throw new AppError('Statement date must be a valid Date object', ErrorCodes.INVALID_INPUT, 400);
+        }
+        // a statement balance can be negative, an overdrawn account or a card
+        if (!data.statementBalance || !Number.isInteger(data.statementBalance.amount)) {
+            throw new AppError('Statement balance must be a whole number of cents', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+        this.validateCurrency(data.statementBalance.currency);
+    }
+
+    // whole minor units only, a fractional cent means something skipped the rounding in lib/money
+    private isPositiveMoney(money: Money | undefined): boolean {
+        if (!money || typeof money.currency !== 'string' || money.currency.length !== 3) {
+            return false;
+        }
+        return Number.isInteger(money.amount) && money.amount > 0;
+    }
 }
\ No newline at end of file
@@ -2,12 +2,42 @@ import {AppError, ErrorCodes} from '@/lib/errors';
 import {ValidationService} from '@/lib/validation';
 import {Account, CreateAccountDTO, UpdateAccountDTO} from '@/types/accounts';
 import {AccountDTO} from "@/types/models";
+import {Money} from '@/types/money';
 import {db} from '@/lib/firebase';
-import {addDoc, collection, doc, getDoc, getDocs, query, serverTimestamp, updateDoc, where} from 'firebase/firestore';
+import {
+    addDoc,
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where,
+    WriteBatch,
+    writeBatch
+} from 'firebase/firestore';
 import {services} from "@/lib/services";
+import {DEFAULT_CURRENCY, negateMoney, signedAmount, subtractMoney, sumMoney, zeroMoney} from '@/lib/money';
+import {isLiability} from '@/lib/accounts';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {Transaction} from '@/types/transactions';
+import {BALANCE_ADJUSTMENT_CATEGORY} from '@/services/categories';
+
+// firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
 
 export class AccountService {
     private collection = 'accounts';
+    // everything that points at an account and has to follow it on a permanent delete
+    private related = {
+        transactions: 'transactions',
+        chains: 'chainedTransactions',
+        reconciliations: 'reconciliations',
+        loans: 'loans',
+        recurringRules: 'recurringRules',
+        categorizationRules: 'categorizationRules'
+    };
     private validator = new ValidationService();
 
     async createAccount(userId: string, data: CreateAccountDTO): Promise<Account> {
@@ -33,12 +63,15 @@ export class AccountService {
             );
         }
 
+        const {openingBalance, openingDate, creditLimit, ...accountData} = data;
         const newAccount = {
-            ...data,
+            ...accountData,
+            creditLimit: creditLimit || null,
             userId,
             createdAt: serverTimestamp(),
             updatedAt: serverTimestamp(),
-            isArchived: false
+            isArchived: false,
+            archivedAt: null
         };
 
         const docRef = await addDoc(accountsRef, newAccount);
@@ -52,10 +85,40 @@ export class AccountService {
             );
         }
 
-        return this.convertToAccount({
+        const account = this.convertToAccount({
             id: docRef.id,
             ...createdDoc.data()
         } as AccountDTO);
+
+        if (openingBalance && openingBalance.amount !== 0) {
+            await this.recordAdjustment(userId, account, openingBalance, 'Opening balance', openingDate || new Date());
+            account.balance = openingBalance;
+        }
+
+        return account;
+    }
+
+    // records whatever difference there is between the current balance and the given one.
+    // returns null when the balance is already right
+    async adjustBalance(
+        accountId: string,
+        balance: Money,
+        userId: string,
+        date: Date = new Date()
+    ): Promise<Transaction | null> {
+        const account = await this.getAccountById(accountId, userId);
+        if (balance.currency !== account.currency) {
+            throw new AppError(
+                `The new balance must be in ${account.currency}`,
+                ErrorCodes.CURRENCY_MISMATCH,
+                400
+            );
+        }
+
+        const difference = subtractMoney(balance, account.balance);
+        if (difference.amount === 0) return null;
+
+        return this.recordAdjustment(userId, account, difference, 'Balance adjustment', date);
     }
 
     async updateAccount(accountId: string, data: UpdateAccountDTO): Promise<void> {
@@ -71,8 +134,21 @@ export class AccountService {
                 );
             }
 
+            const current = this.convertToAccount({
+                id: accountDoc.id,
+                ...accountDoc.data()
+            } as AccountDTO);
+            const updateData: any = {...data};
+            if (data.type !== undefined || data.creditLimit !== undefined) {
+                const type = data.type || current.type;
+                const creditLimit = data.creditLimit !== undefined ? data.creditLimit : current.creditLimit;
+                this.validator.validateAccountType(type, isLiability(type) ? creditLimit : null, current.currency);
+                // switching away from credit card or loan drops the limit
+                updateData.creditLimit = isLiability(type) ? creditLimit || null : null;
+            }
+
             await updateDoc(accountRef, {
-                ...data,
+                ...updateData,
                 updatedAt: serverTimestamp()
             });
         } catch (error) {
@@ -85,13 +161,15 @@ export class AccountService {
         }
     }
 
-    async getAccountsByUser(userId: string): Promise<Account[]> {
+    async getAccountsByUser(userId: string, includeArchived = false): Promise<Account[]> {
         const accountsRef = collection(db, this.collection);
-        const q = query(
-            accountsRef,
-            where('userId', '==', userId),
-            where('isArchived', '==', false)
-        );
+        const q = includeArchived
+            ? query(accountsRef, where('userId', '==', userId))
+            : query(
+                accountsRef,
+                where('userId', '==', userId),
+                where('isArchived', '==', false)
+            );
 
         const snapshot = await getDocs(q);
         const accounts = snapshot.docs.map(doc =>
@@ -102,20 +180,53 @@ export class AccountService {
         );
 
         // calc balance for each account
+        const converter = await services.exchangeRates.getConverter(userId);
         for (const account of accounts) {
-            const transactions = await services.transactions.getTransactionsByAccount(account.id);
-            account.balance = transactions.reduce((sum, transaction) => {
-                if (transaction.type === 'POSITIVE') {
-                    return sum + transaction.amount;
-                } else {
-                    return sum - transaction.amount;
-                }
-            }, 0);
+            Object.assign(account, await this.calculateBalance(account, converter));
         }
 
         return accounts;
     }
 
+    async getAccountById(accountId: string, userId: string): Promise<Account> {
+        try {
+            const accountRef = doc(db, this.collection, accountId);
+            const accountDoc = await getDoc(accountRef);
+
+            if (!accountDoc.exists()) {
+                throw new AppError(
+                    'Account not found',
+                    ErrorCodes.ACCOUNT_NOT_FOUND,
+                    404
+                );
+            }
+
+            if (accountDoc.data().userId !== userId) {
+                throw new AppError(
+                    'Not authorized to view this account',
+                    ErrorCodes.UNAUTHORIZED,
+                    403
+                );
+            }
+
+            const account = this.convertToAccount({
+                id: accountDoc.id,
+                ...accountDoc.data()
+            } as AccountDTO);
+            const converter = await services.exchangeRates.getConverter(userId);
+            Object.assign(account, await this.calculateBalance(account, converter));
+
+            return account;
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to fetch account',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
     async deleteAccount(accountId: string, userId: string): Promise<void> {
         try {
             const accountRef = doc(db, this.collection, accountId);
@@ -141,8 +252,148 @@ export class AccountService {
             // we archive instead of actually deleting
             await updateDoc(accountRef, {
                 isArchived: true,
+                archivedAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to delete account',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    async restoreAccount(accountId: string, userId: string): Promise<void> {
+        const account = await this.getAccountById(accountId, userId);
+        if (!account.isArchived) return;
+
+        const duplicates = await getDocs(query(
+            collection(db, this.collection),
+            where('userId', '==', userId),
+            where('name', '==', account.name),
+            where('isArchived', '==', false)
+        ));
+        if (!duplicates.empty) {
+            throw new AppError(
+                'An active account with this name already exists, rename it first',
+                ErrorCodes.ACCOUNT_EXISTS,
+                400
+            );
+        }
+
+        try {
+            await updateDoc(doc(db, this.collection, accountId), {
+                isArchived: false,
+                archivedAt: null,
                 updatedAt: serverTimestamp()
             });
+        } catch (error) {
+            throw new AppError(
+                'Failed to restore account',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // only archived accounts can go. with a target account the transactions, recurring rules and
+    // categorization rules move over, otherwise they are deleted along with the account.
+    // reconciliations belong to the old account's statements and are always removed, as are loan terms
+    async permanentlyDeleteAccount(accountId: string, userId: string, reassignToId: string | null): Promise<void> {
+        const account = await this.getAccountById(accountId, userId);
+        if (!account.isArchived) {
+            throw new AppError(
+                'Archive the account before deleting it permanently',
+                ErrorCodes.INVALID_INPUT,
+                400
+            );
+        }
+        if (reassignToId) {
+            const target = await this.getAccountById(reassignToId, userId);
+            if (target.isArchived || target.id === accountId) {
+                throw new AppError(
+                    'Transactions can only be moved to another active account',
+                    ErrorCodes.INVALID_INPUT,
+                    400
+                );
+            }
+        }
+
+        try {
+            const writes: ((batch: WriteBatch) => void)[] = [];
+            const byUser = (name: string) => getDocs(query(collection(db, name), where('userId', '==', userId)));
+            const [transactions, reconciliations, recurringRules, categorizationRules] = await Promise.all([
+                getDocs(query(
+                    collection(db, this.related.transactions),
+                    where('userId', '==', userId),
+                    where('accountId', '==', accountId)
+                )),
+                getDocs(query(
+                    collection(db, this.related.reconciliations),
+                    where('userId', '==', userId),
+                    where('accountId', '==', accountId)
+                )),
+                byUser(this.related.recurringRules),
+                byUser(this.related.categorizationRules)
+            ]);
+
+            if (reassignToId) {
+                // transfers keep both legs, even when they now sit in the same account.
+                // the old statements don't apply to the new account, so nothing stays locked
+                transactions.docs.forEach(document => writes.push(batch => batch.update(document.ref, {
+                    accountId: reassignToId,
+                    ...(document.data().clearedStatus === 'RECONCILED'
+                        ? {clearedStatus: 'CLEARED', reconciliationId: null}
+                        : {}),
+                    updatedAt: serverTimestamp()
+                })));
+            } else {
+                transactions.docs.forEach(document => writes.push(batch => batch.delete(document.ref)));
+                await this.planUnlinkTransfers(userId, transactions.docs.map(d => d.data().chainId), accountId, writes);
+                await this.planUnlinkRepayments(userId, transactions.docs.filter(d => d.data().requiresPayback).map(d => d.id), accountId, writes);
+            }
+
+            reconciliations.docs.forEach(document => writes.push(batch => batch.delete(document.ref)));
+            writes.push(batch => batch.delete(doc(db, this.related.loans, accountId)));
+
+            recurringRules.docs.forEach(document => {
+                const template = document.data().template;
+                const field = template.accountId === accountId ? 'template.accountId'
+                    : template.toAccountId === accountId ? 'template.toAccountId' : null;
+                if (!field) return;
+                writes.push(batch => reassignToId
+                    ? batch.update(document.ref, {[field]: reassignToId, updatedAt: serverTimestamp()})
+                    : batch.delete(document.ref));
+            });
+
+            // a rule that lost its account condition would match far more than intended
+            categorizationRules.docs.forEach(document => {
+                if (document.data().conditions?.accountId !== accountId) return;
+                writes.push(batch => reassignToId
+                    ? batch.update(document.ref, {'conditions.accountId': reassignToId, updatedAt: serverTimestamp()})
+                    : batch.delete(document.ref));
+            });
+
+            writes.push(batch => batch.delete(doc(db, this.collection, accountId)));
+
+            // batches go out one after another, the account itself is removed last
+            for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+                const batch = writeBatch(db);
+                writes.slice(i, i + BATCH_SIZE).forEach(write => write(batch));
+                await batch.commit();
+            }
+
+            // paybacks in other accounts no longer count the deleted repayments
+            if (!reassignToId) {
+                const paybackIds = transactions.docs
+                    .map(d => d.data().repaymentOf as string | null | undefined)
+                    .filter((id): id is string => !!id && !transactions.docs.some(d => d.id === id));
+                for (const paybackId of Array.from(new Set(paybackIds))) {
+                    await services.transactions.settlePayback(paybackId, userId);
+                }
+            }
         } catch (error) {
             if (error instanceof AppError) throw error;
             throw new AppError(
@@ -153,12 +404,107 @@ export class AccountService {
         }
     }
 
+    // the other leg of a transfer stays in its own account as a plain transaction,
+    // still categorized as a transfer so it keeps out of income and expenses
+    private async planUnlinkTransfers(
+        userId: string,
+        chainIds: (string | null)[],
+        accountId: string,
+        writes: ((batch: WriteBatch) => void)[]
+    ) {
+        const uniqueChainIds = Array.from(new Set(chainIds.filter((id): id is string => !!id)));
+
+        for (const chainId of uniqueChainIds) {
+            const [legs, records] = await Promise.all([
+                getDocs(query(
+                    collection(db, this.related.transactions),
+                    where('userId', '==', userId),
+                    where('chainId', '==', chainId)
+                )),
+                getDocs(query(
+                    collection(db, this.related.chains),
+                    where('userId', '==', userId),
+                    where('chainId', '==', chainId)
+                ))
+            ]);
+            legs.docs
+                .filter(leg => leg.data().accountId !== accountId)
+                .forEach(leg => writes.push(batch => batch.update(leg.ref, {
+                    chainId: null,
+                    updatedAt: serverTimestamp()
+                })));
+            records.docs.forEach(record => writes.push(batch => batch.delete(record.ref)));
+        }
+    }
+
+    // repayments sitting in other accounts stay as they are, only the link to the deleted payback goes
+    private async planUnlinkRepayments(
+        userId: string,
+        paybackIds: string[],
+        accountId: string,
+        writes: ((batch: WriteBatch) => void)[]
+    ) {
+        for (const paybackId of paybackIds) {
+            const repayments = await getDocs(query(
+                collection(db, this.related.transactions),
+                where('userId', '==', userId),
+                where('repaymentOf', '==', paybackId)
+            ));
+            repayments.docs
+                .filter(repayment => repayment.data().accountId !== accountId)
+                .forEach(repayment => writes.push(batch => batch.update(repayment.ref, {
+                    repaymentOf: null,
+                    updatedAt: serverTimestamp()
+                })));
+        }
+    }
+
+    // adjustments are kept out of income and expense totals, see isIncomeOrExpense
+    private recordAdjustment(
+        userId: string,
+        account: Account,
+        difference: Money,
+        description: string,
+        date: Date
+    ): Promise<Transaction> {
+        return services.transactions.createTransaction(userId, {
+            accountId: account.id,
+            amount: difference.amount < 0 ? negateMoney(difference) : difference,
+            type: difference.amount < 0 ? 'NEGATIVE' : 'POSITIVE',
+            category: BALANCE_ADJUSTMENT_CATEGORY,
+            description,
+            transactionDate: date
+        });
+    }
+
+    // transactions in another currency count at the rate of their own date. those without a
+    // rate are left out and counted, so one missing rate doesn't take down every account
+    private async calculateBalance(
+        account: Account,
+        converter: CurrencyConverter
+    ): Promise<Pick<Account, 'balance' | 'unconvertedCount'>> {
+        const transactions = await services.transactions.getTransactionsByAccount(account.id);
+        const amounts = transactions.map(t => converter.tryConvert(signedAmount(t), account.currency, t.createdAt));
+        const converted = amounts.filter((amount): amount is Money => amount !== null);
+        return {
+            balance: sumMoney(converted, account.currency),
+            unconvertedCount: amounts.length - converted.length
+        };
+    }
+
     private convertToAccount(dto: AccountDTO): Account {
+        const currency = dto.currency || DEFAULT_CURRENCY;
         return {
             ...dto,
+            currency,
+            type: dto.type || 'CHECKING',
+            creditLimit: dto.creditLimit || null,
             createdAt: dto.createdAt.toDate(),
             updatedAt: dto.updatedAt.toDate(),
-            balance: 0
+            // the last update is the best guess for accounts archived without a date
+            archivedAt: dto.archivedAt ? dto.archivedAt.toDate() : (dto.isArchived ? dto.updatedAt.toDate() : null),
+            balance: zeroMoney(currency),
+            unconvertedCount: 0
         };
     }
 }
\ No newline at end of file
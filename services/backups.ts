@@ -0,0 +1,761 @@
+import {db} from '@/lib/firebase';
+import {collection, doc, getDoc, getDocs, query, serverTimestamp, Timestamp, where, WriteBatch, writeBatch} from 'firebase/firestore';
+import {Backup, RestoreCount, RestoreMode, RestoreSummary} from '@/types/backups';
+import {Transaction, TransactionCategory} from '@/types/transactions';
+import {RecurringTemplate} from '@/types/recurring';
+import {Party} from '@/types/parties';
+import {Reconciliation} from '@/types/reconciliations';
+import {Loan} from '@/types/loans';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {services} from '@/lib/services';
+import {DEFAULT_CURRENCY, toMoney} from '@/lib/money';
+import {findPartyByName} from '@/lib/parties';
+import {getPairKey} from '@/lib/duplicates';
+
+// 2: amounts are Money instead of plain numbers
+// 3: accounts have a currency, exchange rates are included
+// 4: categorization rules are included
+// 5: parties are included, transactions point to theirs with partyId
+// 6: reconciliations are included
+// 7: settings are included
+// 8: loans are included
+// 9: dismissed duplicates are included
+// 10: import mappings are included
+export const BACKUP_VERSION = 10;
+
+// firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+// JSON has no date type, these keys are turned back into dates when a backup is read
+const DATE_KEYS = [
+    'createdAt', 'updatedAt', 'dueDate', 'completedAt', 'startDate', 'endDate', 'lastProcessedDate', 'effectiveDate',
+    'archivedAt', 'statementDate', 'date'
+];
+
+const BACKUP_ARRAYS = ['accounts', 'categories', 'transactions', 'chains', 'budgets', 'recurringRules'];
+
+interface RestorePlan {
+    mode: RestoreMode;
+    writes: ((batch: WriteBatch) => void)[];
+    summary: RestoreSummary;
+}
+
+export class BackupService {
+    private collections = {
+        accounts: 'accounts',
+        categories: 'categories',
+        transactions: 'transactions',
+        chains: 'chainedTransactions',
+        budgets: 'budgets',
+        recurringRules: 'recurringRules',
+        exchangeRates: 'exchangeRates',
+        categorizationRules: 'categorizationRules',
+        parties: 'parties',
+        reconciliations: 'reconciliations',
+        loans: 'loans',
+        dismissedDuplicates: 'dismissedDuplicates',
+        importMappings: 'importMappings'
+    };
+    // one document per user, keyed by the user id
+    private settingsCollection = 'userSettings';
+
+    async createBackup(userId: string): Promise<Backup> {
+        try {
+            const snapshot = await services.exports.collectData(userId, {}, true);
+            const [
+                chains, budgets, recurringRules, exchangeRates, categorizationRules, parties, reconciliations, loans,
+                dismissedDuplicates, importMappings
+            ] = await Promise.all([
+                services.transactions.getChainRecordsByUser(userId),
+                services.budgets.getBudgetsByUser(userId),
+                services.recurring.getRulesByUser(userId),
+                services.exchangeRates.getRates(userId),
+                services.rules.getRulesByUser(userId),
+                services.parties.getPartiesByUser(userId),
+                services.reconciliations.getReconciliationsByUser(userId),
+                services.loans.getLoansByUser(userId),
+                services.duplicates.getDismissedKeys(userId),
+                services.imports.getMappings(userId)
+            ]);
+            const {snoozedReminders, ...settings} = await services.settings.getSettings(userId);
+
+            return {
+                version: BACKUP_VERSION,
+                createdAt: snapshot.exportedAt,
+                accounts: snapshot.accounts,
+                categories: snapshot.categories.map(({id, name, type, icon, color}) => ({
+                    id, name, type, icon, color, isCustom: true
+                })),
+                transactions: snapshot.transactions,
+                chains,
+                budgets,
+                recurringRules,
+                exchangeRates,
+                categorizationRules,
+                parties,
+                reconciliations,
+                loans,
+                dismissedDuplicates: Array.from(dismissedDuplicates),
+                importMappings,
+                settings
+            };
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError('Failed to create backup', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    parseBackup(text: string): Backup {
+        let parsed;
+        try {
+            parsed = JSON.parse(text, (key, value) =>
+                DATE_KEYS.includes(key) && typeof value === 'string' ? new Date(value) : value
+            );
+        } catch (error) {
+            throw new AppError('The backup file is not valid JSON', ErrorCodes.INVALID_BACKUP, 400);
+        }
+
+        if (!parsed || typeof parsed.version !== 'number' || !BACKUP_ARRAYS.every(key => Array.isArray(parsed[key]))) {
+            throw new AppError('This file is not a backup', ErrorCodes.INVALID_BACKUP, 400);
+        }
+        if (parsed.version > BACKUP_VERSION) {
+            throw new AppError('This backup was made by a newer version of the app', ErrorCodes.INVALID_BACKUP, 400);
+        }
+
+        let backup = parsed as Backup;
+        if (parsed.version < 2) backup = this.upgradeAmounts(backup);
+        if (parsed.version < 3) backup = this.upgradeCurrencies(backup);
+        if (parsed.version < 4) backup = {...backup, categorizationRules: backup.categorizationRules || []};
+        if (parsed.version < 5) backup = {...backup, parties: backup.parties || []};
+        if (parsed.version < 6) backup = {...backup, reconciliations: backup.reconciliations || []};
+        if (parsed.version < 7) backup = {...backup, settings: backup.settings || null};
+        if (parsed.version < 8) backup = {...backup, loans: backup.loans || []};
+        if (parsed.version < 9) backup = {...backup, dismissedDuplicates: backup.dismissedDuplicates || []};
+        if (parsed.version < 10) backup = {...backup, importMappings: backup.importMappings || []};
+        return backup;
+    }
+
+    // merge keeps the user's data and only adds what is missing, replace wipes it first.
+    // with dryRun nothing is written and the summary says what would happen
+    async restoreBackup(userId: string, backup: Backup, mode: RestoreMode, dryRun: boolean): Promise<RestoreSummary> {
+        const count = (): RestoreCount => ({created: 0, existing: 0});
+        const plan: RestorePlan = {
+            mode,
+            writes: [],
+            summary: {
+                mode,
+                dryRun,
+                accounts: count(),
+                categories: count(),
+                transactions: count(),
+                chains: count(),
+                budgets: count(),
+                recurringRules: count(),
+                exchangeRates: count(),
+                categorizationRules: count(),
+                parties: count(),
+                reconciliations: count(),
+                loans: count(),
+                dismissedDuplicates: count(),
+                importMappings: count(),
+                settings: count(),
+                removed: null
+            }
+        };
+
+        try {
+            if (mode === 'REPLACE') {
+                await this.planRemoval(userId, plan);
+            }
+
+            const {accountIds, matchedAccountIds} = await this.planAccounts(userId, backup, plan);
+            await this.planCategories(userId, backup, plan);
+            const resolveParty = await this.planParties(userId, backup, plan);
+            const reconciliationIds = this.reserveReconciliations(backup, accountIds, matchedAccountIds, plan);
+            const {savedIds, chainIds} = await this.planTransactions(
+                userId, backup, accountIds, matchedAccountIds, resolveParty, reconciliationIds, plan
+            );
+            this.planReconciliations(userId, backup, accountIds, reconciliationIds, savedIds, plan);
+            await this.planLoans(userId, backup, accountIds, chainIds, plan);
+            await this.planDismissedDuplicates(userId, backup, savedIds, plan);
+            await this.planBudgets(userId, backup, plan);
+            await this.planRecurringRules(userId, backup, accountIds, plan);
+            await this.planExchangeRates(userId, backup, plan);
+            await this.planCategorizationRules(userId, backup, accountIds, plan);
+            await this.planImportMappings(userId, backup, plan);
+            await this.planSettings(userId, backup, plan);
+
+            if (!dryRun) {
+                await this.commitWrites(plan);
+            }
+
+            return plan.summary;
+        } catch (error) {
+            console.error('Error in restoreBackup:', error);
+            if (error instanceof AppError) throw error;
+            throw new AppError('Failed to restore backup', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    private async planRemoval(userId: string, plan: RestorePlan) {
+        const [
+            accounts, categories, transactions, chains, budgets, recurringRules, exchangeRates, categorizationRules,
+            parties, reconciliations, loans, dismissedDuplicates, importMappings
+        ] = await Promise.all(
+            Object.values(this.collections).map(name =>
+                getDocs(query(collection(db, name), where('userId', '==', userId)))
+            )
+        );
+
+        [
+            accounts, categories, transactions, chains, budgets, recurringRules, exchangeRates, categorizationRules,
+            parties, reconciliations, loans, dismissedDuplicates, importMappings
+        ].forEach(snapshot => {
+            snapshot.docs.forEach(document => plan.writes.push(batch => batch.delete(document.ref)));
+        });
+
+        plan.summary.removed = {
+            accounts: accounts.size,
+            categories: categories.size,
+            transactions: transactions.size,
+            budgets: budgets.size,
+            recurringRules: recurringRules.size,
+            exchangeRates: exchangeRates.size,
+            categorizationRules: categorizationRules.size,
+            parties: parties.size,
+            reconciliations: reconciliations.size,
+            loans: loans.size,
+            dismissedDuplicates: dismissedDuplicates.size,
+            importMappings: importMappings.size
+        };
+    }
+
+    private async planAccounts(userId: string, backup: Backup, plan: RestorePlan) {
+        const accountIds: Record<string, string> = {};
+        const matchedAccountIds: string[] = [];
+        const existing = plan.mode === 'MERGE' ? await services.accounts.getAccountsByUser(userId) : [];
+
+        backup.accounts.forEach(account => {
+            const match = !account.isArchived &&
+                existing.find(a => a.name.toLowerCase() === account.name.toLowerCase());
+            if (match) {
+                accountIds[account.id] = match.id;
+                matchedAccountIds.push(match.id);
+                plan.summary.accounts.existing++;
+                return;
+            }
+
+            const ref = doc(collection(db, this.collections.accounts));
+            const {id, balance, unconvertedCount, ...data} = account;
+            accountIds[id] = ref.id;
+            plan.writes.push(batch => batch.set(ref, this.toDocumentData({...data, userId})));
+            plan.summary.accounts.created++;
+        });
+
+        return {accountIds, matchedAccountIds};
+    }
+
+    // transactions refer to categories by name, so a category only needs a new id
+    private async planCategories(userId: string, backup: Backup, plan: RestorePlan) {
+        const types: TransactionCategory['type'][] = ['EXPENSE', 'INCOME', 'SELFTRANSFER'];
+        const existing = (await Promise.all(types.map(type => services.categories.getCategoriesByType(type))))
+            .flat()
+            .filter(c => !c.isCustom || (plan.mode === 'MERGE' && c.userId === userId));
+
+        backup.categories.forEach(category => {
+            const match = existing.find(c =>
+                c.type === category.type && c.name.toLowerCase() === category.name.toLowerCase()
+            );
+            if (match) {
+                plan.summary.categories.existing++;
+                return;
+            }
+
+            const ref = doc(collection(db, this.collections.categories));
+            const {id, ...data} = category;
+            plan.writes.push(batch => batch.set(ref, this.toDocumentData({
+                ...data,
+                isCustom: true,
+                userId,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            })));
+            plan.summary.categories.created++;
+        });
+    }
+
+    // parties are matched by name and alias. transactions from backups made before parties
+    // existed only have a name, which is matched the same way or becomes a new party
+    private async planParties(userId: string, backup: Backup, plan: RestorePlan) {
+        const known = plan.mode === 'MERGE' ? await services.parties.getPartiesByUser(userId) : [];
+        const partyIds: Record<string, Party> = {};
+
+        const addParty = (party: Party): Party => {
+            const ref = doc(collection(db, this.collections.parties));
+            const {id, ...data} = party;
+            const created = {...party, id: ref.id};
+            plan.writes.push(batch => batch.set(ref, this.toDocumentData({...data, userId})));
+            plan.summary.parties.created++;
+            known.push(created);
+            return created;
+        };
+
+        backup.parties.forEach(party => {
+            const match = findPartyByName(known, party.name);
+            if (match) {
+                plan.summary.parties.existing++;
+            }
+            partyIds[party.id] = match || addParty(party);
+        });
+
+        return (transaction: Transaction): Party | null => {
+            if (transaction.partyId && partyIds[transaction.partyId]) return partyIds[transaction.partyId];
+            if (!transaction.partyName?.trim()) return null;
+
+            return findPartyByName(known, transaction.partyName) || addParty({
+                id: '',
+                name: transaction.partyName.trim(),
+                aliases: [],
+                notes: null,
+                userId,
+                createdAt: transaction.createdAt,
+                updatedAt: transaction.createdAt
+            });
+        };
+    }
+
+    // chained transactions are restored as a unit with a fresh chainId and chain record,
+    // so transfers stay linked to their other leg
+    private async planTransactions(
+        userId: string,
+        backup: Backup,
+        accountIds: Record<string, string>,
+        matchedAccountIds: string[],
+        resolveParty: (transaction: Transaction) => Party | null,
+        reconciliationIds: Record<string, string>,
+        plan: RestorePlan
+    ): Promise<{savedIds: Record<string, string>, chainIds: Record<string, string>}> {
+        const existing = new Map(
+            (await Promise.all(matchedAccountIds.map(id => services.transactions.getTransactionsByAccount(id))))
+                .flat()
+                .map(t => [this.transactionKey(t), t])
+        );
+        // backup id -> id of the saved transaction, for linking repayments to their payback.
+        // filled in while planning and only read once the writes run
+        const savedIds: Record<string, string> = {};
+        // backup chainId -> chainId it was restored under, for pointing loan payments at their chain
+        const chainIds: Record<string, string> = {};
+        const chainRecords = new Map(backup.chains.map(chain => [chain.chainId, chain]));
+
+        const groups: Record<string, Transaction[]> = {};
+        backup.transactions
+            .filter(t => accountIds[t.accountId])
+            .forEach(t => {
+                const key = t.chainId || t.id;
+                const party = resolveParty(t);
+                (groups[key] = groups[key] || []).push({
+                    ...t,
+                    accountId: accountIds[t.accountId],
+                    partyId: party?.id || null,
+                    partyName: party?.name || null
+                });
+            });
+
+        Object.values(groups).forEach(group => {
+            const originalChainId = group[0].chainId;
+            const chainRecord = originalChainId ? chainRecords.get(originalChainId) : undefined;
+            if (chainRecord) {
+                group.sort((a, b) => chainRecord.transactionIds.indexOf(a.id) - chainRecord.transactionIds.indexOf(b.id));
+            }
+
+            // one leg already being there means the whole chain was restored before
+            if (group.some(t => existing.has(this.transactionKey(t)))) {
+                group.forEach(t => {
+                    const match = existing.get(this.transactionKey(t));
+                    if (!match) return;
+                    savedIds[t.id] = match.id;
+                    if (originalChainId && match.chainId) chainIds[originalChainId] = match.chainId;
+                });
+                plan.summary.transactions.existing += group.length;
+                if (originalChainId) plan.summary.chains.existing++;
+                return;
+            }
+
+            const chainId = originalChainId ? crypto.randomUUID() : null;
+            if (originalChainId && chainId) chainIds[originalChainId] = chainId;
+            const refs = group.map(() => doc(collection(db, this.collections.transactions)));
+
+            group.forEach((transaction, index) => {
+                const {id, ...data} = transaction;
+                savedIds[id] = refs[index].id;
+                plan.writes.push(batch => batch.set(refs[index], this.toDocumentData({
+                    ...data,
+                    ...this.remapReconciliation(data, reconciliationIds),
+                    chainId,
+                    repaymentOf: data.repaymentOf ? savedIds[data.repaymentOf] || null : null,
+                    userId
+                })));
+            });
+            plan.summary.transactions.created += group.length;
+
+            if (chainId) {
+                const feeIndex = group.findIndex(t => t.id === chainRecord?.feeTransactionId);
+                const chainRef = doc(collection(db, this.collections.chains));
+                plan.writes.push(batch => batch.set(chainRef, this.toDocumentData({
+                    chainId,
+                    userId,
+                    transactionIds: refs.map(ref => ref.id),
+                    createdAt: chainRecord?.createdAt || group[0].createdAt,
+                    status: chainRecord?.status || 'COMPLETED',
+                    exchangeRate: chainRecord?.exchangeRate ?? null,
+                    feeTransactionId: feeIndex >= 0 ? refs[feeIndex].id : null
+                })));
+                plan.summary.chains.created++;
+            }
+        });
+
+        return {savedIds, chainIds};
+    }
+
+    // ids for the reconciliations that will be restored, so transactions can point to them before
+    // they are written. a matched account keeps the statements it already has
+    private reserveReconciliations(
+        backup: Backup,
+        accountIds: Record<string, string>,
+        matchedAccountIds: string[],
+        plan: RestorePlan
+    ): Record<string, string> {
+        const reconciliationIds: Record<string, string> = {};
+
+        backup.reconciliations
+            .filter(reconciliation => accountIds[reconciliation.accountId])
+            .forEach(reconciliation => {
+                if (matchedAccountIds.includes(accountIds[reconciliation.accountId])) {
+                    plan.summary.reconciliations.existing++;
+                    return;
+                }
+                reconciliationIds[reconciliation.id] = doc(collection(db, this.collections.reconciliations)).id;
+            });
+
+        return reconciliationIds;
+    }
+
+    private planReconciliations(
+        userId: string,
+        backup: Backup,
+        accountIds: Record<string, string>,
+        reconciliationIds: Record<string, string>,
+        savedIds: Record<string, string>,
+        plan: RestorePlan
+    ) {
+        backup.reconciliations
+            .filter(reconciliation => reconciliationIds[reconciliation.id])
+            .forEach((reconciliation: Reconciliation) => {
+                const {id, ...data} = reconciliation;
+                const ref = doc(db, this.collections.reconciliations, reconciliationIds[id]);
+                plan.writes.push(batch => batch.set(ref, this.toDocumentData({
+                    ...data,
+                    accountId: accountIds[data.accountId],
+                    transactionIds: data.transactionIds.filter(t => savedIds[t]).map(t => savedIds[t]),
+                    userId
+                })));
+                plan.summary.reconciliations.created++;
+            });
+    }
+
+    // the document id is the loan account's id. payments whose chain wasn't restored are left
+    // out, the schedule goes back to owing them like it does when the transactions are deleted
+    private async planLoans(
+        userId: string,
+        backup: Backup,
+        accountIds: Record<string, string>,
+        chainIds: Record<string, string>,
+        plan: RestorePlan
+    ) {
+        const existing = plan.mode === 'MERGE' ? await services.loans.getLoansByUser(userId) : [];
+
+        backup.loans
+            .filter(loan => accountIds[loan.accountId] && accountIds[loan.paymentAccountId])
+            .forEach((loan: Loan) => {
+                const accountId = accountIds[loan.accountId];
+                if (existing.some(l => l.accountId === accountId)) {
+                    plan.summary.loans.existing++;
+                    return;
+                }
+
+                const {id, ...data} = loan;
+                const ref = doc(db, this.collections.loans, accountId);
+                plan.writes.push(batch => batch.set(ref, this.toDocumentData({
+                    ...data,
+                    accountId,
+                    paymentAccountId: accountIds[data.paymentAccountId],
+                    payments: data.payments
+                        .filter(payment => chainIds[payment.chainId])
+                        .map(payment => ({...payment, chainId: chainIds[payment.chainId]})),
+                    userId
+                })));
+                plan.summary.loans.created++;
+            });
+    }
+
+    // pair keys are made of transaction ids, which are new after a restore. a pair is only kept
+    // when both of its transactions were restored
+    private async planDismissedDuplicates(
+        userId: string,
+        backup: Backup,
+        savedIds: Record<string, string>,
+        plan: RestorePlan
+    ) {
+        const existing = plan.mode === 'MERGE' ? await services.duplicates.getDismissedKeys(userId) : new Set<string>();
+
+        backup.dismissedDuplicates.forEach(key => {
+            const [first, second] = key.split('_');
+            if (!savedIds[first] || !savedIds[second]) return;
+
+            const pairKey = getPairKey(savedIds[first], savedIds[second]);
+            if (existing.has(pairKey)) {
+                plan.summary.dismissedDuplicates.existing++;
+                return;
+            }
+
+            const ref = doc(db, this.collections.dismissedDuplicates, services.duplicates.getDismissalId(userId, pairKey));
+            plan.writes.push(batch => batch.set(ref, this.toDocumentData({
+                pairKey,
+                userId,
+                createdAt: serverTimestamp()
+            })));
+            plan.summary.dismissedDuplicates.created++;
+        });
+    }
+
+    // a transaction locked by a reconciliation that isn't restored with it would have nothing
+    // to unlock it from, so it goes back to cleared
+    private remapReconciliation(
+        transaction: Pick<Transaction, 'clearedStatus' | 'reconciliationId'>,
+        reconciliationIds: Record<string, string>
+    ): Pick<Transaction, 'clearedStatus' | 'reconciliationId'> {
+        const reconciliationId = transaction.reconciliationId ? reconciliationIds[transaction.reconciliationId] : null;
+        if (transaction.clearedStatus === 'RECONCILED' && !reconciliationId) {
+            return {clearedStatus: 'CLEARED', reconciliationId: null};
+        }
+        return {clearedStatus: transaction.clearedStatus, reconciliationId: reconciliationId || null};
+    }
+
+    private async planBudgets(userId: string, backup: Backup, plan: RestorePlan) {
+        const existing = plan.mode === 'MERGE' ? await services.budgets.getBudgetsByUser(userId) : [];
+
+        backup.budgets.forEach(budget => {
+            if (existing.some(b => b.category === budget.category)) {
+                plan.summary.budgets.existing++;
+                return;
+            }
+
+            const ref = doc(collection(db, this.collections.budgets));
+            const {id, ...data} = budget;
+            plan.writes.push(batch => batch.set(ref, this.toDocumentData({...data, userId})));
+            plan.summary.budgets.created++;
+        });
+    }
+
+    // lastProcessedDate is kept so the catch-up pass doesn't recreate occurrences
+    // that are already in the restored transactions
+    private async planRecurringRules(
+        userId: string,
+        backup: Backup,
+        accountIds: Record<string, string>,
+        plan: RestorePlan
+    ) {
+        const existing = plan.mode === 'MERGE' ? await services.recurring.getRulesByUser(userId) : [];
+
+        backup.recurringRules
+            .filter(rule => accountIds[rule.template.accountId])
+            .forEach(rule => {
+                const template = this.remapTemplate(rule.template, accountIds);
+                const isExisting = existing.some(r =>
+                    r.kind === rule.kind &&
+                    r.frequency === rule.frequency &&
+                    r.startDate.getTime() === rule.startDate.getTime() &&
+                    r.template.accountId === template.accountId &&
+                    r.template.description === template.description
+                );
+                if (isExisting) {
+                    plan.summary.recurringRules.existing++;
+                    return;
+                }
+
+                const overrides: Record<string, Partial<RecurringTemplate>> = {};
+                Object.keys(rule.overrides).forEach(dateKey => {
+                    overrides[dateKey] = this.remapTemplate(rule.overrides[dateKey], accountIds);
+                });
+
+                const ref = doc(collection(db, this.collections.recurringRules));
+                const {id, ...data} = rule;
+                plan.writes.push(batch => batch.set(ref, this.toDocumentData({...data, template, overrides, userId})));
+                plan.summary.recurringRules.created++;
+            });
+    }
+
+    // rate ids are derived from the pair and date, so a rate the user already has is simply not written
+    private async planExchangeRates(userId: string, backup: Backup, plan: RestorePlan) {
+        const existing = plan.mode === 'MERGE'
+            ? (await services.exchangeRates.getRates(userId)).map(rate => rate.id)
+            : [];
+
+        backup.exchangeRates.forEach(rate => {
+            const rateId = services.exchangeRates.getRateId(userId, rate);
+            if (existing.includes(rateId)) {
+                plan.summary.exchangeRates.existing++;
+                return;
+            }
+
+            const ref = doc(db, this.collections.exchangeRates, rateId);
+            const {id, ...data} = rate;
+            plan.writes.push(batch => batch.set(ref, this.toDocumentData({...data, userId})));
+            plan.summary.exchangeRates.created++;
+        });
+    }
+
+    // restored rules keep their order and go below the ones the user already has.
+    // a rule limited to an account that isn't in the backup is left out
+    private async planCategorizationRules(
+        userId: string,
+        backup: Backup,
+        accountIds: Record<string, string>,
+        plan: RestorePlan
+    ) {
+        const existing = plan.mode === 'MERGE' ? await services.rules.getRulesByUser(userId) : [];
+        const offset = existing.length ? existing[existing.length - 1].priority + 1 : 0;
+
+        backup.categorizationRules
+            .filter(rule => !rule.conditions.accountId || accountIds[rule.conditions.accountId])
+            .forEach(rule => {
+                if (existing.some(r => r.name.toLowerCase() === rule.name.toLowerCase())) {
+                    plan.summary.categorizationRules.existing++;
+                    return;
+                }
+
+                const ref = doc(collection(db, this.collections.categorizationRules));
+                const {id, ...data} = rule;
+                const conditions = {
+                    ...rule.conditions,
+                    accountId: rule.conditions.accountId ? accountIds[rule.conditions.accountId] : null
+                };
+                plan.writes.push(batch => batch.set(ref, this.toDocumentData({
+                    ...data,
+                    conditions,
+                    priority: offset + rule.priority,
+                    userId
+                })));
+                plan.summary.categorizationRules.created++;
+            });
+    }
+
+    // one mapping per bank name, like saving one does
+    private async planImportMappings(userId: string, backup: Backup, plan: RestorePlan) {
+        const existing = plan.mode === 'MERGE' ? await services.imports.getMappings(userId) : [];
+
+        backup.importMappings.forEach(mapping => {
+            if (existing.some(m => m.bankName === mapping.bankName)) {
+                plan.summary.importMappings.existing++;
+                return;
+            }
+
+            const ref = doc(collection(db, this.collections.importMappings));
+            const {id, ...data} = mapping;
+            plan.writes.push(batch => batch.set(ref, this.toDocumentData({...data, userId})));
+            plan.summary.importMappings.created++;
+        });
+    }
+
+    // replace always takes the backup's settings, merge only when the user never saved any.
+    // the base currency decides every converted total, so falling back to the default is no good
+    private async planSettings(userId: string, backup: Backup, plan: RestorePlan) {
+        if (!backup.settings) return;
+
+        const ref = doc(db, this.settingsCollection, userId);
+        if (plan.mode === 'MERGE' && (await getDoc(ref)).exists()) {
+            plan.summary.settings.existing++;
+            return;
+        }
+
+        const {baseCurrency, paybackReminders} = backup.settings;
+        plan.writes.push(batch => batch.set(ref, this.toDocumentData({
+            baseCurrency,
+            paybackReminders,
+            snoozedReminders: {},
+            updatedAt: serverTimestamp()
+        })));
+        plan.summary.settings.created++;
+    }
+
+    // batches go out one after another, so a failure part way leaves the earlier ones written
+    private async commitWrites(plan: RestorePlan) {
+        for (let i = 0; i < plan.writes.length; i += BATCH_SIZE) {
+            const batch = writeBatch(db);
+            plan.writes.slice(i, i + BATCH_SIZE).forEach(write => write(batch));
+            await batch.commit();
+        }
+    }
+
+    private upgradeAmounts(backup: Backup): Backup {
+        return {
+            ...backup,
+            transactions: backup.transactions.map(t => ({...t, amount: toMoney(t.amount)})),
+            budgets: backup.budgets.map(b => ({...b, limit: toMoney(b.limit)})),
+            recurringRules: backup.recurringRules.map(rule => {
+                const overrides: typeof rule.overrides = {};
+                Object.keys(rule.overrides).forEach(dateKey => {
+                    const override = rule.overrides[dateKey];
+                    overrides[dateKey] = override.amount === undefined
+                        ? override
+                        : {...override, amount: toMoney(override.amount)};
+                });
+                return {...rule, template: {...rule.template, amount: toMoney(rule.template.amount)}, overrides};
+            })
+        };
+    }
+
+    // everything before multi-currency support was in the default currency
+    private upgradeCurrencies(backup: Backup): Backup {
+        return {
+            ...backup,
+            accounts: backup.accounts.map(a => ({...a, currency: a.currency || DEFAULT_CURRENCY})),
+            exchangeRates: backup.exchangeRates || []
+        };
+    }
+
+    private remapTemplate<T extends Partial<RecurringTemplate>>(template: T, accountIds: Record<string, string>): T {
+        const remapped = {...template};
+        if (remapped.accountId) {
+            remapped.accountId = accountIds[remapped.accountId] || remapped.accountId;
+        }
+        if (remapped.toAccountId) {
+            remapped.toAccountId = accountIds[remapped.toAccountId] || remapped.toAccountId;
+        }
+        return remapped;
+    }
+
+    private transactionKey(t: Transaction): string {
+        return `${t.accountId}|${t.createdAt.getTime()}|${t.type}|${t.amount.amount}|${t.amount.currency}|${t.description}`;
+    }
+
+    // dates become timestamps and undefined fields are dropped, firestore rejects them
+    private toDocumentData(value: any): any {
+        if (value instanceof Date) {
+            return Timestamp.fromDate(value);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.toDocumentData(item));
+        }
+        if (value && Object.getPrototypeOf(value) === Object.prototype) {
+            const result: Record<string, any> = {};
+            Object.keys(value).forEach(key => {
+                if (value[key] !== undefined) {
+                    result[key] = this.toDocumentData(value[key]);
+                }
+            });
+            return result;
+        }
+        return value;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,249 @@
+import {db} from '@/lib/firebase';
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+import {Budget, BudgetProgress, CreateBudgetDTO, UpdateBudgetDTO} from '@/types/budgets';
+import {BudgetDTO} from '@/types/models';
+import {CreateTransactionDTO, TransactionSplit} from '@/types/transactions';
+import {Money} from '@/types/money';
+import {CurrencyConverter} from '@/types/exchangeRates';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {getCategories, getCategoryAmounts} from '@/lib/splits';
+import {services} from '@/lib/services';
+import {addMoney, subtractMoney, sumMoney, toMoney, zeroMoney} from '@/lib/money';
+import {isIncomeOrExpense} from '@/services/categories';
+
+export class BudgetService {
+    private collection = 'budgets';
+    private validator = new ValidationService();
+
+    async createBudget(userId: string, data: CreateBudgetDTO): Promise<Budget> {
+        this.validator.validateBudget(data);
+
+        try {
+            const budgetsRef = collection(db, this.collection);
+
+            // only one budget per category (and one overall cap)
+            const duplicateQuery = query(
+                budgetsRef,
+                where('userId', '==', userId),
+                where('category', '==', data.category)
+            );
+            const duplicates = await getDocs(duplicateQuery);
+            if (!duplicates.empty) {
+                throw new AppError(
+                    data.category ? 'A budget for this category already exists' : 'An overall budget already exists',
+                    ErrorCodes.BUDGET_EXISTS,
+                    400
+                );
+            }
+
+            const docRef = await addDoc(budgetsRef, {
+                category: data.category,
+                limit: data.limit,
+                userId,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            const createdDoc = await getDoc(docRef);
+
+            if (!createdDoc.exists()) {
+                throw new AppError(
+                    'Failed to create budget',
+                    ErrorCodes.INVALID_INPUT,
+                    500
+                );
+            }
+
+            return this.convertToBudget({
+                id: docRef.id,
+                ...createdDoc.data()
+            } as BudgetDTO);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to create budget',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    async updateBudget(budgetId: string, data: UpdateBudgetDTO, userId: string): Promise<void> {
+        try {
+            const budgetRef = doc(db, this.collection, budgetId);
+            const budgetDoc = await getDoc(budgetRef);
+
+            if (!budgetDoc.exists()) {
+                throw new AppError('Budget not found', ErrorCodes.BUDGET_NOT_FOUND, 404);
+            }
+
+            const budget = budgetDoc.data();
+            if (budget.userId !== userId) {
+                throw new AppError('Not authorized to update this budget', ErrorCodes.UNAUTHORIZED, 403);
+            }
+
+            if (data.limit !== undefined) {
+                this.validator.validateBudget({category: budget.category, limit: data.limit});
+            }
+
+            await updateDoc(budgetRef, {
+                ...data,
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError('Failed to update budget', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async deleteBudget(budgetId: string, userId: string): Promise<void> {
+        try {
+            const budgetRef = doc(db, this.collection, budgetId);
+            const budgetDoc = await getDoc(budgetRef);
+
+            if (!budgetDoc.exists()) {
+                throw new AppError('Budget not found', ErrorCodes.BUDGET_NOT_FOUND, 404);
+            }
+
+            if (budgetDoc.data().userId !== userId) {
+                throw new AppError('Not authorized to delete this budget', ErrorCodes.UNAUTHORIZED, 403);
+            }
+
+            await deleteDoc(budgetRef);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError('Failed to delete budget', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async getBudgetsByUser(userId: string): Promise<Budget[]> {
+        try {
+            const budgetsRef = collection(db, this.collection);
+            const q = query(budgetsRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            const budgets = snapshot.docs.map(doc =>
+                this.convertToBudget({
+                    id: doc.id,
+                    ...doc.data()
+                } as BudgetDTO)
+            );
+
+            // overall cap first, then by category name
+            return budgets.sort((a, b) => {
+                if (a.category === null) return -1;
+                if (b.category === null) return 1;
+                return a.category.localeCompare(b.category);
+            });
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch budgets',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    async getBudgetProgress(userId: string, month: Date = new Date()): Promise<BudgetProgress[]> {
+        const budgets = await this.getBudgetsByUser(userId);
+        if (!budgets.length) return [];
+
+        const [spending, converter] = await Promise.all([
+            this.getMonthlySpending(userId, month),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        return budgets
+            .map(budget => this.calculateProgress(budget, spending, converter))
+            .filter((progress): progress is BudgetProgress => progress !== null);
+    }
+
+    // budgets the given expense would push over their limit. one that is already over without
+    // it isn't warned about again. when editing, pass the original values so they aren't counted twice
+    async getBudgetWarnings(
+        userId: string,
+        data: CreateTransactionDTO,
+        previous?: { category: string; amount: Money; splits?: TransactionSplit[] | null; transactionDate?: Date; }
+    ): Promise<BudgetProgress[]> {
+        if (data.type !== 'NEGATIVE' || !isIncomeOrExpense(data)) return [];
+
+        const budgets = await this.getBudgetsByUser(userId);
+        const categories = getCategories(data);
+        const relevant = budgets.filter(b => b.category === null || categories.includes(b.category));
+        if (!relevant.length) return [];
+
+        const date = data.transactionDate || new Date();
+        const [spending, converter] = await Promise.all([
+            this.getMonthlySpending(userId, date),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        // without a rate there is nothing to compare, that's no reason to hold up the save
+        const amount = converter.tryToBase(data.amount, date);
+        if (!amount) return [];
+
+        const zero = zeroMoney(converter.baseCurrency);
+        const previousAmount = previous && converter.tryToBase(previous.amount, previous.transactionDate || date);
+        if (previous && previousAmount) {
+            getCategoryAmounts(previous, previousAmount).forEach(line => {
+                spending[line.category] = subtractMoney(spending[line.category] || zero, line.amount);
+            });
+        }
+        const withExpense = {...spending};
+        getCategoryAmounts(data, amount).forEach(line => {
+            withExpense[line.category] = addMoney(withExpense[line.category] || zero, line.amount);
+        });
+
+        return relevant
+            .filter(budget => !this.calculateProgress(budget, spending, converter)?.isOverspent)
+            .map(budget => this.calculateProgress(budget, withExpense, converter))
+            .filter((progress): progress is BudgetProgress => progress !== null && progress.isOverspent);
+    }
+
+    private async getMonthlySpending(userId: string, month: Date): Promise<Record<string, Money>> {
+        const startOfMonth = new Date(month.getFullYear(), month.getMonth(), 1);
+        const endOfMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0, 23, 59, 59, 999);
+
+        return services.stats.getSpendingByCategory(userId, startOfMonth, endOfMonth);
+    }
+
+    // spending is in the base currency, a limit set before the base currency
+    // changed is converted at today's rate. null when there is no rate for it
+    private calculateProgress(
+        budget: Budget,
+        spending: Record<string, Money>,
+        converter: CurrencyConverter
+    ): BudgetProgress | null {
+        const limit = converter.tryToBase(budget.limit, new Date());
+        if (!limit) return null;
+        const spent = budget.category === null
+            ? sumMoney(Object.values(spending), limit.currency)
+            : spending[budget.category] || zeroMoney(limit.currency);
+
+        return {
+            budget: {...budget, limit},
+            spent,
+            remaining: subtractMoney(limit, spent),
+            percentage: (spent.amount / limit.amount) * 100,
+            isOverspent: spent.amount > limit.amount
+        };
+    }
+
+    private convertToBudget(dto: BudgetDTO): Budget {
+        return {
+            ...dto,
+            limit: toMoney(dto.limit),
+            createdAt: dto.createdAt?.toDate() || new Date(),
+            updatedAt: dto.updatedAt?.toDate() || new Date()
+        };
+    }
+}
\ No newline at end of file
@@ -14,6 +14,31 @@ import {
 import {CreateCategoryDTO, TransactionCategory} from '@/types/transactions';
 import {AppError, ErrorCodes} from '@/lib/errors';
 
+// assigned to imported transactions until the user (or a rule) picks a category
+export const UNCATEGORIZED_CATEGORY = 'Uncategorized';
+
+// category of a transaction spread over several categories with split lines
+export const SPLIT_CATEGORY = 'Split';
+
+// the fee leg of a transfer is an expense in this category
+export const TRANSFER_FEE_CATEGORY = 'Bank Fees';
+
+// opening balances and "adjust balance to" corrections
+export const BALANCE_ADJUSTMENT_CATEGORY = 'Balance Adjustment';
+
+// the interest part of a loan payment, the principal part is a transfer
+export const LOAN_INTEREST_CATEGORY = 'Loan Interest';
+
+// repayments recorded against a payback
+export const PAYBACK_CATEGORY = 'Payback';
+
+// transfers, adjustments and repayments move balances around but are neither income nor spending
+export function isIncomeOrExpense(transaction: { category: string; }): boolean {
+    return transaction.category !== 'TRANSFER' &&
+        transaction.category !== BALANCE_ADJUSTMENT_CATEGORY &&
+        transaction.category !== PAYBACK_CATEGORY;
+}
+
 export class CategoryService {
     private collection = 'categories';
 
@@ -69,6 +94,30 @@ export class CategoryService {
             color: '#FF922B',
             isCustom: false
         },
+        {
+            id: 'default-bank-fees',
+            name: TRANSFER_FEE_CATEGORY,
+            type: 'EXPENSE',
+            icon: 'building-bank',
+            color: '#495057',
+            isCustom: false
+        },
+        {
+            id: 'default-loan-interest',
+            name: LOAN_INTEREST_CATEGORY,
+            type: 'EXPENSE',
+            icon: 'percentage',
+            color: '#E8590C',
+            isCustom: false
+        },
+        {
+            id: 'default-uncategorized-expense',
+            name: UNCATEGORIZED_CATEGORY,
+            type: 'EXPENSE',
+            icon: 'question-mark',
+            color: '#868E96',
+            isCustom: false
+        },
 
         // pre defined income categories
         {id: 'default-salary', name: 'Salary', type: 'INCOME', icon: 'wallet', color: '#51CF66', isCustom: false},
@@ -89,6 +138,14 @@ export class CategoryService {
             isCustom: false
         },
         {id: 'default-gifts', name: 'Gifts', type: 'INCOME', icon: 'gift', color: '#BE4BDB', isCustom: false},
+        {
+            id: 'default-uncategorized-income',
+            name: UNCATEGORIZED_CATEGORY,
+            type: 'INCOME',
+            icon: 'question-mark',
+            color: '#868E96',
+            isCustom: false
+        },
 
         // pre defined transfer categories
         {
@@ -98,6 +155,22 @@ export class CategoryService {
             icon: 'arrows-right-left',
             color: '#4C6EF5',
             isCustom: false
+        },
+        {
+            id: 'default-balance-adjustment',
+            name: BALANCE_ADJUSTMENT_CATEGORY,
+            type: 'SELFTRANSFER',
+            icon: 'adjustments',
+            color: '#868E96',
+            isCustom: false
+        },
+        {
+            id: 'default-payback',
+            name: PAYBACK_CATEGORY,
+            type: 'SELFTRANSFER',
+            icon: 'arrow-back-up',
+            color: '#12B886',
+            isCustom: false
         }
     ];
 
@@ -0,0 +1,95 @@
+import {db} from '@/lib/firebase';
+import {collection, doc, getDocs, query, serverTimestamp, setDoc, where} from 'firebase/firestore';
+import {DuplicatePair} from '@/types/duplicates';
+import {CreateTransactionDTO, Transaction} from '@/types/transactions';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {DUPLICATE_WINDOW_DAYS, findDuplicatePairs, getMergedFields, isPossibleDuplicate} from '@/lib/duplicates';
+import {services} from '@/lib/services';
+
+export class DuplicateService {
+    private collection = 'dismissedDuplicates';
+
+    // every pair across the user's accounts that hasn't been dismissed, newest first
+    async findDuplicates(userId: string): Promise<DuplicatePair[]> {
+        const [accounts, dismissedKeys] = await Promise.all([
+            services.accounts.getAccountsByUser(userId),
+            this.getDismissedKeys(userId)
+        ]);
+
+        const pairs: DuplicatePair[] = [];
+        for (const account of accounts) {
+            const transactions = await services.transactions.getTransactionsByAccount(account.id);
+            pairs.push(...findDuplicatePairs(transactions, dismissedKeys));
+        }
+
+        return pairs.sort((a, b) => b.second.createdAt.getTime() - a.second.createdAt.getTime());
+    }
+
+    // existing transactions a new one would duplicate, checked before it is saved
+    async findDuplicatesOf(data: CreateTransactionDTO): Promise<Transaction[]> {
+        if (!data.accountId || data.chainId) return [];
+
+        const date = data.transactionDate || new Date();
+        const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - DUPLICATE_WINDOW_DAYS);
+        const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + DUPLICATE_WINDOW_DAYS + 1);
+        const transactions = await services.transactions.getTransactionsByAccount(data.accountId, start, end);
+
+        return transactions.filter(t => !t.chainId && isPossibleDuplicate({...data, createdAt: date}, t));
+    }
+
+    // keeps one transaction with the other's fields folded in and deletes the other
+    async mergePair(userId: string, keepId: string, removeId: string): Promise<void> {
+        const [keep, remove] = await Promise.all([
+            services.transactions.getTransactionById(keepId, userId),
+            services.transactions.getTransactionById(removeId, userId)
+        ]);
+        if (keep.chainId || remove.chainId) {
+            throw new AppError('Transfers cannot be merged', ErrorCodes.INVALID_INPUT, 400);
+        }
+        // keep only takes the merged fields once remove is sure to go
+        await services.transactions.assertDeletable(remove, userId);
+
+        await services.transactions.updateTransaction(keep.id, getMergedFields(keep, remove), userId);
+        await services.transactions.deleteTransaction(remove.id, userId);
+    }
+
+    // the pair is never reported again, the transactions themselves are untouched
+    async dismissPair(userId: string, pair: DuplicatePair): Promise<void> {
+        const pairKey = pair.key;
+
+        try {
+            await setDoc(doc(db, this.collection, this.getDismissalId(userId, pairKey)), {
+                pairKey,
+                userId,
+                createdAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError(
+                'Failed to dismiss duplicate',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // one document per pair, so dismissing it again or restoring it from a backup doesn't duplicate it
+    getDismissalId(userId: string, pairKey: string): string {
+        return `${userId}_${pairKey}`;
+    }
+
+    async getDismissedKeys(userId: string): Promise<Set<string>> {
+        try {
+            const dismissedRef = collection(db, this.collection);
+            const q = query(dismissedRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            return new Set(snapshot.docs.map(doc => doc.data().pairKey as string));
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch dismissed duplicates',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+}
\ No newline at end of file
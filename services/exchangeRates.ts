@@ -0,0 +1,221 @@
+import {db} from '@/lib/firebase';
+import {
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    setDoc,
+    Timestamp,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import {CreateExchangeRateDTO, CurrencyConverter, ExchangeRate, RateImportResult} from '@/types/exchangeRates';
+import {ExchangeRateDTO} from '@/types/models';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {parseCsv} from '@/lib/csv';
+import {createConverter} from '@/lib/exchange';
+import {toDateKey} from '@/lib/recurrence';
+import {formatDate} from '@/lib/utils';
+import {signedAmount} from '@/lib/money';
+import {services} from '@/lib/services';
+
+// firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+export class ExchangeRateService {
+    private collection = 'exchangeRates';
+    private validator = new ValidationService();
+
+    // one rate per pair and day, saving the same pair and day again replaces it
+    async saveRate(userId: string, data: CreateExchangeRateDTO): Promise<void> {
+        const rate = this.normalize(data);
+        this.validator.validateExchangeRate(rate);
+
+        try {
+            await setDoc(doc(db, this.collection, this.getRateId(userId, rate)), this.prepareRateData(userId, rate));
+        } catch (error) {
+            throw new AppError(
+                'Failed to save exchange rate',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // rows of date (YYYY-MM-DD), from currency, to currency, rate. a header row is optional
+    async importRates(userId: string, text: string): Promise<RateImportResult> {
+        const rows = parseCsv(text);
+        const result: RateImportResult = {imported: 0, errors: []};
+        const rates: CreateExchangeRateDTO[] = [];
+
+        rows.forEach((row, index) => {
+            if (index === 0 && isNaN(parseFloat(row[3]))) return;
+
+            try {
+                const rate = this.normalize({
+                    effectiveDate: this.parseDate(row[0] || ''),
+                    fromCurrency: row[1] || '',
+                    toCurrency: row[2] || '',
+                    rate: parseFloat(row[3])
+                });
+                this.validator.validateExchangeRate(rate);
+                rates.push(rate);
+            } catch (error) {
+                result.errors.push({
+                    rowNumber: index + 1,
+                    message: error instanceof Error ? error.message : 'Invalid row'
+                });
+            }
+        });
+
+        try {
+            for (let i = 0; i < rates.length; i += BATCH_SIZE) {
+                const batch = writeBatch(db);
+                rates.slice(i, i + BATCH_SIZE).forEach(rate => {
+                    batch.set(doc(db, this.collection, this.getRateId(userId, rate)), this.prepareRateData(userId, rate));
+                });
+                await batch.commit();
+                result.imported += Math.min(BATCH_SIZE, rates.length - i);
+            }
+        } catch (error) {
+            throw new AppError(
+                'Failed to import exchange rates',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+
+        return result;
+    }
+
+    async deleteRate(rateId: string, userId: string): Promise<void> {
+        try {
+            const rateRef = doc(db, this.collection, rateId);
+            const rateDoc = await getDoc(rateRef);
+
+            if (!rateDoc.exists()) {
+                throw new AppError('Exchange rate not found', ErrorCodes.EXCHANGE_RATE_NOT_FOUND, 404);
+            }
+            if (rateDoc.data().userId !== userId) {
+                throw new AppError('Not authorized to delete this exchange rate', ErrorCodes.UNAUTHORIZED, 403);
+            }
+            await this.checkRateNotNeeded(rateId, userId);
+
+            await deleteDoc(rateRef);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError('Failed to delete exchange rate', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async getRates(userId: string): Promise<ExchangeRate[]> {
+        try {
+            const ratesRef = collection(db, this.collection);
+            const q = query(ratesRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            const rates = snapshot.docs.map(doc =>
+                this.convertToRate({
+                    id: doc.id,
+                    ...doc.data()
+                } as ExchangeRateDTO)
+            );
+
+            // newest first, then by pair
+            return rates.sort((a, b) =>
+                b.effectiveDate.getTime() - a.effectiveDate.getTime() ||
+                `${a.fromCurrency}${a.toCurrency}`.localeCompare(`${b.fromCurrency}${b.toCurrency}`)
+            );
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch exchange rates',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // loads the user's rates and base currency once, for converting many amounts
+    async getConverter(userId: string): Promise<CurrencyConverter> {
+        const [rates, settings] = await Promise.all([
+            this.getRates(userId),
+            services.settings.getSettings(userId)
+        ]);
+        return createConverter(rates, settings.baseCurrency);
+    }
+
+    // a rate can go as long as every transaction in another currency than its account can
+    // still be converted without it, through another rate for the pair or the base currency
+    private async checkRateNotNeeded(rateId: string, userId: string) {
+        const [rates, settings, accounts] = await Promise.all([
+            this.getRates(userId),
+            services.settings.getSettings(userId),
+            services.accounts.getAccountsByUser(userId, true)
+        ]);
+        const converter = createConverter(rates.filter(rate => rate.id !== rateId), settings.baseCurrency);
+
+        for (const account of accounts) {
+            const transactions = await services.transactions.getTransactionsByAccount(account.id);
+            const needing = transactions.find(t =>
+                t.amount.currency !== account.currency &&
+                !converter.tryConvert(signedAmount(t), account.currency, t.createdAt)
+            );
+            if (needing) {
+                throw new AppError(
+                    `This rate is still needed for "${needing.description}" on ${formatDate(needing.createdAt)} in ${account.name}`,
+                    ErrorCodes.EXCHANGE_RATE_IN_USE,
+                    400
+                );
+            }
+        }
+    }
+
+    private normalize(data: CreateExchangeRateDTO): CreateExchangeRateDTO {
+        const date = data.effectiveDate;
+        return {
+            fromCurrency: data.fromCurrency.trim().toUpperCase(),
+            toCurrency: data.toCurrency.trim().toUpperCase(),
+            rate: data.rate,
+            effectiveDate: date instanceof Date ? new Date(date.getFullYear(), date.getMonth(), date.getDate()) : date
+        };
+    }
+
+    // deterministic, so restoring a backup over existing rates doesn't duplicate them
+    getRateId(userId: string, rate: CreateExchangeRateDTO): string {
+        return `${userId}_${rate.fromCurrency}_${rate.toCurrency}_${toDateKey(rate.effectiveDate)}`;
+    }
+
+    private prepareRateData(userId: string, rate: CreateExchangeRateDTO) {
+        return {
+            fromCurrency: rate.fromCurrency,
+            toCurrency: rate.toCurrency,
+            rate: rate.rate,
+            effectiveDate: Timestamp.fromDate(rate.effectiveDate),
+            userId,
+            updatedAt: serverTimestamp()
+        };
+    }
+
+    private parseDate(value: string): Date {
+        const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+        if (match) {
+            const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+            if (date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3])) {
+                return date;
+            }
+        }
+        throw new AppError(`Invalid date "${value}", expected YYYY-MM-DD`, ErrorCodes.INVALID_INPUT, 400);
+    }
+
+    private convertToRate(dto: ExchangeRateDTO): ExchangeRate {
+        return {
+            ...dto,
+            effectiveDate: dto.effectiveDate.toDate(),
+            updatedAt: dto.updatedAt?.toDate() || new Date()
+        };
+    }
+}
\ No newline at end of file
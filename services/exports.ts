@@ -0,0 +1,114 @@
+import {ExportFile, ExportFormat, ExportSnapshot} from '@/types/exports';
+import {Transaction, TransactionFilters} from '@/types/transactions';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {toCsv} from '@/lib/csv';
+import {buildOfx} from '@/lib/ofx';
+import {toDateKey} from '@/lib/recurrence';
+import {signedAmount, toDecimalString} from '@/lib/money';
+import {services} from '@/lib/services';
+
+export class ExportService {
+    // gathers everything matching the filters, the same way TransactionManager does
+    async collectData(userId: string, filters: TransactionFilters, includeArchived = false): Promise<ExportSnapshot> {
+        try {
+            // accounts picked by id are exported even when archived
+            const allAccounts = await services.accounts.getAccountsByUser(
+                userId,
+                includeArchived || !!filters.accountIds?.length || !!filters.accountId
+            );
+            const accountIds = filters.accountIds?.length
+                ? filters.accountIds
+                : filters.accountId ? [filters.accountId] : allAccounts.map(a => a.id);
+            const accounts = allAccounts.filter(a => accountIds.includes(a.id));
+
+            const results = await Promise.all(accounts.map(account =>
+                services.transactions.getTransactionsByAccount(account.id, filters.startDate, filters.endDate)
+            ));
+            const transactions = services.transactions.applyFilters(results.flat(), filters);
+
+            const categories = (await services.categories.getCategories())
+                .filter(category => category.userId === userId);
+
+            return {
+                exportedAt: new Date(),
+                filters,
+                accounts,
+                transactions,
+                categories
+            };
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError('Failed to collect export data', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async exportData(userId: string, format: ExportFormat, filters: TransactionFilters): Promise<ExportFile[]> {
+        const snapshot = await this.collectData(userId, filters);
+        const stamp = toDateKey(snapshot.exportedAt);
+
+        switch (format) {
+            case 'CSV':
+                return [{
+                    filename: `transactions-${stamp}.csv`,
+                    mimeType: 'text/csv',
+                    content: this.toCsv(snapshot)
+                }];
+            case 'JSON':
+                return [{
+                    filename: `money-manager-${stamp}.json`,
+                    mimeType: 'application/json',
+                    content: JSON.stringify(snapshot, null, 2)
+                }];
+            case 'OFX':
+                return this.toOfxFiles(snapshot, stamp);
+        }
+    }
+
+    private toCsv(snapshot: ExportSnapshot): string {
+        const accountNames = new Map(snapshot.accounts.map(a => [a.id, a.name]));
+
+        const header = [
+            'Date', 'Account', 'Type', 'Category', 'Description', 'Amount', 'Currency', 'Party', 'Tags',
+            'Chain ID', 'Requires Payback', 'Payback Due', 'Payback Status', 'Payback Repaid', 'Payback Completed',
+            'Repayment Of', 'Transaction ID'
+        ];
+        const rows = snapshot.transactions.map(t => [
+            toDateKey(t.createdAt),
+            accountNames.get(t.accountId) || t.accountId,
+            t.category === 'TRANSFER' ? 'TRANSFER' : t.type === 'POSITIVE' ? 'INCOME' : 'EXPENSE',
+            t.category,
+            t.description,
+            toDecimalString(signedAmount(t)),
+            t.amount.currency,
+            t.partyName,
+            t.tags.join(';'),
+            t.chainId,
+            t.requiresPayback,
+            t.paybackDetails ? toDateKey(t.paybackDetails.dueDate) : '',
+            t.paybackDetails?.status,
+            t.paybackDetails ? toDecimalString(t.paybackDetails.repaid) : '',
+            t.paybackDetails?.completedAt ? toDateKey(t.paybackDetails.completedAt) : '',
+            t.repaymentOf,
+            t.id
+        ]);
+
+        return toCsv([header, ...rows]);
+    }
+
+    private toOfxFiles(snapshot: ExportSnapshot, stamp: string): ExportFile[] {
+        const byAccount: Record<string, Transaction[]> = {};
+        snapshot.transactions.forEach(t => {
+            (byAccount[t.accountId] = byAccount[t.accountId] || []).push(t);
+        });
+
+        const dates = snapshot.transactions.map(t => t.createdAt.getTime());
+        const startDate = snapshot.filters.startDate || new Date(dates.length ? Math.min(...dates) : Date.now());
+        const endDate = snapshot.filters.endDate || snapshot.exportedAt;
+
+        return snapshot.accounts.map(account => ({
+            filename: `${account.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${stamp}.ofx`,
+            mimeType: 'application/x-ofx',
+            content: buildOfx(account, byAccount[account.id] || [], startDate, endDate)
+        }));
+    }
+}
\ No newline at end of file
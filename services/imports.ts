@@ -0,0 +1,351 @@
+import {db} from '@/lib/firebase';
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+import {
+    CsvColumnMapping,
+    ImportDateFormat,
+    ImportPreviewRow,
+    ImportResult,
+    SavedImportMapping,
+    StatementEntry,
+    StatementFormat
+} from '@/types/imports';
+import {SavedImportMappingDTO} from '@/types/models';
+import {CreateTransactionDTO} from '@/types/transactions';
+import {Money} from '@/types/money';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {parseCsv} from '@/lib/csv';
+import {parseOfx} from '@/lib/ofx';
+import {parseQif, QifDateOrder} from '@/lib/qif';
+import {DEFAULT_CURRENCY, negateMoney, parseMoney, subtractMoney, zeroMoney} from '@/lib/money';
+import {services} from '@/lib/services';
+import {UNCATEGORIZED_CATEGORY} from '@/services/categories';
+
+export class ImportService {
+    private collection = 'importMappings';
+    private validator = new ValidationService();
+
+    // turns the raw csv into transactions for the given account. rows that
+    // can't be parsed are kept with an error so the preview can show them.
+    // amounts are read in the account's currency
+    parseCsvFile(
+        text: string,
+        mapping: CsvColumnMapping,
+        accountId: string,
+        currency: string = DEFAULT_CURRENCY
+    ): ImportPreviewRow[] {
+        const rows = parseCsv(text);
+        const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+        const offset = mapping.hasHeader ? 2 : 1;
+
+        return dataRows.map((row, index) => {
+            const rowNumber = index + offset;
+            try {
+                return {
+                    rowNumber,
+                    transaction: this.mapRow(row, mapping, accountId, currency),
+                    error: null
+                };
+            } catch (error) {
+                return {
+                    rowNumber,
+                    transaction: null,
+                    error: error instanceof AppError ? error.message : 'Could not read this row'
+                };
+            }
+        });
+    }
+
+    async importTransactions(userId: string, rows: ImportPreviewRow[]): Promise<ImportResult> {
+        const result: ImportResult = {added: 0, duplicates: 0, rejected: 0, errors: []};
+
+        for (const row of rows) {
+            if (!row.transaction) {
+                result.rejected++;
+                result.errors.push({rowNumber: row.rowNumber, message: row.error || 'Invalid row'});
+                continue;
+            }
+
+            try {
+                await services.transactions.createTransaction(userId, row.transaction);
+                result.added++;
+            } catch (error) {
+                result.rejected++;
+                result.errors.push({
+                    rowNumber: row.rowNumber,
+                    message: error instanceof AppError ? error.message : 'Failed to create transaction'
+                });
+            }
+        }
+
+        return result;
+    }
+
+    parseStatementFile(
+        text: string,
+        format: StatementFormat,
+        accountId: string,
+        dateOrder: QifDateOrder = 'MDY',
+        currency: string = DEFAULT_CURRENCY
+    ): ImportPreviewRow[] {
+        let entries: StatementEntry[];
+        try {
+            // an OFX file names its own currency, QIF amounts are taken to be in the account's
+            entries = format === 'OFX' ? parseOfx(text, currency) : parseQif(text, dateOrder, currency);
+        } catch (error) {
+            throw new AppError(
+                error instanceof Error ? `Could not read statement: ${error.message}` : 'Could not read statement',
+                ErrorCodes.INVALID_INPUT,
+                400
+            );
+        }
+
+        return entries.map((entry, index) => {
+            const rowNumber = index + 1;
+            if (entry.amount.amount === 0) {
+                return {rowNumber, transaction: null, error: 'Amount is zero'};
+            }
+
+            return {
+                rowNumber,
+                transaction: {
+                    accountId,
+                    amount: entry.amount.amount > 0 ? entry.amount : negateMoney(entry.amount),
+                    type: entry.amount.amount > 0 ? 'POSITIVE' : 'NEGATIVE',
+                    category: UNCATEGORIZED_CATEGORY,
+                    description: entry.payee || entry.memo,
+                    importId: `${format.toLowerCase()}:${entry.externalId}`,
+                    transactionDate: entry.date
+                },
+                error: null
+            };
+        });
+    }
+
+    // like importTransactions, but skips rows whose importId is already in the account.
+    // rows in another currency than the account's need a rate for their date, like the form asks
+    async importStatement(userId: string, accountId: string, rows: ImportPreviewRow[]): Promise<ImportResult> {
+        const result: ImportResult = {added: 0, duplicates: 0, rejected: 0, errors: []};
+
+        const [existing, account, converter] = await Promise.all([
+            services.transactions.getTransactionsByAccount(accountId),
+            services.accounts.getAccountById(accountId, userId),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        const importedIds = new Set(existing.map(t => t.importId).filter(Boolean));
+
+        for (const row of rows) {
+            if (!row.transaction) {
+                result.rejected++;
+                result.errors.push({rowNumber: row.rowNumber, message: row.error || 'Invalid row'});
+                continue;
+            }
+
+            if (row.transaction.importId && importedIds.has(row.transaction.importId)) {
+                result.duplicates++;
+                continue;
+            }
+
+            try {
+                this.validator.validateTransaction(row.transaction);
+                if (row.transaction.amount.currency !== account.currency) {
+                    converter.convert(row.transaction.amount, account.currency, row.transaction.transactionDate || new Date());
+                }
+                await services.transactions.createTransaction(userId, row.transaction);
+                if (row.transaction.importId) importedIds.add(row.transaction.importId);
+                result.added++;
+            } catch (error) {
+                result.rejected++;
+                result.errors.push({
+                    rowNumber: row.rowNumber,
+                    message: error instanceof AppError ? error.message : 'Failed to create transaction'
+                });
+            }
+        }
+
+        return result;
+    }
+
+    // saves (or overwrites) the column mapping for a bank
+    async saveMapping(userId: string, bankName: string, mapping: CsvColumnMapping): Promise<void> {
+        if (!bankName || bankName.trim().length === 0) {
+            throw new AppError('Bank name is required', ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        try {
+            const mappingsRef = collection(db, this.collection);
+            const existingQuery = query(
+                mappingsRef,
+                where('userId', '==', userId),
+                where('bankName', '==', bankName.trim())
+            );
+            const existing = await getDocs(existingQuery);
+
+            if (!existing.empty) {
+                await updateDoc(existing.docs[0].ref, {
+                    mapping,
+                    updatedAt: serverTimestamp()
+                });
+                return;
+            }
+
+            await addDoc(mappingsRef, {
+                bankName: bankName.trim(),
+                mapping,
+                userId,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to save import mapping', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async getMappings(userId: string): Promise<SavedImportMapping[]> {
+        try {
+            const mappingsRef = collection(db, this.collection);
+            const q = query(mappingsRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs
+                .map(doc => {
+                    const dto = {id: doc.id, ...doc.data()} as SavedImportMappingDTO;
+                    return {
+                        ...dto,
+                        createdAt: dto.createdAt?.toDate() || new Date(),
+                        updatedAt: dto.updatedAt?.toDate() || new Date()
+                    };
+                })
+                .sort((a, b) => a.bankName.localeCompare(b.bankName));
+        } catch (error) {
+            throw new AppError('Failed to fetch import mappings', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async deleteMapping(mappingId: string, userId: string): Promise<void> {
+        try {
+            const mappingRef = doc(db, this.collection, mappingId);
+            const mappingDoc = await getDoc(mappingRef);
+
+            if (!mappingDoc.exists()) {
+                throw new AppError('Import mapping not found', ErrorCodes.INVALID_INPUT, 404);
+            }
+            if (mappingDoc.data().userId !== userId) {
+                throw new AppError('Not authorized to delete this mapping', ErrorCodes.UNAUTHORIZED, 403);
+            }
+
+            await deleteDoc(mappingRef);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError('Failed to delete import mapping', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    private mapRow(row: string[], mapping: CsvColumnMapping, accountId: string, currency: string): CreateTransactionDTO {
+        const description = this.getCell(row, mapping.descriptionColumn);
+        if (!description) {
+            throw new AppError('Description is empty', ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        const transactionDate = this.parseDate(this.getCell(row, mapping.dateColumn), mapping.dateFormat);
+        const signedAmount = this.getSignedAmount(row, mapping, currency);
+        if (signedAmount.amount === 0) {
+            throw new AppError('Amount is zero', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+
+        const partyName = mapping.partyColumn !== null ? this.getCell(row, mapping.partyColumn) : '';
+
+        return {
+            accountId,
+            amount: signedAmount.amount > 0 ? signedAmount : negateMoney(signedAmount),
+            type: signedAmount.amount > 0 ? 'POSITIVE' : 'NEGATIVE',
+            category: UNCATEGORIZED_CATEGORY,
+            description,
+            partyName: partyName || undefined,
+            transactionDate
+        };
+    }
+
+    private getSignedAmount(row: string[], mapping: CsvColumnMapping, currency: string): Money {
+        let amount: Money;
+
+        if (mapping.amountMode === 'SINGLE') {
+            if (mapping.amountColumn === null) {
+                throw new AppError('No amount column mapped', ErrorCodes.INVALID_INPUT, 400);
+            }
+            amount = this.parseAmount(this.getCell(row, mapping.amountColumn), currency);
+        } else {
+            if (mapping.debitColumn === null || mapping.creditColumn === null) {
+                throw new AppError('Both debit and credit columns must be mapped', ErrorCodes.INVALID_INPUT, 400);
+            }
+            const debit = this.getCell(row, mapping.debitColumn);
+            const credit = this.getCell(row, mapping.creditColumn);
+            amount = subtractMoney(
+                credit ? this.parseAbsoluteAmount(credit, currency) : zeroMoney(currency),
+                debit ? this.parseAbsoluteAmount(debit, currency) : zeroMoney(currency)
+            );
+        }
+
+        return mapping.invertAmounts ? negateMoney(amount) : amount;
+    }
+
+    private getCell(row: string[], column: number): string {
+        return (row[column] ?? '').trim();
+    }
+
+    // accepts "$1,234.56", "-12.00", "(12.00)" and "12.00-"
+    private parseAmount(value: string, currency: string): Money {
+        let cleaned = value.replace(/[^0-9.,()\-]/g, '');
+        let negative = false;
+
+        if (/^\(.*\)$/.test(cleaned) || cleaned.endsWith('-') || cleaned.startsWith('-')) {
+            negative = true;
+        }
+        cleaned = cleaned.replace(/[()\-]/g, '').replace(/,/g, '');
+
+        const amount = parseMoney(cleaned, currency);
+        if (!amount) {
+            throw new AppError(`Invalid amount "${value}"`, ErrorCodes.INVALID_AMOUNT, 400);
+        }
+
+        return negative ? negateMoney(amount) : amount;
+    }
+
+    private parseAbsoluteAmount(value: string, currency: string): Money {
+        const amount = this.parseAmount(value, currency);
+        return amount.amount < 0 ? negateMoney(amount) : amount;
+    }
+
+    private parseDate(value: string, format: ImportDateFormat): Date {
+        const parts = value.split(/[^0-9]/).filter(Boolean).map(Number);
+        let year: number, month: number, day: number;
+
+        if (format === 'YYYY-MM-DD') {
+            [year, month, day] = parts;
+        } else if (format === 'MM/DD/YYYY') {
+            [month, day, year] = parts;
+        } else {
+            [day, month, year] = parts;
+        }
+
+        if (year !== undefined && year < 100) year += 2000;
+        const date = new Date(year, month - 1, day);
+
+        if (parts.length < 3 || isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+            throw new AppError(`Invalid date "${value}"`, ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        return date;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import {db} from '@/lib/firebase';
+import {
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    setDoc,
+    Timestamp,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+import {Loan, LoanPayment, PostExtraPaymentDTO, PostLoanPaymentDTO, SaveLoanDTO} from '@/types/loans';
+import {LoanDTO, LoanPaymentDTO} from '@/types/models';
+import {Account} from '@/types/accounts';
+import {CreateTransactionDTO} from '@/types/transactions';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {getNextScheduledPayment, getRemainingPrincipal} from '@/lib/amortization';
+import {zeroMoney} from '@/lib/money';
+import {LOAN_INTEREST_CATEGORY} from '@/services/categories';
+import {services} from '@/lib/services';
+
+export class LoanService {
+    private collection = 'loans';
+    private validator = new ValidationService();
+
+    // null when no terms were entered for the account. payments whose transactions have since
+    // been deleted drop out, so the schedule goes back to owing them
+    async getLoan(accountId: string, userId: string): Promise<Loan | null> {
+        const loanDoc = await getDoc(doc(db, this.collection, accountId));
+        if (!loanDoc.exists()) return null;
+        if (loanDoc.data().userId !== userId) {
+            throw new AppError(
+                'Not authorized to view this loan',
+                ErrorCodes.UNAUTHORIZED,
+                403
+            );
+        }
+
+        const loan = this.convertToLoan({id: loanDoc.id, ...loanDoc.data()} as LoanDTO);
+        if (!loan.payments.length) return loan;
+
+        const transactions = await services.transactions.getTransactionsByAccount(accountId);
+        const chainIds = new Set(transactions.map(t => t.chainId));
+        return {...loan, payments: loan.payments.filter(payment => chainIds.has(payment.chainId))};
+    }
+
+    // as stored, payments whose transactions were deleted are not pruned here
+    async getLoansByUser(userId: string): Promise<Loan[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, this.collection), where('userId', '==', userId)));
+            return snapshot.docs.map(doc => this.convertToLoan({id: doc.id, ...doc.data()} as LoanDTO));
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch loans',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // changing the terms later keeps the payments already posted and reworks the projection
+    async saveLoan(accountId: string, userId: string, data: SaveLoanDTO): Promise<Loan> {
+        const [account, paymentAccount, existing] = await Promise.all([
+            services.accounts.getAccountById(accountId, userId),
+            services.accounts.getAccountById(data.paymentAccountId, userId),
+            this.getLoan(accountId, userId)
+        ]);
+        if (account.type !== 'LOAN') {
+            throw new AppError('Only loan accounts have an amortization schedule', ErrorCodes.INVALID_INPUT, 400);
+        }
+        this.validator.validateLoan(data, account.currency);
+        this.checkPaymentAccount(account, paymentAccount);
+
+        try {
+            await setDoc(doc(db, this.collection, accountId), {
+                accountId,
+                principal: data.principal,
+                annualRate: data.annualRate,
+                termMonths: data.termMonths,
+                startDate: Timestamp.fromDate(data.startDate),
+                paymentAccountId: data.paymentAccountId,
+                extraMonthly: data.extraMonthly || zeroMoney(account.currency),
+                payments: (existing?.payments || []).map(payment => this.toPaymentDTO(payment)),
+                userId,
+                createdAt: existing ? Timestamp.fromDate(existing.createdAt) : serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to save loan', ErrorCodes.INVALID_INPUT, 500);
+        }
+
+        return this.requireLoan(accountId, userId);
+    }
+
+    // the transactions already posted stay where they are
+    async deleteLoan(accountId: string, userId: string): Promise<void> {
+        await this.requireLoan(accountId, userId);
+        try {
+            await deleteDoc(doc(db, this.collection, accountId));
+        } catch (error) {
+            throw new AppError('Failed to delete loan', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    // the next payment on the schedule, including the loan's extra monthly amount
+    async postScheduledPayment(accountId: string, userId: string, data: PostLoanPaymentDTO = {}): Promise<LoanPayment> {
+        const loan = await this.requireLoan(accountId, userId);
+        const next = getNextScheduledPayment(loan);
+        if (!next) {
+            throw new AppError('This loan is paid off', ErrorCodes.INVALID_INPUT, 400);
+        }
+
+        return this.postPayment(loan, userId, {
+            number: next.number,
+            date: data.transactionDate || next.date,
+            interest: next.interest,
+            principal: next.principal
+        }, data.fromAccountId);
+    }
+
+    // an extra payment goes straight off the principal, there is no interest in it
+    async postExtraPayment(accountId: string, userId: string, data: PostExtraPaymentDTO): Promise<LoanPayment> {
+        const loan = await this.requireLoan(accountId, userId);
+
+        return this.postPayment(loan, userId, {
+            number: null,
+            date: data.transactionDate || new Date(),
+            interest: zeroMoney(loan.principal.currency),
+            principal: data.amount
+        }, data.fromAccountId);
+    }
+
+    // interest is an expense in the paying account, the principal a transfer into the loan
+    // account. all of it is one chain, so deleting any leg takes the whole payment back
+    private async postPayment(
+        loan: Loan,
+        userId: string,
+        payment: Omit<LoanPayment, 'chainId'>,
+        fromAccountId?: string
+    ): Promise<LoanPayment> {
+        const [loanAccount, fromAccount] = await Promise.all([
+            services.accounts.getAccountById(loan.accountId, userId),
+            services.accounts.getAccountById(fromAccountId || loan.paymentAccountId, userId)
+        ]);
+        this.checkPaymentAccount(loanAccount, fromAccount);
+        this.validator.validateLoanPayment(
+            payment.principal,
+            loan.principal.currency,
+            fromAccount.currency,
+            getRemainingPrincipal(loan)
+        );
+
+        const label = payment.number ? `payment ${payment.number}` : 'extra payment';
+        const legs: CreateTransactionDTO[] = [
+            {
+                accountId: fromAccount.id,
+                amount: payment.principal,
+                type: 'NEGATIVE',
+                category: 'TRANSFER',
+                description: `${loanAccount.name} ${label}`,
+                transactionDate: payment.date
+            },
+            {
+                accountId: loanAccount.id,
+                amount: payment.principal,
+                type: 'POSITIVE',
+                category: 'TRANSFER',
+                description: `${label.charAt(0).toUpperCase()}${label.slice(1)} from ${fromAccount.name}`,
+                transactionDate: payment.date
+            }
+        ];
+        if (payment.interest.amount > 0) {
+            legs.unshift({
+                accountId: fromAccount.id,
+                amount: payment.interest,
+                type: 'NEGATIVE',
+                category: LOAN_INTEREST_CATEGORY,
+                description: `${loanAccount.name} interest, ${label}`,
+                transactionDate: payment.date
+            });
+        }
+        legs.forEach(leg => this.validator.validateTransaction(leg));
+
+        const chain = await services.transactions.createChainedTransactions(userId, legs);
+        const posted: LoanPayment = {...payment, chainId: chain.chainId};
+
+        try {
+            await updateDoc(doc(db, this.collection, loan.id), {
+                payments: loan.payments.concat(posted).map(p => this.toPaymentDTO(p)),
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to record loan payment', ErrorCodes.INVALID_INPUT, 500);
+        }
+
+        return posted;
+    }
+
+    private async requireLoan(accountId: string, userId: string): Promise<Loan> {
+        const loan = await this.getLoan(accountId, userId);
+        if (!loan) {
+            throw new AppError('No loan terms for this account', ErrorCodes.LOAN_NOT_FOUND, 404);
+        }
+        return loan;
+    }
+
+    private checkPaymentAccount(loanAccount: Account, paymentAccount: Account) {
+        if (paymentAccount.id === loanAccount.id || paymentAccount.isArchived) {
+            throw new AppError('Payments must come from another active account', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (paymentAccount.currency !== loanAccount.currency) {
+            throw new AppError(
+                `Payments must come from an account in ${loanAccount.currency}`,
+                ErrorCodes.CURRENCY_MISMATCH,
+                400
+            );
+        }
+    }
+
+    private toPaymentDTO(payment: LoanPayment): LoanPaymentDTO {
+        return {...payment, date: Timestamp.fromDate(payment.date)};
+    }
+
+    private convertToLoan(dto: LoanDTO): Loan {
+        const currency = dto.principal.currency;
+        return {
+            ...dto,
+            startDate: dto.startDate.toDate(),
+            extraMonthly: dto.extraMonthly || zeroMoney(currency),
+            payments: (dto.payments || []).map(payment => ({...payment, date: payment.date.toDate()})),
+            createdAt: dto.createdAt.toDate(),
+            updatedAt: dto.updatedAt.toDate()
+        };
+    }
+}
\ No newline at end of file
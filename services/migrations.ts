@@ -0,0 +1,167 @@
+import {db} from '@/lib/firebase';
+import {
+    arrayUnion,
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    QueryDocumentSnapshot,
+    serverTimestamp,
+    setDoc,
+    where,
+    WriteBatch,
+    writeBatch
+} from 'firebase/firestore';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {toMoney} from '@/lib/money';
+import {normalizePartyName} from '@/lib/parties';
+import {Money} from '@/types/money';
+
+// firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+interface Migration {
+    id: string;
+    run: (userId: string) => Promise<void>;
+}
+
+export class MigrationService {
+    // one document per user listing the migrations already applied
+    private collection = 'migrations';
+    private inProgress: Promise<void> | null = null;
+
+    private migrations: Migration[] = [
+        {id: 'money-amounts', run: (userId) => this.migrateMoneyAmounts(userId)},
+        {id: 'parties', run: (userId) => this.migratePartyNames(userId)}
+    ];
+
+    // safe to call on every login, finished migrations are skipped
+    async runPendingMigrations(userId: string): Promise<void> {
+        if (!this.inProgress) {
+            this.inProgress = this.runMigrations(userId)
+                .finally(() => {
+                    this.inProgress = null;
+                });
+        }
+        return this.inProgress;
+    }
+
+    private async runMigrations(userId: string): Promise<void> {
+        try {
+            const markerRef = doc(db, this.collection, userId);
+            const marker = await getDoc(markerRef);
+            const applied: string[] = marker.exists() ? marker.data().applied || [] : [];
+
+            for (const migration of this.migrations) {
+                if (applied.includes(migration.id)) continue;
+
+                await migration.run(userId);
+                await setDoc(markerRef, {
+                    applied: arrayUnion(migration.id),
+                    updatedAt: serverTimestamp()
+                }, {merge: true});
+            }
+        } catch (error) {
+            console.error('Error in runMigrations:', error);
+            throw new AppError('Failed to migrate data', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    // amounts used to be floats in major units (12.5), they are now Money in minor units
+    private async migrateMoneyAmounts(userId: string): Promise<void> {
+        const updates: ((batch: WriteBatch) => void)[] = [];
+
+        const transactions = await this.getUserDocuments('transactions', userId);
+        transactions
+            .filter(snapshot => typeof snapshot.data().amount === 'number')
+            .forEach(snapshot => updates.push(batch =>
+                batch.update(snapshot.ref, {amount: toMoney(snapshot.data().amount)})
+            ));
+
+        const budgets = await this.getUserDocuments('budgets', userId);
+        budgets
+            .filter(snapshot => typeof snapshot.data().limit === 'number')
+            .forEach(snapshot => updates.push(batch =>
+                batch.update(snapshot.ref, {limit: toMoney(snapshot.data().limit)})
+            ));
+
+        const rules = await this.getUserDocuments('recurringRules', userId);
+        rules.forEach(snapshot => {
+            const {template, overrides = {}} = snapshot.data();
+            const changes: Record<string, Money> = {};
+
+            if (typeof template.amount === 'number') {
+                changes['template.amount'] = toMoney(template.amount);
+            }
+            Object.keys(overrides).forEach(dateKey => {
+                if (typeof overrides[dateKey].amount === 'number') {
+                    changes[`overrides.${dateKey}.amount`] = toMoney(overrides[dateKey].amount);
+                }
+            });
+
+            if (Object.keys(changes).length) {
+                updates.push(batch => batch.update(snapshot.ref, changes));
+            }
+        });
+
+        for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+            const batch = writeBatch(db);
+            updates.slice(i, i + BATCH_SIZE).forEach(update => update(batch));
+            await batch.commit();
+        }
+    }
+
+    // partyName used to be free text. every spelling that only differs in case or spacing
+    // becomes one party, named after its first spelling, and the transactions point to it
+    private async migratePartyNames(userId: string): Promise<void> {
+        const updates: ((batch: WriteBatch) => void)[] = [];
+        const partyIds: Record<string, string> = {};
+        const partyNames: Record<string, string> = {};
+
+        const parties = await this.getUserDocuments('parties', userId);
+        parties.forEach(snapshot => {
+            const {name, aliases = []} = snapshot.data();
+            [name, ...aliases].forEach((alias: string) => {
+                partyIds[normalizePartyName(alias)] = snapshot.id;
+                partyNames[normalizePartyName(alias)] = name;
+            });
+        });
+
+        const transactions = await this.getUserDocuments('transactions', userId);
+        transactions
+            .filter(snapshot => snapshot.data().partyName && !snapshot.data().partyId)
+            .forEach(snapshot => {
+                const key = normalizePartyName(snapshot.data().partyName);
+                if (!partyIds[key]) {
+                    const partyRef = doc(collection(db, 'parties'));
+                    const name = snapshot.data().partyName.trim().replace(/\s+/g, ' ');
+                    partyIds[key] = partyRef.id;
+                    partyNames[key] = name;
+                    updates.push(batch => batch.set(partyRef, {
+                        name,
+                        aliases: [],
+                        notes: null,
+                        userId,
+                        createdAt: serverTimestamp(),
+                        updatedAt: serverTimestamp()
+                    }));
+                }
+                updates.push(batch => batch.update(snapshot.ref, {
+                    partyId: partyIds[key],
+                    partyName: partyNames[key]
+                }));
+            });
+
+        for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+            const batch = writeBatch(db);
+            updates.slice(i, i + BATCH_SIZE).forEach(update => update(batch));
+            await batch.commit();
+        }
+    }
+
+    private async getUserDocuments(collectionName: string, userId: string): Promise<QueryDocumentSnapshot[]> {
+        const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+        return snapshot.docs;
+    }
+}
\ No newline at end of file
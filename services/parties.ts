@@ -0,0 +1,268 @@
+import {db} from '@/lib/firebase';
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where,
+    WriteBatch,
+    writeBatch
+} from 'firebase/firestore';
+import {CreatePartyDTO, Party, PartyBalance, UpdatePartyDTO} from '@/types/parties';
+import {PartyDTO} from '@/types/models';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {findPartyByName, getPartyBalance, getPartyNames, normalizePartyName} from '@/lib/parties';
+import {services} from '@/lib/services';
+
+// firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+export class PartyService {
+    private collection = 'parties';
+    private transactionsCollection = 'transactions';
+    private validator = new ValidationService();
+
+    async createParty(userId: string, data: CreatePartyDTO): Promise<Party> {
+        const party = this.normalize(data);
+        this.validator.validateParty(party);
+        this.checkNamesAreFree(await this.getPartiesByUser(userId), party);
+
+        try {
+            const docRef = await addDoc(collection(db, this.collection), {
+                ...party,
+                userId,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            const createdDoc = await getDoc(docRef);
+
+            if (!createdDoc.exists()) {
+                throw new AppError(
+                    'Failed to create party',
+                    ErrorCodes.INVALID_INPUT,
+                    500
+                );
+            }
+
+            return this.convertToParty({
+                id: docRef.id,
+                ...createdDoc.data()
+            } as PartyDTO);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to create party',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // a new name is copied onto every transaction with the party
+    async updateParty(partyId: string, data: UpdatePartyDTO, userId: string): Promise<void> {
+        const current = await this.getPartyById(partyId, userId);
+        const party = this.normalize({
+            name: data.name ?? current.name,
+            aliases: data.aliases ?? current.aliases,
+            notes: data.notes !== undefined ? data.notes : current.notes
+        });
+        this.validator.validateParty(party);
+        this.checkNamesAreFree((await this.getPartiesByUser(userId)).filter(p => p.id !== partyId), party);
+
+        try {
+            const writes: ((batch: WriteBatch) => void)[] = [
+                batch => batch.update(doc(db, this.collection, partyId), {...party, updatedAt: serverTimestamp()})
+            ];
+            if (party.name !== current.name) {
+                const transactions = await this.getTransactionDocuments(partyId, userId);
+                transactions.forEach(document => writes.push(batch => batch.update(document.ref, {
+                    partyName: party.name,
+                    updatedAt: serverTimestamp()
+                })));
+            }
+            await this.commitWrites(writes);
+        } catch (error) {
+            throw new AppError(
+                'Failed to update party',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // the transactions stay, they just no longer name anyone
+    async deleteParty(partyId: string, userId: string): Promise<void> {
+        await this.getPartyById(partyId, userId);
+
+        try {
+            const transactions = await this.getTransactionDocuments(partyId, userId);
+            const writes: ((batch: WriteBatch) => void)[] = transactions.map(document => batch => batch.update(
+                document.ref,
+                {partyId: null, partyName: null, updatedAt: serverTimestamp()}
+            ));
+            await this.commitWrites(writes);
+            await deleteDoc(doc(db, this.collection, partyId));
+        } catch (error) {
+            throw new AppError(
+                'Failed to delete party',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // the merged party's names become aliases of the kept one, so they keep resolving to it
+    async mergeParties(keepId: string, mergeId: string, userId: string): Promise<void> {
+        if (keepId === mergeId) {
+            throw new AppError('Pick two different parties to merge', ErrorCodes.INVALID_INPUT, 400);
+        }
+        const [keep, merge] = await Promise.all([
+            this.getPartyById(keepId, userId),
+            this.getPartyById(mergeId, userId)
+        ]);
+        const aliases = this.normalize({
+            name: keep.name,
+            aliases: [...keep.aliases, merge.name, ...merge.aliases]
+        }).aliases;
+
+        try {
+            const transactions = await this.getTransactionDocuments(mergeId, userId);
+            const writes: ((batch: WriteBatch) => void)[] = [
+                batch => batch.update(doc(db, this.collection, keepId), {aliases, updatedAt: serverTimestamp()}),
+                ...transactions.map(document => (batch: WriteBatch) => batch.update(document.ref, {
+                    partyId: keepId,
+                    partyName: keep.name,
+                    updatedAt: serverTimestamp()
+                }))
+            ];
+            await this.commitWrites(writes);
+            await deleteDoc(doc(db, this.collection, mergeId));
+        } catch (error) {
+            throw new AppError(
+                'Failed to merge parties',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // the party a typed name stands for, created on first use
+    async resolveParty(userId: string, name: string): Promise<Party | null> {
+        if (!name.trim()) return null;
+
+        const existing = findPartyByName(await this.getPartiesByUser(userId), name);
+        return existing || this.createParty(userId, {name});
+    }
+
+    async getPartiesByUser(userId: string): Promise<Party[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, this.collection), where('userId', '==', userId)));
+            return snapshot.docs
+                .map(document => this.convertToParty({id: document.id, ...document.data()} as PartyDTO))
+                .sort((a, b) => a.name.localeCompare(b.name));
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch parties',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    async getPartyById(partyId: string, userId: string): Promise<Party> {
+        const partyDoc = await getDoc(doc(db, this.collection, partyId));
+
+        if (!partyDoc.exists()) {
+            throw new AppError(
+                'Party not found',
+                ErrorCodes.PARTY_NOT_FOUND,
+                404
+            );
+        }
+        if (partyDoc.data().userId !== userId) {
+            throw new AppError(
+                'Not authorized to view this party',
+                ErrorCodes.UNAUTHORIZED,
+                403
+            );
+        }
+
+        return this.convertToParty({id: partyDoc.id, ...partyDoc.data()} as PartyDTO);
+    }
+
+    // open paybacks per party id, in the base currency
+    async getPartyBalances(userId: string): Promise<Record<string, PartyBalance>> {
+        const [parties, converter] = await Promise.all([
+            this.getPartiesByUser(userId),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        const balances: Record<string, PartyBalance> = {};
+
+        for (const party of parties) {
+            const transactions = await services.transactions.getTransactionsByParty(party.id, userId);
+            balances[party.id] = getPartyBalance(transactions, converter);
+        }
+
+        return balances;
+    }
+
+    // two parties can't answer to the same name, a typed name has to resolve to one of them
+    private checkNamesAreFree(others: Party[], party: CreatePartyDTO & { aliases: string[] }) {
+        const taken = getPartyNames(party).find(name => others.some(other => getPartyNames(other).includes(name)));
+        if (taken) {
+            throw new AppError(
+                `"${taken}" is already used by another party`,
+                ErrorCodes.PARTY_EXISTS,
+                400
+            );
+        }
+    }
+
+    private getTransactionDocuments(partyId: string, userId: string) {
+        return getDocs(query(
+            collection(db, this.transactionsCollection),
+            where('userId', '==', userId),
+            where('partyId', '==', partyId)
+        )).then(snapshot => snapshot.docs);
+    }
+
+    private async commitWrites(writes: ((batch: WriteBatch) => void)[]) {
+        for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+            const batch = writeBatch(db);
+            writes.slice(i, i + BATCH_SIZE).forEach(write => write(batch));
+            await batch.commit();
+        }
+    }
+
+    // trimmed, with aliases that repeat the name or each other dropped
+    private normalize(data: CreatePartyDTO): CreatePartyDTO & { aliases: string[]; notes: string | null; } {
+        const name = (data.name || '').trim().replace(/\s+/g, ' ');
+        const seen = [normalizePartyName(name)];
+        const aliases: string[] = [];
+
+        (data.aliases || []).forEach(alias => {
+            const trimmed = alias.trim().replace(/\s+/g, ' ');
+            if (!trimmed || seen.includes(normalizePartyName(trimmed))) return;
+            seen.push(normalizePartyName(trimmed));
+            aliases.push(trimmed);
+        });
+
+        return {name, aliases, notes: data.notes?.trim() || null};
+    }
+
+    private convertToParty(dto: PartyDTO): Party {
+        return {
+            ...dto,
+            aliases: dto.aliases || [],
+            notes: dto.notes ?? null,
+            createdAt: dto.createdAt.toDate(),
+            updatedAt: dto.updatedAt.toDate()
+        };
+    }
+}
\ No newline at end of file
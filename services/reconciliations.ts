@@ -0,0 +1,199 @@
+import {db} from '@/lib/firebase';
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    serverTimestamp,
+    setDoc,
+    Timestamp,
+    updateDoc,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import {CreateReconciliationDTO, Reconciliation} from '@/types/reconciliations';
+import {ReconciliationDTO} from '@/types/models';
+import {canReconcile, getAccountTypeLabel} from '@/lib/accounts';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {getClearedBalance, getStatementTransactions} from '@/lib/reconciliation';
+import {formatCurrency} from '@/lib/utils';
+import {subtractMoney} from '@/lib/money';
+import {services} from '@/lib/services';
+
+// firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+export class ReconciliationService {
+    private collection = 'reconciliations';
+    private transactionsCollection = 'transactions';
+    private validator = new ValidationService();
+
+    // ticks a transaction off (or back on) the statement being worked on
+    async setCleared(transactionId: string, cleared: boolean, userId: string): Promise<void> {
+        const transaction = await services.transactions.getTransactionById(transactionId, userId);
+        if (transaction.clearedStatus === 'RECONCILED') {
+            throw new AppError(
+                'This transaction is reconciled, unlock it before changing it',
+                ErrorCodes.TRANSACTION_LOCKED,
+                409
+            );
+        }
+
+        try {
+            await updateDoc(doc(db, this.transactionsCollection, transactionId), {
+                clearedStatus: cleared ? 'CLEARED' : 'UNCLEARED',
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to update cleared status', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    // only goes through when the cleared transactions add up to the statement balance,
+    // then locks every one of them
+    async completeReconciliation(userId: string, data: CreateReconciliationDTO): Promise<Reconciliation> {
+        this.validator.validateReconciliation(data);
+
+        const [account, transactions, converter] = await Promise.all([
+            services.accounts.getAccountById(data.accountId, userId),
+            services.transactions.getTransactionsByAccount(data.accountId),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        if (!canReconcile(account.type)) {
+            throw new AppError(
+                `${getAccountTypeLabel(account.type)} accounts have no statements to reconcile`,
+                ErrorCodes.INVALID_INPUT,
+                400
+            );
+        }
+        if (data.statementBalance.currency !== account.currency) {
+            throw new AppError(
+                `The statement balance must be in ${account.currency}`,
+                ErrorCodes.CURRENCY_MISMATCH,
+                400
+            );
+        }
+
+        const cleared = getClearedBalance(transactions, data.statementDate, account.currency, converter);
+        const difference = subtractMoney(data.statementBalance, cleared);
+        if (difference.amount !== 0) {
+            throw new AppError(
+                `The cleared transactions are ${formatCurrency(difference)} off the statement balance`,
+                ErrorCodes.RECONCILIATION_NOT_BALANCED,
+                400
+            );
+        }
+
+        const toLock = getStatementTransactions(transactions, data.statementDate)
+            .filter(t => t.clearedStatus === 'CLEARED');
+        const reconciliationRef = doc(collection(db, this.collection));
+        const reconciliation: Reconciliation = {
+            id: reconciliationRef.id,
+            accountId: data.accountId,
+            statementDate: data.statementDate,
+            statementBalance: data.statementBalance,
+            transactionIds: toLock.map(t => t.id),
+            userId,
+            createdAt: new Date()
+        };
+
+        try {
+            // the record goes first, so a failure part way still leaves the
+            // locked transactions pointing at something
+            await setDoc(reconciliationRef, {
+                accountId: reconciliation.accountId,
+                statementDate: Timestamp.fromDate(reconciliation.statementDate),
+                statementBalance: reconciliation.statementBalance,
+                transactionIds: reconciliation.transactionIds,
+                userId,
+                createdAt: serverTimestamp()
+            });
+
+            for (let i = 0; i < toLock.length; i += BATCH_SIZE) {
+                const batch = writeBatch(db);
+                toLock.slice(i, i + BATCH_SIZE).forEach(t => {
+                    batch.update(doc(db, this.transactionsCollection, t.id), {
+                        clearedStatus: 'RECONCILED',
+                        reconciliationId: reconciliation.id,
+                        updatedAt: serverTimestamp()
+                    });
+                });
+                await batch.commit();
+            }
+        } catch (error) {
+            throw new AppError('Failed to save reconciliation', ErrorCodes.INVALID_INPUT, 500);
+        }
+
+        return reconciliation;
+    }
+
+    // makes a reconciled transaction editable again. it stays cleared, so the
+    // next reconciliation of the account has to account for any change
+    async unlockTransaction(transactionId: string, userId: string): Promise<void> {
+        const transaction = await services.transactions.getTransactionById(transactionId, userId);
+        if (transaction.clearedStatus !== 'RECONCILED') return;
+
+        try {
+            await updateDoc(doc(db, this.transactionsCollection, transactionId), {
+                clearedStatus: 'CLEARED',
+                reconciliationId: null,
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to unlock transaction', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    // newest statement first
+    async getReconciliationsByAccount(accountId: string, userId: string): Promise<Reconciliation[]> {
+        try {
+            const reconciliationsRef = collection(db, this.collection);
+            const q = query(
+                reconciliationsRef,
+                where('userId', '==', userId),
+                where('accountId', '==', accountId)
+            );
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs
+                .map(doc =>
+                    this.convertToReconciliation({
+                        id: doc.id,
+                        ...doc.data()
+                    } as ReconciliationDTO)
+                )
+                .sort((a, b) => b.statementDate.getTime() - a.statementDate.getTime());
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch reconciliations',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // every account's, for backups
+    async getReconciliationsByUser(userId: string): Promise<Reconciliation[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, this.collection), where('userId', '==', userId)));
+            return snapshot.docs.map(doc =>
+                this.convertToReconciliation({id: doc.id, ...doc.data()} as ReconciliationDTO)
+            );
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch reconciliations',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    private convertToReconciliation(dto: ReconciliationDTO): Reconciliation {
+        return {
+            ...dto,
+            statementDate: dto.statementDate.toDate(),
+            createdAt: dto.createdAt?.toDate() || new Date()
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,330 @@
+import {db} from '@/lib/firebase';
+import {
+    addDoc,
+    arrayUnion,
+    collection,
+    deleteDoc,
+    deleteField,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    Timestamp,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+import {
+    CreateRecurringRuleDTO,
+    RecurringOccurrence,
+    RecurringRule,
+    RecurringTemplate,
+    UpdateRecurringRuleDTO
+} from '@/types/recurring';
+import {RecurringRuleDTO} from '@/types/models';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {getOccurrences, startOfDay} from '@/lib/recurrence';
+import {toMoney} from '@/lib/money';
+import {services} from '@/lib/services';
+
+export class RecurringService {
+    private collection = 'recurringRules';
+    private validator = new ValidationService();
+    // by user id, so a run for one user is never handed to another
+    private catchUpInProgress = new Map<string, Promise<number>>();
+
+    async createRule(userId: string, data: CreateRecurringRuleDTO): Promise<RecurringRule> {
+        this.validator.validateRecurringRule(data);
+
+        try {
+            const rulesRef = collection(db, this.collection);
+            const docRef = await addDoc(rulesRef, {
+                kind: data.kind,
+                template: this.prepareTemplate(data.kind, data.template),
+                frequency: data.frequency,
+                startDate: Timestamp.fromDate(startOfDay(data.startDate)),
+                endDate: data.endDate ? Timestamp.fromDate(data.endDate) : null,
+                occurrenceCount: data.occurrenceCount ?? null,
+                skippedDates: [],
+                overrides: {},
+                lastProcessedDate: null,
+                userId,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            const createdDoc = await getDoc(docRef);
+
+            if (!createdDoc.exists()) {
+                throw new AppError(
+                    'Failed to create recurring rule',
+                    ErrorCodes.INVALID_INPUT,
+                    500
+                );
+            }
+
+            return this.convertToRule({
+                id: docRef.id,
+                ...createdDoc.data()
+            } as RecurringRuleDTO);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to create recurring rule',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // edits the whole series. occurrences that were already created stay as they are
+    async updateRule(ruleId: string, data: UpdateRecurringRuleDTO, userId: string): Promise<void> {
+        const rule = await this.getRuleById(ruleId, userId);
+        const merged: CreateRecurringRuleDTO = {
+            kind: rule.kind,
+            template: data.template ?? rule.template,
+            frequency: data.frequency ?? rule.frequency,
+            startDate: data.startDate ?? rule.startDate,
+            endDate: data.endDate !== undefined ? data.endDate : rule.endDate,
+            occurrenceCount: data.occurrenceCount !== undefined ? data.occurrenceCount : rule.occurrenceCount
+        };
+        this.validator.validateRecurringRule(merged);
+
+        try {
+            await updateDoc(doc(db, this.collection, ruleId), {
+                template: this.prepareTemplate(merged.kind, merged.template),
+                frequency: merged.frequency,
+                startDate: Timestamp.fromDate(startOfDay(merged.startDate)),
+                endDate: merged.endDate ? Timestamp.fromDate(merged.endDate) : null,
+                occurrenceCount: merged.occurrenceCount ?? null,
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to update recurring rule', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async deleteRule(ruleId: string, userId: string): Promise<void> {
+        await this.getRuleById(ruleId, userId);
+
+        try {
+            await deleteDoc(doc(db, this.collection, ruleId));
+        } catch (error) {
+            throw new AppError('Failed to delete recurring rule', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async skipOccurrence(ruleId: string, dateKey: string, userId: string): Promise<void> {
+        await this.getRuleById(ruleId, userId);
+
+        try {
+            await updateDoc(doc(db, this.collection, ruleId), {
+                skippedDates: arrayUnion(dateKey),
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to skip occurrence', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    // edits a single occurrence. passing null clears the override
+    async updateOccurrence(
+        ruleId: string,
+        dateKey: string,
+        changes: Partial<RecurringTemplate> | null,
+        userId: string
+    ): Promise<void> {
+        const rule = await this.getRuleById(ruleId, userId);
+
+        if (changes) {
+            this.validator.validateRecurringRule({
+                ...rule,
+                template: {...rule.template, ...changes}
+            });
+        }
+
+        try {
+            await updateDoc(doc(db, this.collection, ruleId), {
+                [`overrides.${dateKey}`]: changes ? this.prepareTemplate(rule.kind, changes) : deleteField(),
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to update occurrence', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async getRulesByUser(userId: string): Promise<RecurringRule[]> {
+        try {
+            const rulesRef = collection(db, this.collection);
+            const q = query(rulesRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs.map(doc =>
+                this.convertToRule({
+                    id: doc.id,
+                    ...doc.data()
+                } as RecurringRuleDTO)
+            );
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch recurring rules',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // occurrences that have not been materialized yet, up to the given date
+    async getUpcomingOccurrences(userId: string, until: Date): Promise<RecurringOccurrence[]> {
+        const rules = await this.getRulesByUser(userId);
+        const today = startOfDay(new Date());
+
+        return rules
+            .flatMap(rule => getOccurrences(rule, this.getNextUnprocessedDate(rule, today), until))
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    // catch-up pass: creates every occurrence that came due since the last run.
+    // concurrent calls share the same run so nothing gets created twice
+    async processDueOccurrences(userId: string, asOf: Date = new Date()): Promise<number> {
+        let run = this.catchUpInProgress.get(userId);
+        if (!run) {
+            run = this.materializeDueOccurrences(userId, asOf)
+                .finally(() => {
+                    this.catchUpInProgress.delete(userId);
+                });
+            this.catchUpInProgress.set(userId, run);
+        }
+        return run;
+    }
+
+    // progress is saved after every occurrence, so one that fails doesn't bring back the ones
+    // before it on the next run. a failing rule stops there and the other rules carry on
+    private async materializeDueOccurrences(userId: string, asOf: Date): Promise<number> {
+        const rules = await this.getRulesByUser(userId);
+        let created = 0;
+        let failure: unknown = null;
+
+        for (const rule of rules) {
+            const due = getOccurrences(rule, this.getNextUnprocessedDate(rule, rule.startDate), asOf);
+
+            try {
+                for (const occurrence of due) {
+                    if (!occurrence.isSkipped) {
+                        await this.materializeOccurrence(userId, rule, occurrence);
+                        created++;
+                    }
+                    await updateDoc(doc(db, this.collection, rule.id), {
+                        lastProcessedDate: Timestamp.fromDate(occurrence.date),
+                        updatedAt: serverTimestamp()
+                    });
+                }
+            } catch (error) {
+                failure = failure || error;
+            }
+        }
+
+        if (failure) throw failure;
+        return created;
+    }
+
+    // a transfer without a destination would be posted as a one-legged transfer. it fails
+    // instead, so the occurrence isn't marked processed and is tried again once the rule is fixed
+    private async materializeOccurrence(
+        userId: string,
+        rule: RecurringRule,
+        occurrence: RecurringOccurrence
+    ): Promise<void> {
+        const {template} = occurrence;
+
+        if (rule.kind === 'TRANSFER') {
+            if (!template.toAccountId) {
+                throw new AppError(
+                    'Both source and destination accounts are required for a transfer',
+                    ErrorCodes.INVALID_INPUT,
+                    400
+                );
+            }
+            await services.transactions.createTransfer(userId, {
+                fromAccountId: template.accountId,
+                toAccountId: template.toAccountId,
+                amount: template.amount,
+                description: template.description,
+                transactionDate: occurrence.date
+            });
+        } else {
+            await services.transactions.createTransaction(userId, {
+                accountId: template.accountId,
+                amount: template.amount,
+                type: template.type,
+                category: template.category,
+                description: template.description,
+                partyName: template.partyName,
+                transactionDate: occurrence.date
+            });
+        }
+    }
+
+    private getNextUnprocessedDate(rule: RecurringRule, fallback: Date): Date {
+        if (!rule.lastProcessedDate) return fallback;
+
+        const next = new Date(rule.lastProcessedDate);
+        next.setDate(next.getDate() + 1);
+        return next > fallback ? next : fallback;
+    }
+
+    private async getRuleById(ruleId: string, userId: string): Promise<RecurringRule> {
+        const ruleDoc = await getDoc(doc(db, this.collection, ruleId));
+
+        if (!ruleDoc.exists()) {
+            throw new AppError('Recurring rule not found', ErrorCodes.RECURRING_RULE_NOT_FOUND, 404);
+        }
+        if (ruleDoc.data().userId !== userId) {
+            throw new AppError('Not authorized to modify this recurring rule', ErrorCodes.UNAUTHORIZED, 403);
+        }
+
+        return this.convertToRule({
+            id: ruleDoc.id,
+            ...ruleDoc.data()
+        } as RecurringRuleDTO);
+    }
+
+    // firestore rejects undefined values, so only keep the fields that are set
+    private prepareTemplate(kind: RecurringRule['kind'], template: Partial<RecurringTemplate>) {
+        const prepared: Partial<RecurringTemplate> = {...template};
+        if (kind === 'TRANSFER') {
+            prepared.type = 'NEGATIVE';
+            prepared.category = 'TRANSFER';
+        } else {
+            delete prepared.toAccountId;
+        }
+
+        Object.keys(prepared).forEach(key => {
+            const field = key as keyof RecurringTemplate;
+            if (prepared[field] === undefined || prepared[field] === '') {
+                delete prepared[field];
+            }
+        });
+
+        return prepared;
+    }
+
+    private convertToRule(dto: RecurringRuleDTO): RecurringRule {
+        const overrides: RecurringRule['overrides'] = {};
+        Object.entries(dto.overrides || {}).forEach(([dateKey, {amount, ...override}]) => {
+            overrides[dateKey] = amount === undefined ? override : {...override, amount: toMoney(amount)};
+        });
+
+        return {
+            ...dto,
+            template: {...dto.template, amount: toMoney(dto.template.amount)},
+            startDate: dto.startDate.toDate(),
+            endDate: dto.endDate?.toDate() || null,
+            lastProcessedDate: dto.lastProcessedDate?.toDate() || null,
+            skippedDates: dto.skippedDates || [],
+            overrides,
+            createdAt: dto.createdAt?.toDate() || new Date(),
+            updatedAt: dto.updatedAt?.toDate() || new Date()
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,281 @@
+import {db} from '@/lib/firebase';
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    Timestamp,
+    updateDoc,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import {CategorizationRule, CreateRuleDTO, RuleChange, UpdateRuleDTO} from '@/types/rules';
+import {CreateTransactionDTO} from '@/types/transactions';
+import {CategorizationRuleDTO} from '@/types/models';
+import {Party} from '@/types/parties';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {applyRules, getPaybackDueDate, getRuleChange} from '@/lib/rules';
+import {normalizeTags} from '@/lib/tags';
+import {services} from '@/lib/services';
+import {isIncomeOrExpense} from '@/services/categories';
+
+// firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+export class RuleService {
+    private collection = 'categorizationRules';
+    private transactionsCollection = 'transactions';
+    private validator = new ValidationService();
+
+    // new rules go to the end of the list, below every existing one
+    async createRule(userId: string, data: CreateRuleDTO): Promise<CategorizationRule> {
+        const rule = this.normalize(data);
+        this.validator.validateRule(rule);
+
+        try {
+            const existing = await this.getRulesByUser(userId);
+            const docRef = await addDoc(collection(db, this.collection), {
+                ...rule,
+                priority: existing.length ? existing[existing.length - 1].priority + 1 : 0,
+                userId,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            const createdDoc = await getDoc(docRef);
+
+            if (!createdDoc.exists()) {
+                throw new AppError(
+                    'Failed to create rule',
+                    ErrorCodes.INVALID_INPUT,
+                    500
+                );
+            }
+
+            return this.convertToRule({
+                id: docRef.id,
+                ...createdDoc.data()
+            } as CategorizationRuleDTO);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to create rule',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    async updateRule(ruleId: string, data: UpdateRuleDTO, userId: string): Promise<void> {
+        const rule = await this.getRuleById(ruleId, userId);
+        const merged = this.normalize({
+            name: data.name ?? rule.name,
+            enabled: data.enabled ?? rule.enabled,
+            conditions: data.conditions ?? rule.conditions,
+            actions: data.actions ?? rule.actions
+        });
+        this.validator.validateRule(merged);
+
+        try {
+            await updateDoc(doc(db, this.collection, ruleId), {
+                ...merged,
+                priority: data.priority ?? rule.priority,
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            throw new AppError('Failed to update rule', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    // swaps priorities with the neighbouring rule
+    async moveRule(ruleId: string, direction: 'UP' | 'DOWN', userId: string): Promise<void> {
+        const rules = await this.getRulesByUser(userId);
+        const index = rules.findIndex(rule => rule.id === ruleId);
+        if (index === -1) {
+            throw new AppError('Rule not found', ErrorCodes.RULE_NOT_FOUND, 404);
+        }
+
+        const other = rules[direction === 'UP' ? index - 1 : index + 1];
+        if (!other) return;
+
+        try {
+            const batch = writeBatch(db);
+            batch.update(doc(db, this.collection, ruleId), {priority: other.priority, updatedAt: serverTimestamp()});
+            batch.update(doc(db, this.collection, other.id), {priority: rules[index].priority, updatedAt: serverTimestamp()});
+            await batch.commit();
+        } catch (error) {
+            throw new AppError('Failed to reorder rules', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    async deleteRule(ruleId: string, userId: string): Promise<void> {
+        await this.getRuleById(ruleId, userId);
+
+        try {
+            await deleteDoc(doc(db, this.collection, ruleId));
+        } catch (error) {
+            throw new AppError('Failed to delete rule', ErrorCodes.INVALID_INPUT, 500);
+        }
+    }
+
+    // in priority order
+    async getRulesByUser(userId: string): Promise<CategorizationRule[]> {
+        try {
+            const rulesRef = collection(db, this.collection);
+            const q = query(rulesRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs
+                .map(doc =>
+                    this.convertToRule({
+                        id: doc.id,
+                        ...doc.data()
+                    } as CategorizationRuleDTO)
+                )
+                .sort((a, b) => a.priority - b.priority);
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch rules',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // fills in what the user left open on a new transaction. transfers and adjustments are left alone
+    async applyRules(userId: string, data: CreateTransactionDTO): Promise<CreateTransactionDTO> {
+        if (!isIncomeOrExpense(data) || data.chainId) return data;
+
+        const rules = await this.getRulesByUser(userId);
+        return rules.length ? applyRules(rules, data) : data;
+    }
+
+    // what re-running the rules would change, without writing anything. with
+    // overwrite a matching rule replaces the category and party already set
+    async previewRerun(userId: string, overwrite: boolean): Promise<RuleChange[]> {
+        const [rules, accounts] = await Promise.all([
+            this.getRulesByUser(userId),
+            services.accounts.getAccountsByUser(userId)
+        ]);
+        if (!rules.length) return [];
+
+        const changes: RuleChange[] = [];
+        for (const account of accounts) {
+            const transactions = await services.transactions.getTransactionsByAccount(account.id);
+            transactions.forEach(transaction => {
+                const change = getRuleChange(rules, transaction, overwrite);
+                if (change) changes.push(change);
+            });
+        }
+
+        return changes.sort((a, b) => b.transaction.createdAt.getTime() - a.transaction.createdAt.getTime());
+    }
+
+    // writes the changes from previewRerun, returns how many transactions were updated
+    async applyRerun(userId: string, changes: RuleChange[]): Promise<number> {
+        if (changes.some(change => change.transaction.userId !== userId)) {
+            throw new AppError('Not authorized to modify these transactions', ErrorCodes.UNAUTHORIZED, 403);
+        }
+
+        try {
+            // each party name is resolved once, creating the party if it is new
+            const parties: Record<string, Party | null> = {};
+            for (const change of changes) {
+                if (change.partyName && !(change.partyName in parties)) {
+                    parties[change.partyName] = await services.parties.resolveParty(userId, change.partyName);
+                }
+            }
+
+            for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+                const batch = writeBatch(db);
+                changes.slice(i, i + BATCH_SIZE).forEach(change => {
+                    batch.update(
+                        doc(db, this.transactionsCollection, change.transaction.id),
+                        this.prepareChange(change, change.partyName ? parties[change.partyName] : null)
+                    );
+                });
+                await batch.commit();
+            }
+            return changes.length;
+        } catch (error) {
+            throw new AppError(
+                'Failed to apply rules',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    private prepareChange(change: RuleChange, party: Party | null) {
+        const {transaction} = change;
+        const update: any = {updatedAt: serverTimestamp()};
+
+        if (change.category) update.category = change.category;
+        if (party) {
+            update.partyId = party.id;
+            update.partyName = party.name;
+        }
+        if (change.addedTags.length) update.tags = normalizeTags([...transaction.tags, ...change.addedTags]);
+        if (change.requiresPayback) {
+            update.requiresPayback = true;
+            update.paybackDetails = {
+                dueDate: Timestamp.fromDate(getPaybackDueDate(transaction.createdAt)),
+                status: 'PENDING',
+                completedAt: null
+            };
+        }
+
+        return update;
+    }
+
+    private async getRuleById(ruleId: string, userId: string): Promise<CategorizationRule> {
+        const ruleDoc = await getDoc(doc(db, this.collection, ruleId));
+
+        if (!ruleDoc.exists()) {
+            throw new AppError('Rule not found', ErrorCodes.RULE_NOT_FOUND, 404);
+        }
+        if (ruleDoc.data().userId !== userId) {
+            throw new AppError('Not authorized to modify this rule', ErrorCodes.UNAUTHORIZED, 403);
+        }
+
+        return this.convertToRule({
+            id: ruleDoc.id,
+            ...ruleDoc.data()
+        } as CategorizationRuleDTO);
+    }
+
+    // firestore rejects undefined, so every unset field is stored as null
+    private normalize(data: CreateRuleDTO): CreateRuleDTO {
+        const {conditions, actions} = data;
+        return {
+            name: data.name.trim(),
+            enabled: Boolean(data.enabled),
+            conditions: {
+                descriptionContains: conditions.descriptionContains?.trim() || null,
+                minAmount: conditions.minAmount ?? null,
+                maxAmount: conditions.maxAmount ?? null,
+                accountId: conditions.accountId || null,
+                type: conditions.type || null
+            },
+            actions: {
+                category: actions.category || null,
+                tags: normalizeTags(actions.tags),
+                partyName: actions.partyName?.trim() || null,
+                requiresPayback: Boolean(actions.requiresPayback)
+            }
+        };
+    }
+
+    private convertToRule(dto: CategorizationRuleDTO): CategorizationRule {
+        return {
+            ...dto,
+            actions: {...dto.actions, tags: dto.actions.tags || []},
+            createdAt: dto.createdAt?.toDate() || new Date(),
+            updatedAt: dto.updatedAt?.toDate() || new Date()
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import {db} from '@/lib/firebase';
+import {doc, getDoc, serverTimestamp, setDoc, Timestamp} from 'firebase/firestore';
+import {UpdateUserSettingsDTO, UserSettings} from '@/types/settings';
+import {UserSettingsDTO} from '@/types/models';
+import {AppError, ErrorCodes} from '@/lib/errors';
+import {ValidationService} from '@/lib/validation';
+import {DEFAULT_CURRENCY} from '@/lib/money';
+
+export class SettingsService {
+    // one document per user, keyed by the user id
+    private collection = 'userSettings';
+    private validator = new ValidationService();
+
+    private defaultSettings: UserSettings = {
+        baseCurrency: DEFAULT_CURRENCY,
+        paybackReminders: {enabled: true, daysAhead: 3},
+        snoozedReminders: {}
+    };
+
+    async getSettings(userId: string): Promise<UserSettings> {
+        try {
+            const settingsDoc = await getDoc(doc(db, this.collection, userId));
+            if (!settingsDoc.exists()) {
+                return {...this.defaultSettings};
+            }
+
+            const data = settingsDoc.data() as UserSettingsDTO;
+            const stored = data.snoozedReminders || {};
+            const snoozedReminders: Record<string, Date> = {};
+            Object.keys(stored).forEach(id => snoozedReminders[id] = stored[id].toDate());
+
+            return {
+                ...this.defaultSettings,
+                baseCurrency: data.baseCurrency || this.defaultSettings.baseCurrency,
+                paybackReminders: data.paybackReminders || this.defaultSettings.paybackReminders,
+                snoozedReminders
+            };
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch settings',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    async updateSettings(userId: string, data: UpdateUserSettingsDTO): Promise<void> {
+        if (data.baseCurrency !== undefined) {
+            this.validator.validateCurrency(data.baseCurrency);
+        }
+        if (data.paybackReminders !== undefined) {
+            this.validator.validatePaybackReminders(data.paybackReminders);
+        }
+
+        try {
+            await setDoc(doc(db, this.collection, userId), {
+                ...data,
+                updatedAt: serverTimestamp()
+            }, {merge: true});
+        } catch (error) {
+            throw new AppError(
+                'Failed to update settings',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // snoozes that have run out are dropped while the map is rewritten anyway
+    async snoozeReminder(userId: string, transactionId: string, until: Date): Promise<void> {
+        try {
+            const {snoozedReminders} = await this.getSettings(userId);
+            const now = new Date();
+            const kept: Record<string, Timestamp> = {};
+            Object.keys(snoozedReminders)
+                .filter(id => snoozedReminders[id] > now)
+                .forEach(id => kept[id] = Timestamp.fromDate(snoozedReminders[id]));
+            kept[transactionId] = Timestamp.fromDate(until);
+
+            await setDoc(doc(db, this.collection, userId), {
+                snoozedReminders: kept,
+                updatedAt: serverTimestamp()
+            }, {mergeFields: ['snoozedReminders', 'updatedAt']});
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to snooze reminder',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+}
\ No newline at end of file
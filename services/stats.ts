@@ -1,28 +1,39 @@
 import {services} from '@/lib/services';
 import {AppError, ErrorCodes} from '@/lib/errors';
+import {addMoney, negateMoney, signedAmount, subtractMoney, sumMoney, zeroMoney} from '@/lib/money';
+import {isLiability} from '@/lib/accounts';
+import {Account, BalanceSummary, NetWorthPoint} from '@/types/accounts';
+import {getNetWorthHistory} from '@/lib/netWorth';
+import {Money} from '@/types/money';
+import {Transaction} from '@/types/transactions';
+import {getCategoryAmounts} from '@/lib/splits';
+import {isIncomeOrExpense} from '@/services/categories';
 
+// every aggregate is in the user's base currency, each transaction converted
+// at the exchange rate in effect on its own date. a transaction with no rate is left out
+// rather than failing the whole figure, getUnconvertedTransactions lists them. income and spending include archived
+// accounts, the money really came and went, while current balances only cover open accounts
 export class StatsService {
-    async getSpendingByCategory(userId: string, startDate: Date, endDate: Date): Promise<Record<string, number>> {
+    async getSpendingByCategory(userId: string, startDate: Date, endDate: Date): Promise<Record<string, Money>> {
         try {
-            const accounts = await services.accounts.getAccountsByUser(userId);
-            const categorySpending: Record<string, number> = {};
+            const {transactions, baseCurrency} = await this.getConvertedTransactions(userId, startDate, endDate);
+            const categorySpending: Record<string, Money> = {};
 
-            for (const account of accounts) {
-                const transactions = await services.transactions.getTransactionsByAccount(
-                    account.id,
-                    startDate,
-                    endDate
-                );
-
-                for (const transaction of transactions) {
-                    if (transaction.type === 'NEGATIVE' && transaction.category !== 'TRANSFER') {
-                        categorySpending[transaction.category] = (categorySpending[transaction.category] || 0) + transaction.amount;
+            // a split transaction counts each line under its own category
+            for (const {transaction, amount} of transactions) {
+                if (transaction.type === 'NEGATIVE' && isIncomeOrExpense(transaction)) {
+                    for (const line of getCategoryAmounts(transaction, amount)) {
+                        categorySpending[line.category] = addMoney(
+                            categorySpending[line.category] || zeroMoney(baseCurrency),
+                            line.amount
+                        );
                     }
                 }
             }
 
             return categorySpending;
         } catch (error) {
+            if (error instanceof AppError) throw error;
             throw new AppError(
                 'Failed to calculate category spending',
                 ErrorCodes.INVALID_INPUT,
@@ -30,4 +41,187 @@ export class StatsService {
             );
         }
     }
+
+    // transfers between the user's own accounts are neither income nor expense
+    async getIncomeAndExpenses(
+        userId: string,
+        startDate: Date,
+        endDate: Date
+    ): Promise<{ income: Money; expenses: Money; }> {
+        try {
+            const {transactions, baseCurrency} = await this.getConvertedTransactions(userId, startDate, endDate);
+            const counted = transactions.filter(({transaction}) => isIncomeOrExpense(transaction));
+
+            return {
+                income: sumMoney(
+                    counted.filter(({transaction}) => transaction.type === 'POSITIVE').map(({amount}) => amount),
+                    baseCurrency
+                ),
+                expenses: sumMoney(
+                    counted.filter(({transaction}) => transaction.type === 'NEGATIVE').map(({amount}) => amount),
+                    baseCurrency
+                )
+            };
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to calculate income and expenses',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // a transaction with several tags counts in full under each of them
+    async getTotalsByTag(
+        userId: string,
+        startDate: Date,
+        endDate: Date
+    ): Promise<Record<string, { income: Money; expenses: Money; }>> {
+        try {
+            const {transactions, baseCurrency} = await this.getConvertedTransactions(userId, startDate, endDate);
+            const totals: Record<string, { income: Money; expenses: Money; }> = {};
+
+            for (const {transaction, amount} of transactions) {
+                if (!isIncomeOrExpense(transaction)) continue;
+
+                for (const tag of transaction.tags) {
+                    const total = totals[tag] || {income: zeroMoney(baseCurrency), expenses: zeroMoney(baseCurrency)};
+                    if (transaction.type === 'POSITIVE') {
+                        total.income = addMoney(total.income, amount);
+                    } else {
+                        total.expenses = addMoney(total.expenses, amount);
+                    }
+                    totals[tag] = total;
+                }
+            }
+
+            return totals;
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to calculate tag totals',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    async getTotalBalance(userId: string): Promise<Money> {
+        try {
+            const {transactions, baseCurrency} = await this.getConvertedTransactions(userId, undefined, undefined, false);
+            return sumMoney(
+                transactions.map(({transaction, amount}) => signedAmount({type: transaction.type, amount})),
+                baseCurrency
+            );
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to calculate total balance',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // credit card and loan balances count as liabilities, everything else as assets
+    async getBalanceSummary(userId: string): Promise<BalanceSummary> {
+        try {
+            const {transactions, baseCurrency} = await this.getConvertedTransactions(userId, undefined, undefined, false);
+            const balanceOf = (liabilities: boolean) => sumMoney(
+                transactions
+                    .filter(({account}) => isLiability(account.type) === liabilities)
+                    .map(({transaction, amount}) => signedAmount({type: transaction.type, amount})),
+                baseCurrency
+            );
+
+            const assets = balanceOf(false);
+            const liabilities = negateMoney(balanceOf(true));
+            return {assets, liabilities, netWorth: subtractMoney(assets, liabilities)};
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to calculate balance summary',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // transactions left out of the totals above because there is no rate to the base currency
+    // for their currency and date. open accounts only unless includeArchived is set
+    async getUnconvertedTransactions(
+        userId: string,
+        startDate?: Date,
+        endDate?: Date,
+        includeArchived = false
+    ): Promise<Transaction[]> {
+        try {
+            const {unconverted} = await this.getConvertedTransactions(userId, startDate, endDate, includeArchived);
+            return unconverted;
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to check exchange rates',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // archived accounts are included for the months they were open
+    async getNetWorthHistory(userId: string): Promise<{ accounts: Account[]; points: NetWorthPoint[]; }> {
+        try {
+            const [accounts, converter] = await Promise.all([
+                services.accounts.getAccountsByUser(userId, true),
+                services.exchangeRates.getConverter(userId)
+            ]);
+            const transactionsByAccount: Record<string, Transaction[]> = {};
+            for (const account of accounts) {
+                transactionsByAccount[account.id] = await services.transactions.getTransactionsByAccount(account.id);
+            }
+
+            return {accounts, points: getNetWorthHistory(accounts, transactionsByAccount, converter)};
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to calculate net worth history',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    private async getConvertedTransactions(
+        userId: string,
+        startDate?: Date,
+        endDate?: Date,
+        includeArchived = true
+    ) {
+        const [accounts, converter] = await Promise.all([
+            services.accounts.getAccountsByUser(userId, includeArchived),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        const transactions: { transaction: Transaction; amount: Money; account: Account; }[] = [];
+        const unconverted: Transaction[] = [];
+
+        for (const account of accounts) {
+            const accountTransactions = await services.transactions.getTransactionsByAccount(
+                account.id,
+                startDate,
+                endDate
+            );
+
+            for (const transaction of accountTransactions) {
+                const amount = converter.tryToBase(transaction.amount, transaction.createdAt);
+                if (amount) {
+                    transactions.push({transaction, amount, account});
+                } else {
+                    unconverted.push(transaction);
+                }
+            }
+        }
+
+        return {transactions, unconverted, baseCurrency: converter.baseCurrency};
+    }
 }
\ No newline at end of file
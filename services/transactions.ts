@@ -16,14 +16,30 @@ import {
 } from 'firebase/firestore';
 import {
     ChainedTransactions,
+    CreateGroupExpenseDTO,
+    CreateRepaymentDTO,
+    CreateSettlementDTO,
     CreateTransactionDTO,
+    CreateTransferDTO,
+    SuggestionModel,
     Transaction,
     TransactionFilters,
+    TransactionSplit,
     UpdateTransactionDTO
 } from '@/types/transactions';
 import {TransactionDTO} from "@/types/models";
+import {Party} from '@/types/parties';
 import {AppError, ErrorCodes} from '@/lib/errors';
 import {ValidationService} from '@/lib/validation';
+import {services} from '@/lib/services';
+import {subtractMoney, sumMoney, toMajor, toMoney, zeroMoney} from '@/lib/money';
+import {PAYBACK_CATEGORY, TRANSFER_FEE_CATEGORY} from '@/services/categories';
+import {getCategories} from '@/lib/splits';
+import {normalizeTags} from '@/lib/tags';
+import {buildSuggestionModel} from '@/lib/suggestions';
+import {compareDueDates, getPaybackStatus, getRemainingPayback, getRepaymentType} from '@/lib/paybacks';
+import {getGroupShares} from '@/lib/groupSplits';
+import {isOpenPayback} from '@/lib/parties';
 
 export class TransactionService {
     private collection = 'transactions';
@@ -32,7 +48,10 @@ export class TransactionService {
 
     async createTransaction(userId: string, data: CreateTransactionDTO): Promise<Transaction> {
         try {
+            data = await services.rules.applyRules(userId, data);
             this.validator.validateTransaction(data);
+            const party = await this.resolveParty(userId, data);
+            data = {...data, partyId: party?.id, partyName: party?.name};
 
             const transactionsRef = collection(db, this.collection);
             const newTransaction = this.prepareTransactionData(userId, data);
@@ -63,9 +82,11 @@ export class TransactionService {
         }
     }
 
+    // the fee, if any, is created last as its own leg of the chain
     async createChainedTransactions(
         userId: string,
-        transactions: CreateTransactionDTO[]
+        transactions: CreateTransactionDTO[],
+        details: { exchangeRate?: number; fee?: CreateTransactionDTO; } = {}
     ): Promise<ChainedTransactions> {
         if (!transactions.length) {
             throw new AppError(
@@ -88,6 +109,13 @@ export class TransactionService {
                 createdTransactions.push(newTransaction);
             }
 
+            let feeTransactionId: string | null = null;
+            if (details.fee) {
+                const feeTransaction = await this.createTransaction(userId, {...details.fee, chainId});
+                createdTransactions.push(feeTransaction);
+                feeTransactionId = feeTransaction.id;
+            }
+
             // create chain record
             const chainedRef = collection(db, this.chainedCollection);
             const chainRecord = {
@@ -95,7 +123,9 @@ export class TransactionService {
                 userId,
                 transactionIds: createdTransactions.map(t => t.id),
                 createdAt: serverTimestamp(),
-                status: 'COMPLETED'
+                status: 'COMPLETED',
+                exchangeRate: details.exchangeRate ?? null,
+                feeTransactionId
             };
 
             await addDoc(chainedRef, chainRecord);
@@ -115,6 +145,196 @@ export class TransactionService {
         }
     }
 
+    async createTransfer(userId: string, data: CreateTransferDTO): Promise<ChainedTransactions> {
+        if (data.fromAccountId === data.toAccountId) {
+            throw new AppError(
+                'Cannot transfer to the same account',
+                ErrorCodes.INVALID_INPUT,
+                400
+            );
+        }
+
+        const [fromAccount, toAccount] = await Promise.all([
+            services.accounts.getAccountById(data.fromAccountId, userId),
+            services.accounts.getAccountById(data.toAccountId, userId)
+        ]);
+        this.validator.validateTransfer(data, fromAccount.currency, toAccount.currency);
+        const suffix = data.description ? ': ' + data.description : '';
+
+        // without an amount from the user, the destination receives the amount
+        // converted at the rate in effect on the transfer date
+        let receivedAmount = data.receivedAmount || data.amount;
+        if (!data.receivedAmount && data.amount.currency !== toAccount.currency) {
+            const converter = await services.exchangeRates.getConverter(userId);
+            receivedAmount = converter.convert(data.amount, toAccount.currency, data.transactionDate || new Date());
+        }
+
+        const exchangeRate = fromAccount.currency !== toAccount.currency
+            ? Number((toMajor(receivedAmount) / toMajor(data.amount)).toPrecision(12))
+            : undefined;
+        const fee: CreateTransactionDTO | undefined = data.fee && {
+            accountId: fromAccount.id,
+            amount: data.fee,
+            type: 'NEGATIVE',
+            category: TRANSFER_FEE_CATEGORY,
+            description: `Fee for transfer to ${toAccount.name}${suffix}`,
+            transactionDate: data.transactionDate
+        };
+
+        return this.createChainedTransactions(userId, [
+            {
+                accountId: fromAccount.id,
+                amount: data.amount,
+                type: 'NEGATIVE',
+                category: 'TRANSFER',
+                description: `Transfer to ${toAccount.name}${suffix}`,
+                transactionDate: data.transactionDate
+            },
+            {
+                accountId: toAccount.id,
+                amount: receivedAmount,
+                type: 'POSITIVE',
+                category: 'TRANSFER',
+                description: `Transfer from ${fromAccount.name}${suffix}`,
+                transactionDate: data.transactionDate
+            }
+        ], {exchangeRate, fee});
+    }
+
+    // one leg per person, chained so the group expense is deleted as a whole. together the legs
+    // add up to the single charge on the statement
+    async createGroupExpense(userId: string, data: CreateGroupExpenseDTO): Promise<ChainedTransactions> {
+        this.validator.validateGroupExpense(data);
+        const shares = getGroupShares(data.amount, data.mode, data.participants);
+
+        const legs: CreateTransactionDTO[] = data.participants
+            .map((participant, index): CreateTransactionDTO => ({
+                accountId: data.accountId,
+                amount: shares[index],
+                type: 'NEGATIVE',
+                category: data.category,
+                tags: data.tags,
+                description: participant.partyName
+                    ? `${data.description} (${participant.partyName}'s share)`
+                    : data.description,
+                partyName: participant.partyName || undefined,
+                requiresPayback: participant.partyName !== null,
+                paybackDetails: participant.partyName !== null ? {dueDate: data.dueDate} : undefined,
+                transactionDate: data.transactionDate
+            }))
+            // an equal split of a few cents can leave someone with nothing
+            .filter(leg => leg.amount.amount > 0);
+        legs.forEach(leg => this.validator.validateTransaction(leg));
+
+        return this.createChainedTransactions(userId, legs);
+    }
+
+    // a repayment is an ordinary transaction in the account the money moves through, linked
+    // back with repaymentOf rather than a chain, as deleting one leg of a chain deletes them all
+    async createRepayment(userId: string, data: CreateRepaymentDTO): Promise<Transaction> {
+        const [payback, account, converter] = await Promise.all([
+            this.getTransactionById(data.paybackId, userId),
+            services.accounts.getAccountById(data.accountId, userId),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        const converted = converter.convert(data.amount, payback.amount.currency, data.transactionDate || new Date());
+        this.validator.validateRepayment(data, account.currency, payback, converted);
+
+        const direction = payback.type === 'NEGATIVE' ? 'from' : 'to';
+        const repayment = await this.createTransaction(userId, {
+            accountId: account.id,
+            amount: data.amount,
+            type: getRepaymentType(payback),
+            category: PAYBACK_CATEGORY,
+            description: data.description ||
+                `Repayment${payback.partyName ? ` ${direction} ${payback.partyName}` : ''}: ${payback.description}`,
+            partyId: payback.partyId || undefined,
+            partyName: payback.partyName || undefined,
+            repaymentOf: payback.id,
+            transactionDate: data.transactionDate
+        });
+
+        await this.settlePayback(payback.id, userId);
+        return repayment;
+    }
+
+    // spreads one payment over a person's open paybacks in one direction, soonest due first
+    async settleWithParty(userId: string, data: CreateSettlementDTO): Promise<Transaction[]> {
+        const [paybacks, account, converter] = await Promise.all([
+            this.getOpenPaybacks(userId),
+            services.accounts.getAccountById(data.accountId, userId),
+            services.exchangeRates.getConverter(userId)
+        ]);
+        const date = data.transactionDate || new Date();
+
+        // paybacks the person owes are money the user paid out
+        const type = data.direction === 'FROM_PARTY' ? 'NEGATIVE' : 'POSITIVE';
+        const owed = paybacks
+            .filter(payback => payback.partyId === data.partyId && payback.type === type)
+            .map(payback => ({payback, remaining: converter.convert(getRemainingPayback(payback), account.currency, date)}));
+
+        if (data.amount.currency !== account.currency) {
+            throw new AppError(`Amount must be in ${account.currency}`, ErrorCodes.CURRENCY_MISMATCH, 400);
+        }
+        if (data.amount.amount <= 0 || data.amount.amount > sumMoney(owed.map(o => o.remaining), account.currency).amount) {
+            throw new AppError('Payment is more than what is owed', ErrorCodes.INVALID_AMOUNT, 400);
+        }
+
+        const repayments: Transaction[] = [];
+        let left = data.amount;
+        for (const {payback, remaining} of owed) {
+            if (left.amount <= 0) break;
+            const part = remaining.amount < left.amount ? remaining : left;
+            if (part.amount <= 0) continue;
+
+            repayments.push(await this.createRepayment(userId, {
+                paybackId: payback.id,
+                accountId: account.id,
+                amount: part,
+                transactionDate: date
+            }));
+            left = subtractMoney(left, part);
+        }
+        return repayments;
+    }
+
+    // the repaid amount and status are worked out again from the repayments on file, each
+    // converted at the rate of its own date. a payback marked paid by hand before repayments
+    // existed has none and is left as it is
+    async settlePayback(paybackId: string, userId: string): Promise<void> {
+        try {
+            const [payback, repayments, converter] = await Promise.all([
+                this.getTransactionById(paybackId, userId),
+                this.getRepayments(paybackId, userId),
+                services.exchangeRates.getConverter(userId)
+            ]);
+            const details = payback.paybackDetails;
+            if (!details) return;
+            if (!repayments.length && details.status === 'PAID' && details.repaid.amount === 0) return;
+
+            const currency = payback.amount.currency;
+            const repaid = sumMoney(repayments.map(r => converter.convert(r.amount, currency, r.createdAt)), currency);
+            const status = getPaybackStatus(payback.amount, repaid);
+
+            await updateDoc(doc(db, this.collection, paybackId), {
+                paybackDetails: {
+                    dueDate: Timestamp.fromDate(details.dueDate),
+                    status,
+                    completedAt: status === 'PAID' ? Timestamp.fromDate(repayments[repayments.length - 1].createdAt) : null,
+                    repaid
+                },
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            throw new AppError(
+                'Failed to update payback',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
     async updateTransaction(
         transactionId: string,
         data: UpdateTransactionDTO,
@@ -141,14 +361,48 @@ export class TransactionService {
                 );
             }
 
-            const updateData = this.prepareUpdateData(data);
+            // the payback status isn't on the bank statement, so it can still change
+            if (transaction.clearedStatus === 'RECONCILED' && Object.keys(data).some(key => key !== 'paybackDetails')) {
+                throw this.lockedError();
+            }
+
+            if (data.tags !== undefined) {
+                this.validator.validateTags(data.tags);
+            }
+
+            // existing split lines have to keep adding up when only the amount changes
+            const splits = data.splits !== undefined ? data.splits : transaction.splits;
+            if (splits && transaction.category !== 'TRANSFER') {
+                this.validator.validateSplits(splits, data.amount || toMoney(transaction.amount));
+            }
+
+            if ('partyId' in data || 'partyName' in data) {
+                const party = await this.resolveParty(userId, data);
+                data = {...data, partyId: party?.id || null, partyName: party?.name || null};
+            }
+
+            const dropsPayback = data.requiresPayback === false || data.paybackDetails === null;
+            if (dropsPayback && transaction.paybackDetails && await this.hasRepayments(transactionId, userId)) {
+                throw this.hasRepaymentsError();
+            }
+
+            const updateData = this.prepareUpdateData(data, transaction as TransactionDTO);
 
             if (transaction.category === 'TRANSFER') {
-                const {type, category, amount, ...allowedUpdates} = updateData;
+                const {type, category, amount, splits, ...allowedUpdates} = updateData;
                 await updateDoc(transactionRef, allowedUpdates);
             } else {
                 await updateDoc(transactionRef, updateData);
             }
+
+            // a new amount changes how much of it is still owed
+            if (data.amount && transaction.paybackDetails && !dropsPayback) {
+                await this.settlePayback(transactionId, userId);
+            }
+            // and a repayment's amount changes how much of its payback was paid back
+            if (data.amount && transaction.repaymentOf) {
+                await this.settlePayback(transaction.repaymentOf, userId);
+            }
         } catch (error) {
             if (error instanceof AppError) throw error;
             throw new AppError(
@@ -187,6 +441,14 @@ export class TransactionService {
                 const transactionsRef = collection(db, this.collection);
                 const chainQuery = query(transactionsRef, where('chainId', '==', transaction.chainId));
                 const chainedTransactionsSnap = await getDocs(chainQuery);
+                if (chainedTransactionsSnap.docs.some(doc => doc.data().clearedStatus === 'RECONCILED')) {
+                    throw this.lockedError();
+                }
+                for (const leg of chainedTransactionsSnap.docs) {
+                    if (leg.data().paybackDetails && await this.hasRepayments(leg.id, userId)) {
+                        throw this.hasRepaymentsError();
+                    }
+                }
 
                 // Delete all transactions in the chain
                 const deletePromises = chainedTransactionsSnap.docs.map(doc =>
@@ -204,11 +466,22 @@ export class TransactionService {
                 );
                 await Promise.all(chainDeletePromises);
             } else {
+                if (transaction.clearedStatus === 'RECONCILED') {
+                    throw this.lockedError();
+                }
+                if (transaction.paybackDetails && await this.hasRepayments(transactionId, userId)) {
+                    throw this.hasRepaymentsError();
+                }
                 // Delete single transaction
                 await deleteDoc(transactionRef);
+
+                if (transaction.repaymentOf) {
+                    await this.settlePayback(transaction.repaymentOf, userId);
+                }
             }
         } catch (error) {
             console.error('Error in deleteTransaction:', error);
+            if (error instanceof AppError) throw error;
             throw new AppError(
                 'Failed to delete transaction',
                 ErrorCodes.INVALID_INPUT,
@@ -307,6 +580,95 @@ export class TransactionService {
         }
     }
 
+    async getTransactionsByParty(partyId: string, userId: string): Promise<Transaction[]> {
+        try {
+            const q = query(
+                collection(db, this.collection),
+                where('userId', '==', userId),
+                where('partyId', '==', partyId)
+            );
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs
+                .map(doc => this.convertToTransaction({
+                    id: doc.id,
+                    ...doc.data()
+                } as TransactionDTO))
+                .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch transactions',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // everything not yet fully paid back, in either direction, soonest due first
+    async getOpenPaybacks(userId: string): Promise<Transaction[]> {
+        try {
+            const q = query(
+                collection(db, this.collection),
+                where('userId', '==', userId),
+                where('requiresPayback', '==', true)
+            );
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs
+                .map(doc => this.convertToTransaction({
+                    id: doc.id,
+                    ...doc.data()
+                } as TransactionDTO))
+                .filter(isOpenPayback)
+                .sort(compareDueDates);
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch paybacks',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // throws for a transaction that can't be deleted by itself, so callers that change other
+    // data first can check before touching anything
+    async assertDeletable(transaction: Transaction, userId: string): Promise<void> {
+        if (transaction.chainId) {
+            throw new AppError('Transfers and other linked transactions are deleted as a whole', ErrorCodes.INVALID_INPUT, 400);
+        }
+        if (transaction.clearedStatus === 'RECONCILED') {
+            throw this.lockedError();
+        }
+        if (transaction.paybackDetails && await this.hasRepayments(transaction.id, userId)) {
+            throw this.hasRepaymentsError();
+        }
+    }
+
+    // oldest first
+    async getRepayments(paybackId: string, userId: string): Promise<Transaction[]> {
+        try {
+            const q = query(
+                collection(db, this.collection),
+                where('userId', '==', userId),
+                where('repaymentOf', '==', paybackId)
+            );
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs
+                .map(doc => this.convertToTransaction({
+                    id: doc.id,
+                    ...doc.data()
+                } as TransactionDTO))
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch repayments',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
     async getChainedTransactions(chainId: string): Promise<Transaction[]> {
         if (!chainId) {
             throw new AppError(
@@ -336,17 +698,133 @@ export class TransactionService {
         }
     }
 
+    async getChainRecordsByUser(userId: string): Promise<ChainedTransactions[]> {
+        try {
+            const chainedRef = collection(db, this.chainedCollection);
+            const q = query(chainedRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            return snapshot.docs.map(doc => {
+                const data = doc.data();
+                return {
+                    chainId: data.chainId,
+                    transactionIds: data.transactionIds,
+                    createdAt: data.createdAt?.toDate() || new Date(),
+                    status: data.status,
+                    userId: data.userId,
+                    exchangeRate: data.exchangeRate ?? null,
+                    feeTransactionId: data.feeTransactionId ?? null
+                };
+            });
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch chained transactions',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // every tag the user has used, for autocomplete and filters
+    async getTagsByUser(userId: string): Promise<string[]> {
+        try {
+            const transactionsRef = collection(db, this.collection);
+            const q = query(transactionsRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            const tags = new Set<string>();
+            snapshot.docs.forEach(doc => ((doc.data() as TransactionDTO).tags || []).forEach(tag => tags.add(tag)));
+            return Array.from(tags).sort();
+        } catch (error) {
+            throw new AppError(
+                'Failed to fetch tags',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // built from the whole history each time, for category suggestions while typing
+    async getSuggestionModel(userId: string): Promise<SuggestionModel> {
+        try {
+            const transactionsRef = collection(db, this.collection);
+            const q = query(transactionsRef, where('userId', '==', userId));
+            const snapshot = await getDocs(q);
+
+            return buildSuggestionModel(snapshot.docs.map(doc =>
+                this.convertToTransaction({
+                    id: doc.id,
+                    ...doc.data()
+                } as TransactionDTO)
+            ));
+        } catch (error) {
+            throw new AppError(
+                'Failed to load category suggestions',
+                ErrorCodes.INVALID_INPUT,
+                500
+            );
+        }
+    }
+
+    // in-memory filtering for the parts of TransactionFilters firestore can't query
+    applyFilters(transactions: Transaction[], filters: TransactionFilters): Transaction[] {
+        let filtered = transactions;
+
+        if (filters.type) {
+            filtered = filtered.filter(t => {
+                if (filters.type === 'TRANSFER') {
+                    return t.category === 'TRANSFER';
+                }
+                return t.type === filters.type;
+            });
+        }
+
+        // a split transaction matches each of its lines' categories
+        const category = filters.category;
+        if (category) {
+            filtered = filtered.filter(t => t.category === category || getCategories(t).includes(category));
+        }
+
+        const tags = normalizeTags(filters.tags);
+        if (tags.length) {
+            filtered = filtered.filter(t => tags.every(tag => t.tags.includes(tag)));
+        }
+
+        if (filters.searchTerm) {
+            const search = filters.searchTerm.toLowerCase();
+            filtered = filtered.filter(t =>
+                t.description.toLowerCase().includes(search) ||
+                getCategories(t).some(category => category.toLowerCase().includes(search)) ||
+                t.category.toLowerCase().includes(search) ||
+                (t.partyName && t.partyName.toLowerCase().includes(search)) ||
+                t.tags.some(tag => tag.includes(search))
+            );
+        }
+
+        return [...filtered].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
     private convertToTransaction(dto: TransactionDTO): Transaction {
         try {
+            const amount = toMoney(dto.amount);
             const result = {
                 ...dto,
+                amount,
+                splits: dto.splits ?? null,
+                tags: dto.tags ?? [],
+                partyId: dto.partyId ?? null,
+                repaymentOf: dto.repaymentOf ?? null,
+                importId: dto.importId ?? null,
+                clearedStatus: dto.clearedStatus ?? 'UNCLEARED',
+                reconciliationId: dto.reconciliationId ?? null,
                 createdAt: dto.createdAt?.toDate() || new Date(),
                 updatedAt: dto.updatedAt?.toDate() || new Date(),
                 paybackDetails: dto.paybackDetails ? {
                     ...dto.paybackDetails,
                     dueDate: dto.paybackDetails.dueDate?.toDate() || new Date(),
                     completedAt: dto.paybackDetails.completedAt?.toDate() || null,
-                    status: dto.paybackDetails.status
+                    status: dto.paybackDetails.status,
+                    repaid: toMoney(dto.paybackDetails.repaid, amount.currency)
                 } : null
             };
             return result;
@@ -360,7 +838,8 @@ export class TransactionService {
         const paybackDetails = data.requiresPayback ? {
             dueDate: Timestamp.fromDate(data.paybackDetails?.dueDate || new Date()),
             status: 'PENDING' as const,
-            completedAt: null
+            completedAt: null,
+            repaid: zeroMoney(data.amount.currency)
         } : null;
 
         return {
@@ -368,11 +847,18 @@ export class TransactionService {
             amount: data.amount,
             type: data.type,
             category: data.category,
+            splits: data.splits ? this.prepareSplits(data.splits) : null,
+            tags: normalizeTags(data.tags),
             description: data.description,
             userId: userId,
             requiresPayback: Boolean(data.requiresPayback),
+            partyId: data.partyId || null,
             partyName: data.partyName || null,
             chainId: data.chainId || null,
+            repaymentOf: data.repaymentOf || null,
+            importId: data.importId || null,
+            clearedStatus: 'UNCLEARED',
+            reconciliationId: null,
             createdAt: data.transactionDate ?
                 Timestamp.fromDate(data.transactionDate) :
                 serverTimestamp(),
@@ -381,17 +867,26 @@ export class TransactionService {
         };
     }
 
-    private prepareUpdateData(data: UpdateTransactionDTO) {
+    // the payback status and repaid amount are kept from the stored transaction, see settlePayback
+    private prepareUpdateData(data: UpdateTransactionDTO, current: TransactionDTO) {
         const updateData: any = {
             ...data,
             updatedAt: serverTimestamp()
         };
+        if (data.splits) {
+            updateData.splits = this.prepareSplits(data.splits);
+        }
+        if (data.tags) {
+            updateData.tags = normalizeTags(data.tags);
+        }
         if ('paybackDetails' in data) {
             if (data.paybackDetails) {
+                const stored = current.paybackDetails;
                 updateData.paybackDetails = {
                     dueDate: data.paybackDetails.dueDate ? Timestamp.fromDate(data.paybackDetails.dueDate) : null,
-                    status: data.paybackDetails.status || 'PENDING',
-                    completedAt: data.paybackDetails.completedAt ? Timestamp.fromDate(data.paybackDetails.completedAt) : null
+                    status: stored?.status || 'PENDING',
+                    completedAt: stored?.completedAt || null,
+                    repaid: toMoney(stored?.repaid, toMoney(current.amount).currency)
                 };
             } else {
                 updateData.paybackDetails = null;
@@ -407,6 +902,45 @@ export class TransactionService {
         return updateData;
     }
 
+    // an id wins over a name. the stored name always follows the party's current name
+    private async resolveParty(
+        userId: string,
+        data: { partyId?: string | null; partyName?: string | null; }
+    ): Promise<Party | null> {
+        return data.partyId
+            ? services.parties.getPartyById(data.partyId, userId)
+            : services.parties.resolveParty(userId, data.partyName || '');
+    }
+
+    private async hasRepayments(paybackId: string, userId: string): Promise<boolean> {
+        return (await this.getRepayments(paybackId, userId)).length > 0;
+    }
+
+    private hasRepaymentsError(): AppError {
+        return new AppError(
+            'Repayments have been recorded against this transaction, delete them first',
+            ErrorCodes.INVALID_INPUT,
+            409
+        );
+    }
+
+    private lockedError(): AppError {
+        return new AppError(
+            'This transaction is reconciled, unlock it before changing it',
+            ErrorCodes.TRANSACTION_LOCKED,
+            409
+        );
+    }
+
+    // firestore rejects undefined, an empty description is stored as null
+    private prepareSplits(splits: TransactionSplit[]): TransactionSplit[] {
+        return splits.map(split => ({
+            category: split.category,
+            amount: split.amount,
+            description: split.description || null
+        }));
+    }
+
     private getTransactionQueryConstraints(filters: TransactionFilters): QueryConstraint[] {
         const constraints: QueryConstraint[] = [
             where('userId', '==', auth.currentUser?.uid),
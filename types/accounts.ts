@@ -1,19 +1,52 @@
+import {Money} from '@/types/money';
+
+export type AccountType = 'CHECKING' | 'SAVINGS' | 'CREDIT_CARD' | 'CASH' | 'LOAN' | 'INVESTMENT';
+
 export interface Account {
     id: string;
     name: string;
     color: string;
-    balance: number;
+    // ISO 4217 code, the balance is kept in this currency
+    currency: string;
+    balance: Money;
+    // transactions left out of the balance because there is no exchange rate for them
+    unconvertedCount: number;
+    type: AccountType;
+    // credit card and loan accounts only
+    creditLimit: Money | null;
     createdAt: Date;
     updatedAt: Date;
     isArchived: boolean;
+    archivedAt: Date | null;
 }
 
 export interface CreateAccountDTO {
     name: string;
     color: string;
+    currency: string;
+    type: AccountType;
+    creditLimit?: Money | null;
+    // recorded as a balance adjustment on the opening date (today when left out)
+    openingBalance?: Money;
+    openingDate?: Date;
 }
 
 export interface UpdateAccountDTO {
     name?: string;
     color?: string;
+    type?: AccountType;
+    creditLimit?: Money | null;
 }
+
+// liabilities are what is owed on credit card and loan accounts, as a positive amount
+export interface BalanceSummary {
+    assets: Money;
+    liabilities: Money;
+    netWorth: Money;
+}
+
+// balances at a month end, converted to the base currency
+export interface NetWorthPoint extends BalanceSummary {
+    date: Date;
+    byAccount: Record<string, Money>;
+}
\ No newline at end of file
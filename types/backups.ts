@@ -0,0 +1,76 @@
+import {Account} from '@/types/accounts';
+import {ChainedTransactions, Transaction, TransactionCategory} from '@/types/transactions';
+import {Budget} from '@/types/budgets';
+import {RecurringRule} from '@/types/recurring';
+import {ExchangeRate} from '@/types/exchangeRates';
+import {CategorizationRule} from '@/types/rules';
+import {Party} from '@/types/parties';
+import {Reconciliation} from '@/types/reconciliations';
+import {UserSettings} from '@/types/settings';
+import {Loan} from '@/types/loans';
+import {SavedImportMapping} from '@/types/imports';
+
+export type RestoreMode = 'MERGE' | 'REPLACE';
+
+export interface Backup {
+    version: number;
+    createdAt: Date;
+    accounts: Account[];
+    // custom categories only, the defaults are not stored
+    categories: TransactionCategory[];
+    transactions: Transaction[];
+    chains: ChainedTransactions[];
+    budgets: Budget[];
+    recurringRules: RecurringRule[];
+    exchangeRates: ExchangeRate[];
+    categorizationRules: CategorizationRule[];
+    parties: Party[];
+    reconciliations: Reconciliation[];
+    loans: Loan[];
+    // pair keys of the duplicates the user dismissed, see lib/duplicates getPairKey
+    dismissedDuplicates: string[];
+    importMappings: SavedImportMapping[];
+    // snoozes point at transaction ids that change on restore, so they are left out.
+    // null in backups made before settings were included
+    settings: Omit<UserSettings, 'snoozedReminders'> | null;
+}
+
+export interface RestoreCount {
+    created: number;
+    // matched to something the user already has (merge mode) and not written again
+    existing: number;
+}
+
+export interface RestoreSummary {
+    mode: RestoreMode;
+    dryRun: boolean;
+    accounts: RestoreCount;
+    categories: RestoreCount;
+    transactions: RestoreCount;
+    chains: RestoreCount;
+    budgets: RestoreCount;
+    recurringRules: RestoreCount;
+    exchangeRates: RestoreCount;
+    categorizationRules: RestoreCount;
+    parties: RestoreCount;
+    reconciliations: RestoreCount;
+    loans: RestoreCount;
+    dismissedDuplicates: RestoreCount;
+    importMappings: RestoreCount;
+    settings: RestoreCount;
+    // what replace mode takes away before restoring, null for merge
+    removed: {
+        accounts: number;
+        categories: number;
+        transactions: number;
+        budgets: number;
+        recurringRules: number;
+        exchangeRates: number;
+        categorizationRules: number;
+        parties: number;
+        reconciliations: number;
+        loans: number;
+        dismissedDuplicates: number;
+        importMappings: number;
+    } | null;
+}
\ No newline at end of file
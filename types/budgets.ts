@@ -0,0 +1,28 @@
+import {Money} from '@/types/money';
+
+export interface Budget {
+    id: string;
+    // null means the overall monthly cap across all expense categories
+    category: string | null;
+    limit: Money;
+    userId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateBudgetDTO {
+    category: string | null;
+    limit: Money;
+}
+
+export interface UpdateBudgetDTO {
+    limit?: Money;
+}
+
+export interface BudgetProgress {
+    budget: Budget;
+    spent: Money;
+    remaining: Money;
+    percentage: number;
+    isOverspent: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import {Transaction} from '@/types/transactions';
+
+// two transactions that look like the same purchase entered twice
+export interface DuplicatePair {
+    // both ids in sorted order, stays the same whichever one is listed first
+    key: string;
+    // the older of the two
+    first: Transaction;
+    second: Transaction;
+    // overlap of the descriptions' words, 0 to 1
+    similarity: number;
+}
\ No newline at end of file
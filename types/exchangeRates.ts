@@ -0,0 +1,34 @@
+import {Money} from '@/types/money';
+
+export interface ExchangeRate {
+    id: string;
+    // 1 fromCurrency = rate toCurrency
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+    // the rate applies from this day until a newer one for the same pair
+    effectiveDate: Date;
+    userId: string;
+    updatedAt: Date;
+}
+
+export interface CreateExchangeRateDTO {
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+    effectiveDate: Date;
+}
+
+export interface RateImportResult {
+    imported: number;
+    errors: { rowNumber: number; message: string; }[];
+}
+
+export interface CurrencyConverter {
+    baseCurrency: string;
+    convert: (money: Money, currency: string, date: Date) => Money;
+    toBase: (money: Money, date: Date) => Money;
+    // null instead of throwing when there is no rate, for totals that skip what they can't convert
+    tryConvert: (money: Money, currency: string, date: Date) => Money | null;
+    tryToBase: (money: Money, date: Date) => Money | null;
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import {Account} from '@/types/accounts';
+import {Transaction, TransactionCategory, TransactionFilters} from '@/types/transactions';
+
+export type ExportFormat = 'CSV' | 'JSON' | 'OFX';
+
+export interface ExportFile {
+    filename: string;
+    mimeType: string;
+    content: string;
+}
+
+export interface ExportSnapshot {
+    exportedAt: Date;
+    filters: TransactionFilters;
+    accounts: Account[];
+    transactions: Transaction[];
+    categories: TransactionCategory[];
+}
\ No newline at end of file
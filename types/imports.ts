@@ -0,0 +1,54 @@
+import {CreateTransactionDTO} from '@/types/transactions';
+import {Money} from '@/types/money';
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface CsvColumnMapping {
+    hasHeader: boolean;
+    dateColumn: number;
+    dateFormat: ImportDateFormat;
+    descriptionColumn: number;
+    // SINGLE: one signed amount column, DEBIT_CREDIT: separate money out / money in columns
+    amountMode: 'SINGLE' | 'DEBIT_CREDIT';
+    amountColumn: number | null;
+    debitColumn: number | null;
+    creditColumn: number | null;
+    partyColumn: number | null;
+    // for banks that export spending as positive numbers
+    invertAmounts: boolean;
+}
+
+export interface SavedImportMapping {
+    id: string;
+    bankName: string;
+    mapping: CsvColumnMapping;
+    userId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ImportPreviewRow {
+    rowNumber: number;
+    transaction: CreateTransactionDTO | null;
+    error: string | null;
+}
+
+export type StatementFormat = 'OFX' | 'QIF';
+
+// one transaction read from an OFX/QFX or QIF statement
+export interface StatementEntry {
+    // FITID for OFX, a content hash for QIF
+    externalId: string;
+    date: Date;
+    // signed, negative is money out
+    amount: Money;
+    payee: string;
+    memo: string;
+}
+
+export interface ImportResult {
+    added: number;
+    duplicates: number;
+    rejected: number;
+    errors: { rowNumber: number; message: string; }[];
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import {Money} from '@/types/money';
+
+// the terms of a loan account, one per account (the document id is the account id)
+export interface Loan {
+    id: string;
+    accountId: string;
+    // in the loan account's currency
+    principal: Money;
+    // yearly interest rate as a percentage, compounded monthly
+    annualRate: number;
+    termMonths: number;
+    // the first payment falls a month after this
+    startDate: Date;
+    // where payments are made from unless another account is picked
+    paymentAccountId: string;
+    // paid on top of every scheduled payment, straight off the principal
+    extraMonthly: Money;
+    payments: LoanPayment[];
+    userId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// a payment that was posted. number is null for an extra payment outside the schedule
+export interface LoanPayment {
+    number: number | null;
+    date: Date;
+    interest: Money;
+    principal: Money;
+    chainId: string;
+}
+
+export interface SaveLoanDTO {
+    principal: Money;
+    annualRate: number;
+    termMonths: number;
+    startDate: Date;
+    paymentAccountId: string;
+    extraMonthly?: Money;
+}
+
+export interface PostLoanPaymentDTO {
+    // defaults to the loan's payment account
+    fromAccountId?: string;
+    transactionDate?: Date;
+}
+
+export interface PostExtraPaymentDTO {
+    amount: Money;
+    fromAccountId?: string;
+    transactionDate?: Date;
+}
+
+// one row of the schedule. posted rows are what was actually paid, the rest is projected
+export interface ScheduledPayment {
+    number: number | null;
+    date: Date;
+    interest: Money;
+    principal: Money;
+    // principal still owed after this payment
+    balance: Money;
+    posted: boolean;
+}
+
+export interface LoanSummary {
+    remainingPrincipal: Money;
+    interestPaid: Money;
+    // interest still to come if the projection holds
+    interestRemaining: Money;
+    // the regular payment without extras
+    monthlyPayment: Money;
+    payoffDate: Date | null;
+}
\ No newline at end of file
@@ -1,31 +1,169 @@
 import {Timestamp} from 'firebase/firestore';
+import {Money} from '@/types/money';
+import {AccountType} from '@/types/accounts';
+import {RecurrenceFrequency, RecurringTemplate} from '@/types/recurring';
+import {CsvColumnMapping} from '@/types/imports';
+import {ClearedStatus, PaybackStatus, TransactionSplit} from '@/types/transactions';
+import {RuleActions, RuleConditions} from '@/types/rules';
+import {PaybackReminderSettings} from '@/types/settings';
 
 export interface AccountDTO {
     id: string;
     name: string;
     color: string;
+    // missing on accounts created before multi-currency support
+    currency?: string;
+    // both missing on accounts created before account types
+    type?: AccountType;
+    creditLimit?: Money | null;
     createdAt: Timestamp;
     updatedAt: Timestamp;
     isArchived: boolean;
+    // missing on accounts archived before net worth history existed
+    archivedAt?: Timestamp | null;
     userId: string;
 }
 
 export interface TransactionDTO {
     id: string;
     accountId: string;
-    amount: number;
+    // a plain number (major units) in documents written before the Money migration
+    amount: Money | number;
     type: 'POSITIVE' | 'NEGATIVE';
     category: string;
+    // missing on transactions saved before splits existed
+    splits?: TransactionSplit[] | null;
+    // missing on transactions saved before tags existed
+    tags?: string[];
     description: string;
     userId: string;
     requiresPayback: boolean;
+    // missing on transactions saved before parties existed
+    partyId?: string | null;
     partyName: string | null;
     chainId: string | null;
+    importId: string | null;
+    // both missing on transactions saved before reconciliation existed
+    clearedStatus?: ClearedStatus;
+    reconciliationId?: string | null;
+    // missing on transactions saved before repayments existed
+    repaymentOf?: string | null;
     paybackDetails: {
         dueDate: Timestamp;
-        status: 'PENDING' | 'PAID';
+        status: PaybackStatus;
         completedAt: Timestamp | null;
+        // missing on paybacks saved before repayments existed
+        repaid?: Money | number;
     } | null;
     createdAt: Timestamp;
     updatedAt: Timestamp;
+}
+
+export interface BudgetDTO {
+    id: string;
+    category: string | null;
+    limit: Money | number;
+    userId: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export type RecurringTemplateDTO = Omit<RecurringTemplate, 'amount'> & { amount: Money | number; };
+
+export interface RecurringRuleDTO {
+    id: string;
+    kind: 'TRANSACTION' | 'TRANSFER';
+    template: RecurringTemplateDTO;
+    frequency: RecurrenceFrequency;
+    startDate: Timestamp;
+    endDate: Timestamp | null;
+    occurrenceCount: number | null;
+    skippedDates: string[];
+    overrides: Record<string, Partial<RecurringTemplateDTO>>;
+    lastProcessedDate: Timestamp | null;
+    userId: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export interface CategorizationRuleDTO {
+    id: string;
+    name: string;
+    priority: number;
+    enabled: boolean;
+    conditions: RuleConditions;
+    actions: RuleActions;
+    userId: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export interface SavedImportMappingDTO {
+    id: string;
+    bankName: string;
+    mapping: CsvColumnMapping;
+    userId: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export interface ExchangeRateDTO {
+    id: string;
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+    effectiveDate: Timestamp;
+    userId: string;
+    updatedAt: Timestamp;
+}
+
+export interface ReconciliationDTO {
+    id: string;
+    accountId: string;
+    statementDate: Timestamp;
+    statementBalance: Money;
+    transactionIds: string[];
+    userId: string;
+    createdAt: Timestamp;
+}
+
+export interface LoanPaymentDTO {
+    number: number | null;
+    date: Timestamp;
+    interest: Money;
+    principal: Money;
+    chainId: string;
+}
+
+export interface LoanDTO {
+    id: string;
+    accountId: string;
+    principal: Money;
+    annualRate: number;
+    termMonths: number;
+    startDate: Timestamp;
+    paymentAccountId: string;
+    extraMonthly: Money;
+    payments: LoanPaymentDTO[];
+    userId: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+// the reminder fields are missing on settings saved before reminders existed
+export interface UserSettingsDTO {
+    baseCurrency: string;
+    paybackReminders?: PaybackReminderSettings;
+    snoozedReminders?: Record<string, Timestamp>;
+    updatedAt: Timestamp;
+}
+
+export interface PartyDTO {
+    id: string;
+    name: string;
+    aliases: string[];
+    notes: string | null;
+    userId: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
 }
\ No newline at end of file
@@ -0,0 +1,6 @@
+// an amount in integer minor units (cents for CAD) with its ISO 4217 currency code.
+// see lib/money.ts for the arithmetic and rounding rules
+export interface Money {
+    amount: number;
+    currency: string;
+}
\ No newline at end of file
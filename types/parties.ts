@@ -0,0 +1,40 @@
+import {Money} from '@/types/money';
+
+// a person or business the user deals with. transactions point to it by id
+// and keep a copy of the name in partyName
+export interface Party {
+    id: string;
+    name: string;
+    // other spellings that resolve to this party, e.g. "john" or "John S."
+    aliases: string[];
+    notes: string | null;
+    userId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreatePartyDTO {
+    name: string;
+    aliases?: string[];
+    notes?: string | null;
+}
+
+export interface UpdatePartyDTO {
+    name?: string;
+    aliases?: string[];
+    notes?: string | null;
+}
+
+// open paybacks with a party in the base currency. net is positive when they owe the user
+export interface PartyBalance {
+    owedToUser: Money;
+    owedByUser: Money;
+    net: Money;
+}
+
+// one payment that settles up balances, see lib/settlement. null stands for the user
+export interface SettlementPayment {
+    from: string | null;
+    to: string | null;
+    amount: Money;
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import {Money} from '@/types/money';
+
+// one bank statement checked off against an account
+export interface Reconciliation {
+    id: string;
+    accountId: string;
+    statementDate: Date;
+    // in the account's currency
+    statementBalance: Money;
+    // the transactions it locked
+    transactionIds: string[];
+    userId: string;
+    createdAt: Date;
+}
+
+export interface CreateReconciliationDTO {
+    accountId: string;
+    statementDate: Date;
+    statementBalance: Money;
+}
\ No newline at end of file
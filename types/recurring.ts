@@ -0,0 +1,59 @@
+import {Money} from '@/types/money';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurringTemplate {
+    accountId: string;
+    amount: Money;
+    type: 'POSITIVE' | 'NEGATIVE';
+    category: string;
+    description: string;
+    partyName?: string;
+    // destination account, only for transfers
+    toAccountId?: string;
+}
+
+export interface RecurringRule {
+    id: string;
+    kind: 'TRANSACTION' | 'TRANSFER';
+    template: RecurringTemplate;
+    frequency: RecurrenceFrequency;
+    startDate: Date;
+    endDate: Date | null;
+    occurrenceCount: number | null;
+    // date keys (YYYY-MM-DD) of occurrences the user skipped
+    skippedDates: string[];
+    // per-occurrence edits, keyed by date key
+    overrides: Record<string, Partial<RecurringTemplate>>;
+    lastProcessedDate: Date | null;
+    userId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateRecurringRuleDTO {
+    kind: RecurringRule['kind'];
+    template: RecurringTemplate;
+    frequency: RecurrenceFrequency;
+    startDate: Date;
+    endDate?: Date | null;
+    occurrenceCount?: number | null;
+}
+
+export interface UpdateRecurringRuleDTO {
+    template?: RecurringTemplate;
+    frequency?: RecurrenceFrequency;
+    startDate?: Date;
+    endDate?: Date | null;
+    occurrenceCount?: number | null;
+}
+
+export interface RecurringOccurrence {
+    rule: RecurringRule;
+    date: Date;
+    dateKey: string;
+    // template with any per-occurrence override applied
+    template: RecurringTemplate;
+    isSkipped: boolean;
+    isOverridden: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import {Money} from '@/types/money';
+import {Transaction} from '@/types/transactions';
+
+// every condition that is set has to hold, unset ones (null) match anything
+export interface RuleConditions {
+    // case-insensitive, matched against the description and the party name
+    descriptionContains: string | null;
+    // inclusive bounds, only transactions in the same currency can match
+    minAmount: Money | null;
+    maxAmount: Money | null;
+    accountId: string | null;
+    type: 'POSITIVE' | 'NEGATIVE' | null;
+}
+
+export interface RuleActions {
+    category: string | null;
+    // added to the transaction's own tags
+    tags: string[];
+    partyName: string | null;
+    requiresPayback: boolean;
+}
+
+export interface CategorizationRule {
+    id: string;
+    name: string;
+    // lower runs first, and wins when two rules set the same field
+    priority: number;
+    enabled: boolean;
+    conditions: RuleConditions;
+    actions: RuleActions;
+    userId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateRuleDTO {
+    name: string;
+    enabled: boolean;
+    conditions: RuleConditions;
+    actions: RuleActions;
+}
+
+export type UpdateRuleDTO = Partial<CreateRuleDTO> & { priority?: number; };
+
+// what re-running the rules would change on one existing transaction
+export interface RuleChange {
+    transaction: Transaction;
+    category: string | null;
+    partyName: string | null;
+    addedTags: string[];
+    requiresPayback: boolean;
+    ruleNames: string[];
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+export interface PaybackReminderSettings {
+    enabled: boolean;
+    // paybacks due within this many days are included, overdue ones always are
+    daysAhead: number;
+}
+
+export interface UserSettings {
+    // totals across accounts are converted into this currency
+    baseCurrency: string;
+    // shown when the app is opened, see lib/paybacks
+    paybackReminders: PaybackReminderSettings;
+    // transaction id -> no reminder for that payback until then
+    snoozedReminders: Record<string, Date>;
+}
+
+export interface UpdateUserSettingsDTO {
+    baseCurrency?: string;
+    paybackReminders?: PaybackReminderSettings;
+}
\ No newline at end of file
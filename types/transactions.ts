@@ -1,50 +1,155 @@
+import {Money} from '@/types/money';
+
+// one line of a transaction spread over several categories
+export interface TransactionSplit {
+    category: string;
+    amount: Money;
+    description: string | null;
+}
+
+// CLEARED once ticked off against a bank statement, RECONCILED once that statement
+// balanced. reconciled transactions are locked until unlocked again
+export type ClearedStatus = 'UNCLEARED' | 'CLEARED' | 'RECONCILED';
+
+// follows the repayments recorded against a payback, see lib/paybacks
+export type PaybackStatus = 'PENDING' | 'PARTIALLY_PAID' | 'PAID';
+
+export interface PaybackDetails {
+    dueDate: Date;
+    status: PaybackStatus;
+    completedAt: Date | null;
+    // sum of the repayments so far, in the currency of the transaction itself
+    repaid: Money;
+}
+
 export interface Transaction {
     id: string;
     accountId: string;
-    amount: number;
+    amount: Money;
     type: 'POSITIVE' | 'NEGATIVE';
     category: string;
+    // the lines add up to amount, category is then SPLIT_CATEGORY
+    splits: TransactionSplit[] | null;
+    // free-form labels across categories, see lib/tags for the format
+    tags: string[];
     description: string;
     userId: string;
     requiresPayback: boolean;
+    // see types/parties, partyName is the party's name at the time it was last saved
+    partyId: string | null;
     partyName: string | null;
     chainId: string | null;
-    paybackDetails: {
-        dueDate: Date;
-        status: 'PENDING' | 'PAID';
-        completedAt: Date | null;
-    } | null;
+    // the payback this transaction repays, if it is a repayment
+    repaymentOf: string | null;
+    // statement id (OFX FITID or QIF content hash) for imported transactions
+    importId: string | null;
+    clearedStatus: ClearedStatus;
+    // the reconciliation that locked it
+    reconciliationId: string | null;
+    paybackDetails: PaybackDetails | null;
     createdAt: Date;
     updatedAt: Date;
 }
 
 export interface CreateTransactionDTO {
     accountId: string;
-    amount: number;
+    amount: Money;
     type: 'POSITIVE' | 'NEGATIVE';
     category: string;
+    splits?: TransactionSplit[];
+    tags?: string[];
     description: string;
+    // either one is enough, a name is matched against existing parties or creates a new one
+    partyId?: string;
     partyName?: string;
     requiresPayback?: boolean;
     paybackDetails?: {
         dueDate: Date;
     };
     chainId?: string;
+    repaymentOf?: string;
+    importId?: string;
+    transactionDate?: Date;
+}
+
+// money coming back for a payback (or going back, for money the user was lent)
+export interface CreateRepaymentDTO {
+    paybackId: string;
+    // the account the money arrives in or leaves from
+    accountId: string;
+    // in the account's currency
+    amount: Money;
+    description?: string;
+    transactionDate?: Date;
+}
+
+// how a group expense is divided, see lib/groupSplits
+export type GroupSplitMode = 'EQUAL' | 'SHARES' | 'EXACT';
+
+export interface GroupSplitParticipant {
+    // null stands for the user, whose part is a plain expense
+    partyName: string | null;
+    // weight for SHARES
+    shares: number;
+    // own part for EXACT
+    amount: Money;
+}
+
+// one expense the user paid for a group. everyone else's part becomes a payback
+export interface CreateGroupExpenseDTO {
+    accountId: string;
+    amount: Money;
+    category: string;
+    description: string;
+    tags?: string[];
+    transactionDate?: Date;
+    // when the others are expected to pay back
+    dueDate: Date;
+    mode: GroupSplitMode;
+    participants: GroupSplitParticipant[];
+}
+
+export interface CreateTransferDTO {
+    fromAccountId: string;
+    toAccountId: string;
+    // taken out of the source account, in its currency
+    amount: Money;
+    // what arrives in the destination account, in its currency. when left out for
+    // accounts in different currencies it is converted with the user's rates
+    receivedAmount?: Money;
+    // charged to the source account on top of the amount
+    fee?: Money;
+    description?: string;
+    transactionDate?: Date;
+}
+
+// one payment between the user and a person, spread over their open paybacks
+export interface CreateSettlementDTO {
+    partyId: string;
+    // FROM_PARTY pays off what they owe the user, TO_PARTY what the user owes them
+    direction: 'FROM_PARTY' | 'TO_PARTY';
+    accountId: string;
+    // in the account's currency
+    amount: Money;
     transactionDate?: Date;
 }
 
 export interface UpdateTransactionDTO {
-    amount?: number;
+    amount?: Money;
     type?: 'POSITIVE' | 'NEGATIVE';
     category?: string;
+    splits?: TransactionSplit[] | null;
+    tags?: string[];
     description?: string;
+    partyId?: string | null;
     partyName?: string | null;
     requiresPayback?: boolean;
+    // the status and repaid amount follow the repayments and can't be set directly
     paybackDetails?: {
         dueDate: Date;
-        status: 'PENDING' | 'PAID';
-        completedAt: Date | null;
     } | null;
+    // set when merging a duplicate, so the statement line isn't imported again
+    importId?: string | null;
 }
 
 export interface TransactionCategory {
@@ -70,6 +175,25 @@ export interface ChainedTransactions {
     createdAt: Date;
     status: 'COMPLETED' | 'PENDING' | 'FAILED';
     userId: string;
+    // units of the received currency per unit sent, for transfers between currencies
+    exchangeRate: number | null;
+    // the fee leg of a transfer, also listed in transactionIds
+    feeTransactionId: string | null;
+}
+
+// a category and party that similar descriptions were given before
+export interface CategorySuggestion {
+    category: string;
+    partyName: string | null;
+    // share of the matching history that went this way, 0 to 1
+    confidence: number;
+}
+
+// word counts from the user's history, see lib/suggestions
+export interface SuggestionModel {
+    // token -> outcome key -> number of transactions
+    tokens: Record<string, Record<string, number>>;
+    outcomes: Record<string, { type: Transaction['type']; category: string; partyName: string | null; }>;
 }
 
 export interface TransactionFilters {
@@ -78,5 +202,8 @@ export interface TransactionFilters {
     type?: 'POSITIVE' | 'NEGATIVE' | 'TRANSFER';
     category?: string;
     accountId?: string;
+    accountIds?: string[];
+    // transactions carrying every one of these tags
+    tags?: string[];
     searchTerm?: string;
 }
\ No newline at end of file